@@ -0,0 +1,77 @@
+/**
+ * Tests for GBNF Builder
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { zodToGbnf } from "./gbnf";
+
+const WS = String.raw`ws ::= | " " | "\n" [ \t]{0,20}`;
+
+function rules(grammar: string): Record<string, string> {
+  return Object.fromEntries(
+    grammar.split("\n").map((line) => line.split(" ::= ") as [string, string])
+  );
+}
+
+describe("zodToGbnf", () => {
+  it("builds a root rule and only the primitives it uses", () => {
+    expect(zodToGbnf(z.object({ done: z.boolean() }))).toBe(
+      [
+        String.raw`root ::= "{" ws "\"done\"" ws ":" ws boolean "}" ws`,
+        `boolean ::= ( "true" | "false" ) ws`,
+        WS,
+      ].join("\n")
+    );
+  });
+
+  it("puts required properties first and optional ones after", () => {
+    const grammar = rules(
+      zodToGbnf(
+        z.object({
+          id: z.string(),
+          note: z.string().optional(),
+          tags: z.array(z.enum(["a", "b"])),
+        })
+      )
+    );
+
+    expect(grammar.root).toBe(
+      String.raw`"{" ws "\"id\"" ws ":" ws string "," ws "\"tags\"" ws ":" ws root-tags ( "," ws "\"note\"" ws ":" ws string )? "}" ws`
+    );
+    expect(grammar["root-tags"]).toBe(
+      `"[" ws ( root-tags-item ( "," ws root-tags-item )* )? "]" ws`
+    );
+    expect(grammar["root-tags-item"]).toBe(String.raw`"\"a\"" ws | "\"b\"" ws`);
+    expect(grammar.number).toBeUndefined();
+  });
+
+  it("allows any subset of all-optional properties", () => {
+    const grammar = rules(
+      zodToGbnf(z.object({ a: z.number().optional(), b: z.null().optional() }))
+    );
+
+    expect(grammar.root).toBe(
+      String.raw`"{" ws ( "\"a\"" ws ":" ws number ( "," ws "\"b\"" ws ":" ws null )? | "\"b\"" ws ":" ws null )? "}" ws`
+    );
+  });
+
+  it("converts unions, tuples and literals", () => {
+    const grammar = rules(
+      zodToGbnf(
+        z.union([z.string(), z.tuple([z.number().int(), z.literal("x")])])
+      )
+    );
+
+    expect(grammar.root).toBe("string | root-1");
+    expect(grammar["root-1"]).toBe(`"[" ws integer "," ws root-1-1 "]" ws`);
+    expect(grammar["root-1-1"]).toBe(String.raw`"\"x\"" ws`);
+    expect(grammar.integer).toBeDefined();
+  });
+
+  it("requires at least one item for non-empty arrays", () => {
+    const grammar = rules(zodToGbnf(z.array(z.boolean()).min(1)));
+
+    expect(grammar.root).toBe(`"[" ws boolean ( "," ws boolean )* "]" ws`);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * GBNF Builder - Converts schemas to llama.cpp grammars
+ *
+ * llama.cpp (and servers built on it) can constrain sampling with a GBNF
+ * grammar instead of JSON Schema. The grammar is derived from the same
+ * JSON Schema used for native structured output, so objects keep their
+ * property order and enums/literals are exact. Length and range checks are
+ * not expressible and are left to schema validation.
+ */
+
+import { ZodSchema } from "zod";
+import { zodToJsonSchema, JsonSchema } from "./jsonSchema";
+
+/**
+ * Generic JSON rules, following llama.cpp's json.gbnf. Only the rules a
+ * grammar actually references (and their dependencies) are emitted.
+ */
+const PRIMITIVES: Record<string, { body: string; deps: string[] }> = {
+  value: {
+    body: "object | array | string | number | boolean | null",
+    deps: ["object", "array", "string", "number", "boolean", "null"],
+  },
+  object: {
+    body: String.raw`"{" ws ( string ":" ws value ( "," ws string ":" ws value )* )? "}" ws`,
+    deps: ["string", "value", "ws"],
+  },
+  array: {
+    body: String.raw`"[" ws ( value ( "," ws value )* )? "]" ws`,
+    deps: ["value", "ws"],
+  },
+  string: {
+    body: String.raw`"\"" ( [^"\\\x7F\x00-\x1F] | "\\" ( ["\\/bfnrt] | "u" [0-9a-fA-F]{4} ) )* "\"" ws`,
+    deps: ["ws"],
+  },
+  number: {
+    body: String.raw`"-"? ( [0-9] | [1-9] [0-9]{0,15} ) ( "." [0-9]+ )? ( [eE] [-+]? [0-9]+ )? ws`,
+    deps: ["ws"],
+  },
+  integer: {
+    body: String.raw`"-"? ( [0-9] | [1-9] [0-9]{0,15} ) ws`,
+    deps: ["ws"],
+  },
+  boolean: { body: `( "true" | "false" ) ws`, deps: ["ws"] },
+  null: { body: `"null" ws`, deps: ["ws"] },
+  ws: { body: String.raw`| " " | "\n" [ \t]{0,20}`, deps: [] },
+};
+
+/**
+ * Quotes a string as a GBNF literal (same escapes as JSON)
+ */
+function literal(text: string): string {
+  return JSON.stringify(text);
+}
+
+/**
+ * Rule names may only contain letters, digits and dashes
+ */
+function toRuleName(text: string): string {
+  return text.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "") || "x";
+}
+
+/**
+ * Merges `allOf` object schemas; returns undefined for anything else
+ */
+function mergeObjects(schemas: JsonSchema[]): JsonSchema | undefined {
+  if (!schemas.every((schema) => schema.type === "object")) return undefined;
+
+  return {
+    type: "object",
+    properties: Object.assign(
+      {},
+      ...schemas.map((schema) => schema.properties ?? {})
+    ),
+    required: schemas.flatMap((schema) => schema.required ?? []),
+  };
+}
+
+/**
+ * Converts a JSON Schema to a GBNF grammar whose `root` rule matches it
+ */
+export function jsonSchemaToGbnf(schema: JsonSchema): string {
+  const rules = new Map<string, string>();
+  const primitives = new Set<string>();
+
+  function primitive(name: string): string {
+    primitives.add(name);
+    return name;
+  }
+
+  function addRule(name: string, body: string): string {
+    let unique = name;
+    for (let i = 1; rules.has(unique); i++) unique = `${name}-${i}`;
+    rules.set(unique, body);
+    return unique;
+  }
+
+  function visitObject(schema: JsonSchema, name: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+
+    if (properties.length === 0) {
+      if (typeof schema.additionalProperties !== "object") {
+        return primitive("object");
+      }
+      // Record: any keys, values of one schema
+      const value = visit(schema.additionalProperties, `${name}-value`);
+      const entry = `${primitive("string")} ":" ws ${value}`;
+      return addRule(
+        name,
+        `"{" ${primitive("ws")} ( ${entry} ( "," ws ${entry} )* )? "}" ws`
+      );
+    }
+
+    const required = new Set(schema.required ?? []);
+    const entry = ([key, value]: [string, JsonSchema]) =>
+      `${literal(JSON.stringify(key))} ${primitive("ws")} ":" ws ${visit(
+        value,
+        `${name}-${toRuleName(key)}`
+      )}`;
+
+    const requiredEntries = properties
+      .filter(([key]) => required.has(key))
+      .map(entry);
+    const optionalEntries = properties
+      .filter(([key]) => !required.has(key))
+      .map(entry);
+    const optionalAfter = (entries: string[]) =>
+      entries.map((item) => `( "," ws ${item} )?`);
+
+    let body: string;
+    if (requiredEntries.length > 0) {
+      body = [
+        requiredEntries.join(` "," ws `),
+        ...optionalAfter(optionalEntries),
+      ].join(" ");
+    } else {
+      // Any subset in order: choose the first present entry, then the rest
+      const choices = optionalEntries.map((item, index) =>
+        [item, ...optionalAfter(optionalEntries.slice(index + 1))].join(" ")
+      );
+      body = `( ${choices.join(" | ")} )?`;
+    }
+
+    return addRule(name, `"{" ws ${body} "}" ws`);
+  }
+
+  function visitArray(schema: JsonSchema, name: string): string {
+    primitive("ws");
+
+    if (Array.isArray(schema.items)) {
+      const items = schema.items.map((item, index) =>
+        visit(item, `${name}-${index}`)
+      );
+      return addRule(name, `"[" ws ${items.join(` "," ws `)} "]" ws`);
+    }
+
+    if (!schema.items) return primitive("array");
+
+    const item = visit(schema.items, `${name}-item`);
+    const list = `${item} ( "," ws ${item} )*`;
+    return addRule(
+      name,
+      schema.minItems ? `"[" ws ${list} "]" ws` : `"[" ws ( ${list} )? "]" ws`
+    );
+  }
+
+  function visit(schema: JsonSchema, name: string): string {
+    if (schema.enum) {
+      primitive("ws");
+      const values = schema.enum.map(
+        (value) => `${literal(JSON.stringify(value))} ws`
+      );
+      return addRule(name, values.join(" | "));
+    }
+
+    if (schema.anyOf) {
+      const options = schema.anyOf.map((option, index) =>
+        visit(option, `${name}-${index}`)
+      );
+      return addRule(name, options.join(" | "));
+    }
+
+    if (schema.allOf) {
+      const merged = mergeObjects(schema.allOf);
+      return merged ? visit(merged, name) : primitive("value");
+    }
+
+    if (Array.isArray(schema.type)) {
+      const options = schema.type.map((type) =>
+        visit({ ...schema, type }, `${name}-${toRuleName(type)}`)
+      );
+      return addRule(name, options.join(" | "));
+    }
+
+    switch (schema.type) {
+      case "object":
+        return visitObject(schema, name);
+      case "array":
+        return visitArray(schema, name);
+      case "string":
+      case "number":
+      case "integer":
+      case "boolean":
+      case "null":
+        return primitive(schema.type);
+      default:
+        return primitive("value");
+    }
+  }
+
+  const root = visit(schema, "root");
+  if (root !== "root") rules.set("root", root);
+
+  // Include the dependencies of every primitive that is referenced
+  const pending = [...primitives];
+  while (pending.length > 0) {
+    for (const dep of PRIMITIVES[pending.pop()!].deps) {
+      if (!primitives.has(dep)) {
+        primitives.add(dep);
+        pending.push(dep);
+      }
+    }
+  }
+
+  const lines = [
+    `root ::= ${rules.get("root")}`,
+    ...[...rules]
+      .filter(([name]) => name !== "root")
+      .map(([name, body]) => `${name} ::= ${body}`),
+    ...Object.keys(PRIMITIVES)
+      .filter((name) => primitives.has(name))
+      .map((name) => `${name} ::= ${PRIMITIVES[name].body}`),
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Converts a Zod schema to a GBNF grammar for llama.cpp's `grammar` option
+ *
+ * @example
+ * ```ts
+ * zodToGbnf(z.object({ done: z.boolean() }));
+ * // root ::= "{" ws "\"done\"" ws ":" ws boolean "}" ws
+ * // boolean ::= ( "true" | "false" ) ws
+ * // ws ::= | " " | "\n" [ \t]{0,20}
+ * ```
+ */
+export function zodToGbnf(schema: ZodSchema): string {
+  return jsonSchemaToGbnf(zodToJsonSchema(schema));
+}
@@ -1,7 +1,16 @@
 export {
   buildPrompt,
   buildInferencePrompt,
+  buildMessages,
+  buildPatchMessages,
+  buildActionMessages,
+  buildInferenceMessages,
   zodToDescription,
   type PromptConfig,
+  type ActionPromptConfig,
   type InferencePromptConfig,
 } from "./promptBuilder";
+
+export { zodToJsonSchema, type JsonSchema } from "./jsonSchema";
+
+export { zodToGbnf, jsonSchemaToGbnf } from "./gbnf";
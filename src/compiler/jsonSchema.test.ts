@@ -0,0 +1,101 @@
+/**
+ * Tests for JSON Schema Builder
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { zodToJsonSchema } from "./jsonSchema";
+
+describe("zodToJsonSchema", () => {
+  it("converts primitive types", () => {
+    expect(zodToJsonSchema(z.string())).toEqual({ type: "string" });
+    expect(zodToJsonSchema(z.number())).toEqual({ type: "number" });
+    expect(zodToJsonSchema(z.boolean())).toEqual({ type: "boolean" });
+  });
+
+  it("converts integer and bounds checks", () => {
+    expect(zodToJsonSchema(z.number().int().min(0).max(10))).toEqual({
+      type: "integer",
+      minimum: 0,
+      maximum: 10,
+    });
+  });
+
+  it("converts objects with required and optional fields", () => {
+    const schema = z.object({
+      id: z.string(),
+      note: z.string().optional(),
+      done: z.boolean().default(false),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        note: { type: "string" },
+        done: { type: "boolean", default: false },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    });
+  });
+
+  it("converts arrays of objects", () => {
+    const schema = z.object({
+      items: z.array(z.object({ text: z.string() })),
+    });
+
+    const result = zodToJsonSchema(schema);
+    expect(result.properties?.items).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+        additionalProperties: false,
+      },
+    });
+  });
+
+  it("converts enums and literals", () => {
+    expect(zodToJsonSchema(z.enum(["low", "high"]))).toEqual({
+      type: "string",
+      enum: ["low", "high"],
+    });
+    expect(zodToJsonSchema(z.literal(3))).toEqual({
+      type: "number",
+      enum: [3],
+    });
+  });
+
+  it("converts numeric native enums without reverse mappings", () => {
+    enum Priority {
+      Low,
+      High,
+    }
+
+    expect(zodToJsonSchema(z.nativeEnum(Priority))).toEqual({
+      enum: [0, 1],
+    });
+  });
+
+  it("converts nullable and union types to anyOf", () => {
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: "string" }, { type: "null" }],
+    });
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: "string" }, { type: "number" }],
+    });
+  });
+
+  it("keeps descriptions", () => {
+    expect(zodToJsonSchema(z.string().describe("Task title"))).toEqual({
+      type: "string",
+      description: "Task title",
+    });
+  });
+
+  it("falls back to an open schema for unknown types", () => {
+    expect(zodToJsonSchema(z.any())).toEqual({});
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * JSON Schema Builder - Converts Zod schemas for native structured output
+ *
+ * Providers that support constrained decoding (OpenAI json_schema, Gemini
+ * responseSchema, Anthropic tool input) need a JSON Schema rather than the
+ * TypeScript-like description used in prompts.
+ */
+
+import { ZodSchema, ZodTypeDef } from "zod";
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: unknown;
+}
+
+/**
+ * Converts a Zod schema to JSON Schema (draft 2020-12 subset)
+ */
+export function zodToJsonSchema(schema: ZodSchema): JsonSchema {
+  const def = (schema as any)._def;
+  if (!def) return {};
+
+  return convertZodType(def);
+}
+
+function convertZodType(def: ZodTypeDef & { typeName?: string }): JsonSchema {
+  const typeName = (def as any).typeName;
+  const result = convertByTypeName(def, typeName);
+
+  if (def.description && !result.description) {
+    result.description = def.description;
+  }
+
+  return result;
+}
+
+function convertByTypeName(
+  def: ZodTypeDef & { typeName?: string },
+  typeName: string
+): JsonSchema {
+  switch (typeName) {
+    case "ZodObject": {
+      const shape = (def as any).shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        const fieldDef = (value as any)._def;
+        properties[key] = convertZodType(fieldDef);
+        if (!isOptional(fieldDef)) {
+          required.push(key);
+        }
+      }
+
+      // Zod strips unknown keys by default, so only allow them when the
+      // schema would actually keep them
+      let additionalProperties: boolean | JsonSchema =
+        (def as any).unknownKeys === "passthrough";
+      const catchall = (def as any).catchall?._def;
+      if (catchall && catchall.typeName !== "ZodNever") {
+        additionalProperties = convertZodType(catchall);
+      }
+
+      return { type: "object", properties, required, additionalProperties };
+    }
+
+    case "ZodArray": {
+      const result: JsonSchema = {
+        type: "array",
+        items: convertZodType((def as any).type._def),
+      };
+      if ((def as any).minLength) {
+        result.minItems = (def as any).minLength.value;
+      }
+      if ((def as any).maxLength) {
+        result.maxItems = (def as any).maxLength.value;
+      }
+      return result;
+    }
+
+    case "ZodTuple":
+      return {
+        type: "array",
+        items: (def as any).items.map((item: any) => convertZodType(item._def)),
+      };
+
+    case "ZodString": {
+      const result: JsonSchema = { type: "string" };
+      for (const check of (def as any).checks ?? []) {
+        if (check.kind === "min") result.minLength = check.value;
+        if (check.kind === "max") result.maxLength = check.value;
+        if (check.kind === "email") result.format = "email";
+        if (check.kind === "url") result.format = "uri";
+        if (check.kind === "uuid") result.format = "uuid";
+        if (check.kind === "datetime") result.format = "date-time";
+      }
+      return result;
+    }
+
+    case "ZodNumber": {
+      const result: JsonSchema = { type: "number" };
+      for (const check of (def as any).checks ?? []) {
+        if (check.kind === "int") result.type = "integer";
+        if (check.kind === "min") result.minimum = check.value;
+        if (check.kind === "max") result.maximum = check.value;
+      }
+      return result;
+    }
+
+    case "ZodBigInt":
+      return { type: "integer" };
+
+    case "ZodBoolean":
+      return { type: "boolean" };
+
+    case "ZodDate":
+      return { type: "string", format: "date-time" };
+
+    case "ZodNull":
+      return { type: "null" };
+
+    case "ZodEnum":
+      return { type: "string", enum: [...(def as any).values] };
+
+    case "ZodNativeEnum": {
+      const enumObject = (def as any).values;
+      // Numeric TS enums include reverse mappings (value -> name)
+      const values = Object.values(enumObject).filter(
+        (v) => typeof enumObject[v as string] !== "number"
+      );
+      return { enum: values };
+    }
+
+    case "ZodLiteral": {
+      const value = (def as any).value;
+      return { type: typeof value, enum: [value] };
+    }
+
+    case "ZodOptional":
+      return convertZodType((def as any).innerType._def);
+
+    case "ZodNullable":
+      return {
+        anyOf: [convertZodType((def as any).innerType._def), { type: "null" }],
+      };
+
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion": {
+      const options = (def as any).options;
+      const list = Array.isArray(options)
+        ? options
+        : Array.from((options as Map<unknown, any>).values());
+      return { anyOf: list.map((opt: any) => convertZodType(opt._def)) };
+    }
+
+    case "ZodIntersection":
+      return {
+        allOf: [
+          convertZodType((def as any).left._def),
+          convertZodType((def as any).right._def),
+        ],
+      };
+
+    case "ZodRecord":
+      return {
+        type: "object",
+        additionalProperties: convertZodType((def as any).valueType._def),
+      };
+
+    case "ZodDefault":
+      return {
+        ...convertZodType((def as any).innerType._def),
+        default: (def as any).defaultValue(),
+      };
+
+    case "ZodEffects":
+      return convertZodType((def as any).schema._def);
+
+    case "ZodBranded":
+      return convertZodType((def as any).type._def);
+
+    case "ZodReadonly":
+    case "ZodCatch":
+      return convertZodType((def as any).innerType._def);
+
+    case "ZodPipeline":
+      return convertZodType((def as any).in._def);
+
+    default:
+      // ZodAny, ZodUnknown and anything unsupported accept any value
+      return {};
+  }
+}
+
+function isOptional(def: any): boolean {
+  const typeName = def?.typeName;
+  return typeName === "ZodOptional" || typeName === "ZodDefault";
+}
@@ -8,6 +8,10 @@ import {
   zodToDescription,
   buildPrompt,
   buildInferencePrompt,
+  buildMessages,
+  buildPatchMessages,
+  buildActionMessages,
+  buildInferenceMessages,
 } from "./promptBuilder";
 
 describe("Prompt Builder", () => {
@@ -164,6 +168,91 @@ describe("Prompt Builder", () => {
     });
   });
 
+  describe("buildMessages", () => {
+    const TestSchema = z.object({
+      items: z.array(z.object({ id: z.string(), text: z.string() })),
+    });
+
+    it("puts instructions and schema in a system message", () => {
+      const [system] = buildMessages({
+        schema: TestSchema,
+        currentState: { items: [] },
+        intent: "Add task",
+        context: "You are a task manager",
+      });
+
+      expect(system.role).toBe("system");
+      expect(system.content).toContain("SCHEMA:");
+      expect(system.content).toContain("task manager");
+      expect(system.content).not.toContain("Add task");
+    });
+
+    it("puts current state and intent in the user message", () => {
+      const messages = buildMessages({
+        schema: TestSchema,
+        currentState: { items: [{ id: "1", text: "Existing" }] },
+        intent: "Add task",
+      });
+
+      expect(messages).toHaveLength(2);
+      expect(messages[1].role).toBe("user");
+      expect(messages[1].content).toContain('"Add task"');
+      expect(messages[1].content).toContain("Existing");
+      expect(messages[1].content).not.toContain("SCHEMA:");
+    });
+  });
+
+  describe("buildPatchMessages", () => {
+    it("asks for JSON Patch operations against the current state", () => {
+      const [system, user] = buildPatchMessages({
+        schema: z.object({ count: z.number() }),
+        currentState: { count: 1 },
+        intent: "Increment",
+      });
+
+      expect(system.content).toContain("JSON Patch");
+      expect(system.content).toContain('{"patch": [...operations]}');
+      expect(system.content).toContain("count: number");
+      expect(user.content).toContain('"count": 1');
+      expect(user.content).toContain('"Increment"');
+    });
+  });
+
+  describe("buildActionMessages", () => {
+    it("lists the available actions and their payloads", () => {
+      const [system] = buildActionMessages({
+        schema: z.object({ count: z.number() }),
+        currentState: { count: 1 },
+        intent: "Add two",
+        actions: {
+          increment: {
+            description: "Adds to the count",
+            payload: z.object({ by: z.number() }),
+          },
+        },
+      });
+
+      expect(system.content).toContain("- increment - Adds to the count");
+      expect(system.content).toContain("by: number");
+      expect(system.content).toContain('{"actions": [');
+    });
+  });
+
+  describe("buildInferenceMessages", () => {
+    it("separates task from input", () => {
+      const [system, user] = buildInferenceMessages({
+        task: "Summarize this text",
+        input: "Some long article...",
+        outputFormat: "JSON",
+      });
+
+      expect(system.role).toBe("system");
+      expect(system.content).toContain("TASK: Summarize this text");
+      expect(system.content).toContain("OUTPUT FORMAT: JSON");
+      expect(user).toEqual({ role: "user", content: "Some long article..." });
+    });
+  });
+
   describe("buildInferencePrompt", () => {
     it("includes task description", () => {
       const prompt = buildInferencePrompt({
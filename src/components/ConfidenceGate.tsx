@@ -5,6 +5,7 @@
  */
 
 import React, { ReactNode, useState, useCallback } from "react";
+import type { GatingDecision, GatingReason } from "../gating";
 
 export interface ConfidenceGateProps {
   /** Confidence score (0-1) */
@@ -23,6 +24,10 @@ export interface ConfidenceGateProps {
   renderConfirmation?: (props: ConfirmationRenderProps) => ReactNode;
   /** Show confidence indicator */
   showConfidenceIndicator?: boolean;
+  /** Per-field confidence (`metadata.fieldConfidence` with `logprobs`) */
+  fieldConfidence?: Record<string, number> | null;
+  /** Gating policy decision (`metadata.gating`), for reasons and destructiveness */
+  gating?: GatingDecision | null;
 }
 
 export interface ConfirmationRenderProps {
@@ -31,6 +36,10 @@ export interface ConfirmationRenderProps {
   onConfirm: () => void;
   onReject: () => void;
   isDestructive: boolean;
+  /** Fields scoring below the threshold, least certain first */
+  uncertainFields: Array<{ path: string; confidence: number }>;
+  /** Why the gating policy asks for confirmation */
+  reasons: GatingReason[];
 }
 
 /**
@@ -42,6 +51,8 @@ function DefaultConfirmation({
   onConfirm,
   onReject,
   isDestructive,
+  uncertainFields,
+  reasons,
 }: ConfirmationRenderProps): ReactNode {
   const confidencePercent = Math.round(confidence * 100);
 
@@ -67,6 +78,25 @@ function DefaultConfirmation({
             ? pendingValue
             : JSON.stringify(pendingValue, null, 2)}
         </pre>
+        {reasons.length > 0 ? (
+          <ul className="synapse-gating-reasons">
+            {reasons.map(({ scorer, message }) => (
+              <li key={`${scorer}:${message}`} data-scorer={scorer}>
+                {message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          uncertainFields.length > 0 && (
+            <ul className="synapse-uncertain-fields">
+              {uncertainFields.map(({ path, confidence }) => (
+                <li key={path}>
+                  <code>{path}</code> {Math.round(confidence * 100)}% confident
+                </li>
+              ))}
+            </ul>
+          )
+        )}
       </div>
       <div className="synapse-confirmation-actions">
         <button onClick={onReject} className="synapse-btn synapse-btn-cancel">
@@ -88,6 +118,7 @@ function DefaultConfirmation({
  * <ConfidenceGate
  *   confidence={meta.confidence}
  *   pendingValue={meta.pendingState}
+ *   gating={meta.gating}
  *   onConfirm={meta.confirmChange}
  *   onReject={meta.rejectChange}
  * >
@@ -104,14 +135,18 @@ export function ConfidenceGate({
   children,
   renderConfirmation = DefaultConfirmation,
   showConfidenceIndicator = false,
+  fieldConfidence,
+  gating,
 }: ConfidenceGateProps): ReactNode {
   const needsConfirmation = pendingValue !== null && pendingValue !== undefined;
 
-  // Check if change appears destructive
-  const isDestructive =
-    typeof pendingValue === "object" && pendingValue !== null
-      ? JSON.stringify(pendingValue).length < 10 && confidence < 0.5
-      : false;
+  // The policy compared the change with the previous state
+  const isDestructive = gating?.destructive ?? false;
+
+  const uncertainFields = Object.entries(fieldConfidence ?? {})
+    .filter(([, score]) => score < threshold)
+    .sort(([, a], [, b]) => a - b)
+    .map(([path, score]) => ({ path, confidence: score }));
 
   if (needsConfirmation) {
     return (
@@ -122,6 +157,8 @@ export function ConfidenceGate({
           onConfirm,
           onReject,
           isDestructive,
+          uncertainFields,
+          reasons: gating?.reasons ?? [],
         })}
       </>
     );
@@ -0,0 +1,44 @@
+/**
+ * Tests for the Infer component
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, render, screen } from "@testing-library/react";
+import { Infer, clearInferCache, primeInferCache } from "./Infer";
+import { SynapseProvider } from "../context";
+import { AIProvider, InferenceResponse } from "../providers";
+
+afterEach(() => {
+  clearInferCache();
+});
+
+describe("Infer", () => {
+  it("stops loading when a refetch is served from the cache", async () => {
+    const provider: AIProvider = {
+      name: "pending",
+      inference: vi.fn(() => new Promise<InferenceResponse>(() => {})),
+    };
+    const view = (input: string) => (
+      <SynapseProvider config={{ provider }}>
+        <Infer
+          task="Summarize"
+          input={input}
+          cacheKey="summary"
+          fallback="Loading"
+        >
+          {({ data, loading }) => (loading ? "Refreshing" : data)}
+        </Infer>
+      </SynapseProvider>
+    );
+
+    const { rerender } = render(view("first"));
+    expect(await screen.findByText("Loading")).toBeTruthy();
+
+    primeInferCache("summary", "Short");
+    await act(async () => {
+      rerender(view("second"));
+    });
+
+    expect(screen.getByText("Short")).toBeTruthy();
+  });
+});
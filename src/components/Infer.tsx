@@ -17,9 +17,20 @@ import React, {
 } from "react";
 import { ZodSchema } from "zod";
 import { useSynapseContext } from "../context";
-import { buildInferencePrompt } from "../compiler";
-import { validateResponse } from "../validation";
+import { buildInferenceMessages } from "../compiler";
+import {
+  chatWithProvider,
+  streamChatWithProvider,
+  RetryEvent,
+} from "../providers";
+import {
+  validateResponse,
+  createPartialJsonParser,
+  DeepPartial,
+} from "../validation";
 import { sanitizeOutput, escapeHtml } from "../security";
+import { withUsageTracking } from "../usage";
+import { isAbortError, throwIfAborted } from "../utils";
 
 export interface InferProps<T = string> {
   /** The task/prompt to run */
@@ -44,6 +55,8 @@ export interface InferProps<T = string> {
   immediate?: boolean;
   /** Enable streaming output */
   stream?: boolean;
+  /** Feature name usage is recorded under (see `useUsage`) */
+  feature?: string;
 }
 
 export interface InferRenderProps<T> {
@@ -55,6 +68,11 @@ export interface InferRenderProps<T> {
   error: Error | null;
   /** Whether result is from streaming */
   isStreaming: boolean;
+  /**
+   * Progressive result while streaming with a schema. Fields and list
+   * items appear as they arrive; `data` is set once the full output validates.
+   */
+  partialData: DeepPartial<T> | null;
   /** Manually trigger inference */
   refetch: () => Promise<void>;
 }
@@ -86,6 +104,7 @@ export function Infer<T = string>({
   refetchOnInputChange = true,
   immediate = true,
   stream = false,
+  feature,
 }: InferProps<T>): ReactNode {
   const synapse = useSynapseContext();
 
@@ -99,6 +118,7 @@ export function Infer<T = string>({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [partialData, setPartialData] = useState<DeepPartial<T> | null>(null);
 
   // Track if mounted (SSR safety)
   const isMountedRef = useRef(false);
@@ -141,61 +161,103 @@ export function Infer<T = string>({
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
     // Check cache
     if (cacheKey && inferCache.has(cacheKey)) {
+      // The request this one replaced may have left `loading` set
       setData(inferCache.get(cacheKey) as T);
+      setPartialData(null);
+      setIsStreaming(false);
+      setLoading(false);
       return;
     }
 
     setLoading(true);
     setError(null);
+    setPartialData(null);
 
     try {
-      const prompt = buildInferencePrompt({
+      const messages = buildInferenceMessages({
         task,
         input,
         outputFormat: schema ? "JSON" : "text",
       });
 
       synapse.log("Infer:", task);
+      const provider = withUsageTracking(synapse.provider, synapse.usage, {
+        feature,
+        component: "Infer",
+        cacheKey,
+      });
+      const inferenceOptions = {
+        signal,
+        responseSchema: schema,
+        retry: synapse.config.retry,
+        onRetry: (event: RetryEvent) =>
+          synapse.log("Retrying provider request:", event),
+        timeoutMs: synapse.config.timeoutMs,
+        idleTimeoutMs: synapse.config.idleTimeoutMs,
+      };
+
+      const chunks = stream
+        ? streamChatWithProvider(provider, messages, inferenceOptions)
+        : null;
+
+      if (chunks && schema) {
+        // Streaming structured output: render partial values, then validate
+        setIsStreaming(true);
+        const parser = createPartialJsonParser(schema);
+
+        for await (const chunk of chunks) {
+          throwIfAborted(signal);
+
+          const partial = parser.push(chunk.text);
+          if (partial !== undefined) {
+            setPartialData(sanitizeResult(partial) as DeepPartial<T>);
+          }
+        }
 
-      if (stream && synapse.provider.streamInference) {
+        setIsStreaming(false);
+        setPartialData(null);
+
+        const validation = parser.finish();
+        if (!validation.success) {
+          throw new Error(
+            `Validation failed: ${validation.errors
+              .map((e) => e.message)
+              .join(", ")}`
+          );
+        }
+        const sanitized = sanitizeResult(validation.data) as T;
+        setData(sanitized);
+        if (cacheKey) inferCache.set(cacheKey, sanitized);
+      } else if (chunks) {
         // Streaming mode
         setIsStreaming(true);
         let accumulated = "";
 
-        for await (const chunk of synapse.provider.streamInference(prompt)) {
-          if (abortControllerRef.current?.signal.aborted) break;
+        for await (const chunk of chunks) {
+          throwIfAborted(signal);
 
-          accumulated += chunk;
+          accumulated += chunk.text;
           // Sanitize accumulated content before displaying
           const sanitized = sanitizeResult(accumulated) as T;
           setData(sanitized);
         }
 
         setIsStreaming(false);
-
-        // Final validation if schema provided
-        if (schema) {
-          const validation = validateResponse(accumulated, schema);
-          if (!validation.success) {
-            throw new Error(
-              `Validation failed: ${validation.errors
-                .map((e) => e.message)
-                .join(", ")}`
-            );
-          }
-          const sanitized = sanitizeResult(validation.data) as T;
-          setData(sanitized);
-          if (cacheKey) inferCache.set(cacheKey, sanitized);
-        } else {
-          if (cacheKey) inferCache.set(cacheKey, sanitizeResult(accumulated));
-        }
+        if (cacheKey) inferCache.set(cacheKey, sanitizeResult(accumulated));
       } else {
         // Non-streaming mode
-        const response = await synapse.provider.inference(prompt);
+        const response = await chatWithProvider(
+          provider,
+          messages,
+          inferenceOptions
+        );
+        throwIfAborted(signal);
 
         let result: T;
 
@@ -221,15 +283,19 @@ export function Infer<T = string>({
         setData(result);
       }
     } catch (err) {
-      if ((err as Error).name !== "AbortError") {
+      if (!isAbortError(err)) {
         const error = err instanceof Error ? err : new Error(String(err));
         setError(error);
         synapse.log("Infer error:", error);
       }
     } finally {
-      setLoading(false);
+      // A superseding request owns the loading/streaming flags
+      if (abortControllerRef.current === controller) {
+        setIsStreaming(false);
+        setLoading(false);
+      }
     }
-  }, [task, input, schema, cacheKey, stream, synapse, sanitizeResult]);
+  }, [task, input, schema, cacheKey, stream, feature, synapse, sanitizeResult]);
 
   // Initial fetch (client-side only for SSR safety)
   useEffect(() => {
@@ -264,9 +330,10 @@ export function Infer<T = string>({
       loading,
       error,
       isStreaming,
+      partialData,
       refetch: fetchData,
     }),
-    [data, loading, error, isStreaming, fetchData]
+    [data, loading, error, isStreaming, partialData, fetchData]
   );
 
   // Handle loading state
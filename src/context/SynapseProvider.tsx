@@ -2,8 +2,22 @@
  * SynapseProvider - React context for global AI configuration
  */
 
-import React, { createContext, useContext, useMemo, ReactNode } from "react";
-import { AIProvider, createOpenAIProvider, OpenAIConfig } from "../providers";
+import React, {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import {
+  AIProvider,
+  createOpenAIProvider,
+  OpenAIConfig,
+  RetryPolicy,
+  AttachmentPolicy,
+} from "../providers";
+import { createUsageLedger, UsageLedger } from "../usage";
+import { DEFAULT_GATING_POLICY, GatingPolicy } from "../gating";
 
 export interface SynapseConfig {
   /** OpenAI API key or compatible provider key */
@@ -18,23 +32,48 @@ export interface SynapseConfig {
   maxTokens?: number;
   /** Confidence threshold for automatic acceptance (0-1) */
   confidenceThreshold?: number;
+  /**
+   * Decides whether validated changes are applied, confirmed or rejected
+   * (default: `DEFAULT_GATING_POLICY`)
+   */
+  gating?: GatingPolicy;
   /** Maximum retry attempts for self-correction */
   maxRetries?: number;
+  /** Retry policy for transient provider errors (false disables retries) */
+  retry?: RetryPolicy | false;
+  /**
+   * Deadline in ms for one dispatch or inference, spanning every
+   * self-correction attempt (0 disables)
+   */
+  timeoutMs?: number;
+  /** Longest gap in ms between streamed tokens (0 disables) */
+  idleTimeoutMs?: number;
+  /**
+   * Size, type and URL limits for dispatched attachments
+   * (default: `DEFAULT_ATTACHMENT_POLICY`, https links to public hosts)
+   */
+  attachments?: AttachmentPolicy;
   /** Enable debug logging */
   debug?: boolean;
   /** Custom AI provider (overrides apiKey/baseUrl/model) */
   provider?: AIProvider;
+  /**
+   * Ledger that records token usage and cost and enforces budgets
+   * (default: a ledger with `DEFAULT_PRICING` and no budgets)
+   */
+  usage?: UsageLedger;
 }
 
 export interface SynapseContextValue {
   config: Required<
-    Omit<SynapseConfig, "apiKey" | "baseUrl" | "model" | "provider">
+    Omit<SynapseConfig, "apiKey" | "baseUrl" | "model" | "provider" | "usage">
   > & {
     apiKey?: string;
     baseUrl?: string;
     model?: string;
   };
   provider: AIProvider;
+  usage: UsageLedger;
   log: (...args: unknown[]) => void;
 }
 
@@ -42,7 +81,12 @@ const DEFAULT_CONFIG: SynapseContextValue["config"] = {
   temperature: 0.7,
   maxTokens: 2048,
   confidenceThreshold: 0.7,
+  gating: DEFAULT_GATING_POLICY,
   maxRetries: 3,
+  retry: {},
+  timeoutMs: 0,
+  idleTimeoutMs: 0,
+  attachments: {},
   debug: false,
 };
 
@@ -54,6 +98,9 @@ export interface SynapseProviderProps {
 }
 
 export function SynapseProvider({ config, children }: SynapseProviderProps) {
+  // Created once so usage survives config changes
+  const [defaultUsage] = useState(() => createUsageLedger());
+
   const value = useMemo<SynapseContextValue>(() => {
     const mergedConfig = { ...DEFAULT_CONFIG, ...config };
 
@@ -77,9 +124,10 @@ export function SynapseProvider({ config, children }: SynapseProviderProps) {
     return {
       config: mergedConfig,
       provider,
+      usage: config.usage ?? defaultUsage,
       log,
     };
-  }, [config]);
+  }, [config, defaultUsage]);
 
   return (
     <SynapseContext.Provider value={value}>{children}</SynapseContext.Provider>
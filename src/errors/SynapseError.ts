@@ -9,13 +9,30 @@ export type SynapseErrorCode =
   | "NETWORK_ERROR"
   | "CAPABILITY_UNSUPPORTED"
   | "MEMORY_PRESSURE"
-  | "SECURITY_VIOLATION";
+  | "SECURITY_VIOLATION"
+  | "RATE_LIMITED"
+  | "AUTH_FAILED"
+  | "QUOTA_EXCEEDED"
+  | "CONTEXT_LENGTH_EXCEEDED"
+  | "CONTENT_FILTERED"
+  | "INVALID_REQUEST"
+  | "ABORTED"
+  | "PROVIDER_UNAVAILABLE"
+  | "BUDGET_EXCEEDED";
 
 export interface SynapseErrorDebugInfo {
   prompt?: string;
   response?: string;
   validationErrors?: unknown[];
   modelId?: string;
+  /** Provider that raised the error */
+  provider?: string;
+  /** HTTP status of the failed request */
+  status?: number;
+  /** Vendor error code or type, e.g. "insufficient_quota" */
+  providerCode?: string;
+  /** How long the provider asked clients to wait */
+  retryAfterMs?: number;
   timestamp: number;
 }
 
@@ -67,6 +84,24 @@ export class SynapseError extends Error {
         return "Close some browser tabs or switch to cloud mode.";
       case "SECURITY_VIOLATION":
         return "The intent was blocked for security reasons.";
+      case "RATE_LIMITED":
+        return "The provider is rate limiting requests. Wait a moment and try again.";
+      case "AUTH_FAILED":
+        return "Check that the API key is valid and has access to this model.";
+      case "QUOTA_EXCEEDED":
+        return "The account is out of quota or credits. Check billing with the provider.";
+      case "CONTEXT_LENGTH_EXCEEDED":
+        return "Shorten the prompt or conversation, or use a model with a larger context window.";
+      case "CONTENT_FILTERED":
+        return "Rephrase the request; the provider's content policy blocked it.";
+      case "INVALID_REQUEST":
+        return "The provider rejected the request. Check the model name and options.";
+      case "ABORTED":
+        return "The request was cancelled.";
+      case "PROVIDER_UNAVAILABLE":
+        return "The provider is unavailable. Try again later or configure a fallback provider.";
+      case "BUDGET_EXCEEDED":
+        return "The usage budget is spent. Raise the limit or reset the usage ledger.";
       default:
         return "An unexpected error occurred.";
     }
@@ -80,9 +115,18 @@ export class SynapseError extends Error {
         return true; // Can fallback to cloud
       case "VALIDATION_FAILED":
       case "INFERENCE_TIMEOUT":
+      case "RATE_LIMITED":
+      case "PROVIDER_UNAVAILABLE":
         return true; // Can retry
       case "SECURITY_VIOLATION":
       case "NETWORK_ERROR":
+      case "AUTH_FAILED":
+      case "QUOTA_EXCEEDED":
+      case "CONTEXT_LENGTH_EXCEEDED":
+      case "CONTENT_FILTERED":
+      case "INVALID_REQUEST":
+      case "ABORTED":
+      case "BUDGET_EXCEEDED":
         return false;
       default:
         return false;
@@ -114,12 +158,22 @@ export const Errors = {
       }
     ),
 
-  inferenceTimeout: (modelId: string, timeoutMs: number) =>
+  /**
+   * `partialOutput` (text streamed before the timeout) is kept in
+   * `debugInfo.response`; `idle` marks a stream that stopped sending tokens
+   */
+  inferenceTimeout: (
+    modelId: string,
+    timeoutMs: number,
+    details: { partialOutput?: string; idle?: boolean } = {}
+  ) =>
     new SynapseError(
       "INFERENCE_TIMEOUT",
-      `Inference timed out after ${timeoutMs}ms`,
+      details.idle
+        ? `Inference stalled: no output for ${timeoutMs}ms`
+        : `Inference timed out after ${timeoutMs}ms`,
       {
-        debugInfo: { modelId },
+        debugInfo: { modelId, response: details.partialOutput },
       }
     ),
 
@@ -160,4 +214,54 @@ export const Errors = {
       debugInfo: { prompt: intent },
       recoverable: false,
     }),
+
+  contentFiltered: (
+    provider: string,
+    categories: string[],
+    debugInfo: Partial<SynapseErrorDebugInfo> = {}
+  ) =>
+    new SynapseError(
+      "CONTENT_FILTERED",
+      `Content filtered by ${provider}` +
+        (categories.length > 0 ? `: ${categories.join(", ")}` : ""),
+      {
+        debugInfo: { provider, ...debugInfo },
+      }
+    ),
+
+  attachmentRejected: (name: string, reason: string) =>
+    new SynapseError(
+      "INVALID_REQUEST",
+      `Attachment "${name}" rejected: ${reason}`,
+      {
+        suggestion:
+          "Attach a smaller file of a supported type, or raise the attachment limits.",
+      }
+    ),
+
+  unsafeAttachmentUrl: (url: string, threats: string[]) =>
+    new SynapseError(
+      "SECURITY_VIOLATION",
+      `Blocked attachment URL (${threats.join(", ")})`,
+      {
+        suggestion:
+          "Attach the file itself or link it from a public https host.",
+        debugInfo: { prompt: url },
+      }
+    ),
+
+  aborted: (cause?: Error) => {
+    const error = new SynapseError("ABORTED", "Inference was aborted", {
+      cause,
+    });
+    // Named like the DOMException fetch throws, for `name` checks
+    error.name = "AbortError";
+    return error;
+  },
+
+  budgetExceeded: (budget: string, spent: string, limit: string) =>
+    new SynapseError(
+      "BUDGET_EXCEEDED",
+      `Usage budget "${budget}" exceeded: ${spent} of ${limit}`
+    ),
 };
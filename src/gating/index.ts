@@ -0,0 +1,27 @@
+export {
+  createGatingPolicy,
+  defaultScorers,
+  DEFAULT_GATING_POLICY,
+  type GatingPolicy,
+  type GatingPolicyConfig,
+  type GatingContext,
+  type GatingDecision,
+  type GatingAction,
+  type GatingReason,
+  type ConfidenceScorer,
+  type ScorerResult,
+} from "./policy";
+
+export {
+  modelConfidenceScorer,
+  diffSizeScorer,
+  intentClarityScorer,
+  removedItemsScorer,
+  protectedPathsScorer,
+  type ScorerOptions,
+  type ModelConfidenceScorerOptions,
+  type DiffSizeScorerOptions,
+  type IntentClarityScorerOptions,
+  type RemovedItemsScorerOptions,
+  type ProtectedPathsScorerOptions,
+} from "./scorers";
@@ -0,0 +1,197 @@
+/**
+ * Tests for gating policies and the built-in scorers
+ */
+
+import { describe, it, expect } from "vitest";
+import { createGatingPolicy, DEFAULT_GATING_POLICY } from "./policy";
+import type { GatingContext } from "./policy";
+import {
+  modelConfidenceScorer,
+  diffSizeScorer,
+  intentClarityScorer,
+  removedItemsScorer,
+  protectedPathsScorer,
+} from "./scorers";
+
+const todos = {
+  items: [
+    { text: "Milk", done: false },
+    { text: "Eggs", done: false },
+    { text: "Bread", done: false },
+  ],
+};
+
+function context(overrides: Partial<GatingContext> = {}): GatingContext {
+  return {
+    previousState: todos,
+    newState: {
+      items: [{ ...todos.items[0], done: true }, ...todos.items.slice(1)],
+    },
+    intent: "Mark the milk item as done, I bought it this morning",
+    threshold: 0.7,
+    ...overrides,
+  };
+}
+
+describe("createGatingPolicy", () => {
+  it("accepts small, clear changes with the default scorers", () => {
+    const decision = DEFAULT_GATING_POLICY.evaluate(context());
+
+    expect(decision.action).toBe("accept");
+    expect(decision.reasons).toEqual([]);
+    expect(decision.scores).toEqual({
+      modelConfidence: 0.7,
+      diffSize: 5 / 6,
+      intentClarity: 1,
+      removedItems: 1,
+    });
+    expect(decision.confidence).toBeCloseTo(0.4 * 0.7 + 0.3 * (5 / 6) + 0.3);
+  });
+
+  it("confirms changes below the threshold and explains why", () => {
+    const decision = DEFAULT_GATING_POLICY.evaluate(
+      context({ intent: "milk", modelConfidence: 0.2 })
+    );
+
+    expect(decision.action).toBe("confirm");
+    expect(decision.reasons).toEqual([
+      {
+        scorer: "intentClarity",
+        message: 'The request "milk" is brief and may be ambiguous',
+      },
+      {
+        scorer: "policy",
+        message: expect.stringMatching(/^Confidence \d+% is below the 70%/),
+      },
+    ]);
+  });
+
+  it("lets the strictest scorer action win", () => {
+    const policy = createGatingPolicy({
+      scorers: [
+        {
+          name: "asks",
+          weight: 1,
+          score: () => ({ score: 1, action: "confirm" }),
+        },
+        {
+          name: "refuses",
+          weight: 0,
+          score: () => ({ score: 1, action: "reject" }),
+        },
+      ],
+    });
+
+    expect(policy.evaluate(context())).toMatchObject({
+      action: "reject",
+      confidence: 1,
+    });
+  });
+});
+
+describe("scorers", () => {
+  it("confirms fields the model was unsure about", () => {
+    const result = modelConfidenceScorer().score(
+      context({
+        modelConfidence: 0.4,
+        fieldConfidence: { "/items/0/done": 0.95, "/items/0/text": 0.41 },
+      })
+    );
+
+    expect(result).toEqual({
+      score: 0.4,
+      action: "confirm",
+      reasons: ["The model is unsure about /items/0/text (41%)"],
+    });
+  });
+
+  it("scores the share of unchanged fields", () => {
+    const result = diffSizeScorer().score(
+      context({ newState: { items: [{ text: "Tea", done: true }] } })
+    );
+
+    expect(result.score).toBe(0);
+    expect(result.reasons).toEqual(["Changes 6 of 6 fields"]);
+  });
+
+  it("scores intent length", () => {
+    expect(
+      intentClarityScorer({ clearLength: 10 }).score(context()).score
+    ).toBe(1);
+    expect(intentClarityScorer().score(context({ intent: "x" })).score).toBe(
+      1 / 50
+    );
+  });
+
+  it("flags removing most items as destructive", () => {
+    const scorer = removedItemsScorer();
+
+    expect(
+      scorer.score(context({ newState: { items: todos.items.slice(0, 2) } }))
+    ).toEqual({ score: expect.closeTo(2 / 3) });
+    expect(scorer.score(context({ newState: { items: [] } }))).toEqual({
+      score: 0,
+      action: "confirm",
+      destructive: true,
+      reasons: ["Removes 3 of 3 items"],
+    });
+    expect(
+      removedItemsScorer({ maxRemoved: 0 }).score(
+        context({ newState: { items: todos.items.slice(0, 2) } })
+      ).action
+    ).toBe("confirm");
+  });
+
+  it("counts removed collection entries and cleared long text", () => {
+    const scorer = removedItemsScorer();
+    const users = {
+      ann: { role: "admin" },
+      bob: { role: "viewer" },
+      eve: { role: "viewer" },
+    };
+
+    expect(
+      scorer.score(
+        context({ previousState: { users }, newState: { users: {} } })
+      )
+    ).toMatchObject({
+      action: "confirm",
+      destructive: true,
+      reasons: ["Removes 3 of 4 items"],
+    });
+
+    const notes = "Call the supplier about the delayed order before Friday";
+    expect(
+      scorer.score(
+        context({ previousState: { notes }, newState: { notes: "" } })
+      )
+    ).toMatchObject({ score: 0, reasons: ["Removes 1 of 1 item"] });
+    expect(
+      scorer.score(
+        context({
+          previousState: { notes },
+          newState: { notes: notes.slice(0, 40) },
+        })
+      )
+    ).toEqual({ score: 1 });
+  });
+
+  it("guards protected paths", () => {
+    const scorer = protectedPathsScorer(["/items/*/text", "/owner"], {
+      action: "reject",
+    });
+
+    expect(scorer.score(context())).toEqual({ score: 1 });
+    expect(
+      scorer.score(
+        context({
+          newState: { items: [{ text: "Oat milk", done: false }] },
+        })
+      )
+    ).toEqual({
+      score: 0,
+      action: "reject",
+      reasons: ["Changes protected field /items/*/text"],
+    });
+  });
+});
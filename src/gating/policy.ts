@@ -0,0 +1,150 @@
+/**
+ * Gating Policy - Decides whether a validated change is applied
+ *
+ * A policy combines confidence scorers. Each scorer rates one aspect of
+ * the change from 0 (risky) to 1 (safe) and may explain itself or demand
+ * confirmation outright. The weighted mean of the scores is the change's
+ * confidence; it is accepted when the confidence reaches the threshold
+ * and no scorer asked for confirmation or rejection.
+ */
+
+import {
+  modelConfidenceScorer,
+  diffSizeScorer,
+  intentClarityScorer,
+  removedItemsScorer,
+} from "./scorers";
+
+/**
+ * What a policy knows about a change
+ */
+export interface GatingContext<T = unknown> {
+  previousState: T;
+  newState: T;
+  intent: string;
+  /** Confidence required for automatic acceptance (0-1) */
+  threshold: number;
+  /**
+   * Measured model confidence (self-consistency agreement or the least
+   * certain logprob field), if any
+   */
+  modelConfidence?: number;
+  /** Confidence of each changed field (with `logprobs`) */
+  fieldConfidence?: Record<string, number> | null;
+}
+
+export type GatingAction = "accept" | "confirm" | "reject";
+
+export interface GatingReason {
+  /** Scorer that gave the reason ("policy" for the threshold check) */
+  scorer: string;
+  /** Human-readable explanation, e.g. "Removes 3 of 4 items" */
+  message: string;
+}
+
+export interface ScorerResult {
+  /** 0 (risky) to 1 (safe) */
+  score: number;
+  /** Require confirmation, or reject, regardless of the combined score */
+  action?: "confirm" | "reject";
+  /** The change deletes data (shown as destructive by `ConfidenceGate`) */
+  destructive?: boolean;
+  reasons?: string[];
+}
+
+export interface ConfidenceScorer {
+  /** Name scores and reasons are reported under */
+  name: string;
+  /** Share of the combined confidence (0 to only use `action`) */
+  weight: number;
+  score(context: GatingContext): ScorerResult;
+}
+
+export interface GatingDecision {
+  action: GatingAction;
+  /** Weighted mean of the scorers' scores (0-1) */
+  confidence: number;
+  reasons: GatingReason[];
+  /** Score of each scorer by name */
+  scores: Record<string, number>;
+  destructive: boolean;
+}
+
+export interface GatingPolicy {
+  evaluate(context: GatingContext): GatingDecision;
+}
+
+export interface GatingPolicyConfig {
+  /** Scorers to combine (default: `defaultScorers()`) */
+  scorers?: ConfidenceScorer[];
+}
+
+/**
+ * Model confidence, diff size and intent clarity weighted 0.4 / 0.3 / 0.3,
+ * plus confirmation when more than half of the items of the previous
+ * state are removed
+ */
+export function defaultScorers(): ConfidenceScorer[] {
+  return [
+    modelConfidenceScorer({ weight: 0.4 }),
+    diffSizeScorer({ weight: 0.3 }),
+    intentClarityScorer({ weight: 0.3 }),
+    removedItemsScorer({ weight: 0 }),
+  ];
+}
+
+/**
+ * Creates a policy from `config.scorers`. The strictest scorer action
+ * wins; without one, the change is confirmed when its confidence is
+ * below the threshold.
+ */
+export function createGatingPolicy(
+  config: GatingPolicyConfig = {}
+): GatingPolicy {
+  const scorers = config.scorers ?? defaultScorers();
+
+  return {
+    evaluate(context: GatingContext): GatingDecision {
+      const scores: Record<string, number> = {};
+      const reasons: GatingReason[] = [];
+      let action: GatingAction = "accept";
+      let destructive = false;
+      let weighted = 0;
+      let totalWeight = 0;
+
+      for (const scorer of scorers) {
+        const result = scorer.score(context);
+        const score = Math.max(0, Math.min(1, result.score));
+
+        scores[scorer.name] = score;
+        weighted += score * scorer.weight;
+        totalWeight += scorer.weight;
+        destructive = destructive || !!result.destructive;
+        for (const message of result.reasons ?? []) {
+          reasons.push({ scorer: scorer.name, message });
+        }
+
+        if (result.action === "reject") {
+          action = "reject";
+        } else if (result.action === "confirm" && action === "accept") {
+          action = "confirm";
+        }
+      }
+
+      const confidence = totalWeight > 0 ? weighted / totalWeight : 1;
+      if (confidence < context.threshold) {
+        reasons.push({
+          scorer: "policy",
+          message: `Confidence ${Math.round(
+            confidence * 100
+          )}% is below the ${Math.round(context.threshold * 100)}% threshold`,
+        });
+        if (action === "accept") action = "confirm";
+      }
+
+      return { action, confidence, reasons, scores, destructive };
+    },
+  };
+}
+
+export const DEFAULT_GATING_POLICY: GatingPolicy = createGatingPolicy();
@@ -0,0 +1,289 @@
+/**
+ * Confidence Scorers - The building blocks of a gating policy
+ *
+ * Each factory returns a scorer for one aspect of a change. Weights and
+ * limits are options, so a policy can be tuned per feature without
+ * writing scorers from scratch.
+ */
+
+import type { ConfidenceScorer, GatingContext, ScorerResult } from "./policy";
+import {
+  changedLeafPaths,
+  flattenLeaves,
+} from "../validation/logprobConfidence";
+
+export interface ScorerOptions {
+  /** Share of the combined confidence */
+  weight?: number;
+}
+
+/**
+ * Leaf paths written, added or removed by the change
+ */
+function changedPaths(context: GatingContext): string[] {
+  const { previousState, newState } = context;
+  return [
+    ...new Set([
+      ...changedLeafPaths(previousState, newState),
+      ...changedLeafPaths(newState, previousState),
+    ]),
+  ];
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export interface ModelConfidenceScorerOptions extends ScorerOptions {
+  /** Score when the model's confidence was not measured (default: 0.7) */
+  fallback?: number;
+}
+
+/**
+ * Scores the measured model confidence and asks for confirmation when a
+ * field scored from logprobs is below the threshold (default weight: 0.4)
+ */
+export function modelConfidenceScorer(
+  options: ModelConfidenceScorerOptions = {}
+): ConfidenceScorer {
+  const { weight = 0.4, fallback = 0.7 } = options;
+
+  return {
+    name: "modelConfidence",
+    weight,
+    score({ modelConfidence, fieldConfidence, threshold }): ScorerResult {
+      const uncertain = Object.entries(fieldConfidence ?? {})
+        .filter(([, score]) => score < threshold)
+        .sort(([, a], [, b]) => a - b);
+
+      if (uncertain.length === 0) {
+        return { score: modelConfidence ?? fallback };
+      }
+      return {
+        score: modelConfidence ?? fallback,
+        action: "confirm",
+        reasons: uncertain.map(
+          ([path, score]) =>
+            `The model is unsure about ${path} (${percent(score)})`
+        ),
+      };
+    },
+  };
+}
+
+export interface DiffSizeScorerOptions extends ScorerOptions {
+  /** Explain the score when more than this share of fields changes (default: 0.5) */
+  maxShare?: number;
+}
+
+/**
+ * Scores the share of leaf fields the change leaves untouched
+ * (default weight: 0.3)
+ */
+export function diffSizeScorer(
+  options: DiffSizeScorerOptions = {}
+): ConfidenceScorer {
+  const { weight = 0.3, maxShare = 0.5 } = options;
+
+  return {
+    name: "diffSize",
+    weight,
+    score(context): ScorerResult {
+      const fields = new Set([
+        ...flattenLeaves(context.previousState).keys(),
+        ...flattenLeaves(context.newState).keys(),
+      ]).size;
+      const changed = changedPaths(context).length;
+      const share = fields === 0 ? 0 : changed / fields;
+
+      return {
+        score: 1 - share,
+        reasons:
+          share > maxShare
+            ? [`Changes ${changed} of ${fields} fields`]
+            : undefined,
+      };
+    },
+  };
+}
+
+export interface IntentClarityScorerOptions extends ScorerOptions {
+  /** Intent length in characters that scores 1 (default: 50) */
+  clearLength?: number;
+}
+
+/**
+ * Scores how specific the intent is by its length; terse intents leave
+ * more to the model's interpretation (default weight: 0.3)
+ */
+export function intentClarityScorer(
+  options: IntentClarityScorerOptions = {}
+): ConfidenceScorer {
+  const { weight = 0.3, clearLength = 50 } = options;
+
+  return {
+    name: "intentClarity",
+    weight,
+    score({ intent }): ScorerResult {
+      const score = Math.min(1, intent.trim().length / clearLength);
+      return {
+        score,
+        reasons:
+          score < 0.5
+            ? [`The request "${intent.trim()}" is brief and may be ambiguous`]
+            : undefined,
+      };
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Counts the items of `previous` and those missing from `next`. Items are
+ * array items (matched by position), entries of keyed collections such as
+ * `Record<string, User>` (matched by key) and strings of at least
+ * `largeFieldLength` characters, which count as removed when cleared or
+ * cut to under 30% of their length.
+ */
+function countItems(
+  previous: unknown,
+  next: unknown,
+  largeFieldLength: number
+): { removed: number; total: number } {
+  let removed = 0;
+  let total = 0;
+
+  if (typeof previous === "string") {
+    if (previous.length >= largeFieldLength) {
+      const kept = typeof next === "string" ? next.length : 0;
+      total++;
+      if (kept < previous.length * 0.3) removed++;
+    }
+  } else if (Array.isArray(previous)) {
+    const after = Array.isArray(next) ? next : [];
+    total += previous.length;
+    removed += Math.max(0, previous.length - after.length);
+    previous.forEach((item, index) => {
+      const counts = countItems(item, after[index], largeFieldLength);
+      removed += counts.removed;
+      total += counts.total;
+    });
+  } else if (isPlainObject(previous)) {
+    const after = isPlainObject(next) ? next : {};
+    const entries = Object.entries(previous);
+    // An object whose values are all objects is a keyed collection
+    if (
+      entries.length > 0 &&
+      entries.every(([, item]) => isPlainObject(item))
+    ) {
+      total += entries.length;
+      removed += entries.filter(([key]) => after[key] === undefined).length;
+    }
+    for (const [key, item] of entries) {
+      const counts = countItems(item, after[key], largeFieldLength);
+      removed += counts.removed;
+      total += counts.total;
+    }
+  }
+
+  return { removed, total };
+}
+
+export interface RemovedItemsScorerOptions extends ScorerOptions {
+  /** Confirm when more items than this are removed (default: no limit) */
+  maxRemoved?: number;
+  /** Confirm when more than this share of all items is removed (default: 0.5) */
+  maxShare?: number;
+  /** Strings at least this long count as items (default: 50) */
+  largeFieldLength?: number;
+}
+
+/**
+ * Scores the share of items (list items, collection entries and long
+ * text fields) the change keeps and asks for confirmation when too many
+ * are removed (default weight: 0)
+ */
+export function removedItemsScorer(
+  options: RemovedItemsScorerOptions = {}
+): ConfidenceScorer {
+  const {
+    weight = 0,
+    maxRemoved = Infinity,
+    maxShare = 0.5,
+    largeFieldLength = 50,
+  } = options;
+
+  return {
+    name: "removedItems",
+    weight,
+    score({ previousState, newState }): ScorerResult {
+      const { removed, total } = countItems(
+        previousState,
+        newState,
+        largeFieldLength
+      );
+      const share = total === 0 ? 0 : removed / total;
+
+      if (removed === 0 || (removed <= maxRemoved && share <= maxShare)) {
+        return { score: 1 - share };
+      }
+      return {
+        score: 1 - share,
+        action: "confirm",
+        destructive: true,
+        reasons: [
+          `Removes ${removed} of ${total} item${total === 1 ? "" : "s"}`,
+        ],
+      };
+    },
+  };
+}
+
+export interface ProtectedPathsScorerOptions extends ScorerOptions {
+  /** What a change to a protected path requires (default: "confirm") */
+  action?: "confirm" | "reject";
+}
+
+/**
+ * Flags changes under protected JSON pointers such as "/billing"; a "*"
+ * segment matches any key or index. Does not affect the combined
+ * confidence unless given a weight (default weight: 0).
+ */
+export function protectedPathsScorer(
+  paths: string[],
+  options: ProtectedPathsScorerOptions = {}
+): ConfidenceScorer {
+  const { weight = 0, action = "confirm" } = options;
+
+  function covers(pattern: string, path: string): boolean {
+    const expected = pattern.split("/").slice(1);
+    const segments = path.split("/").slice(1);
+    return (
+      expected.length <= segments.length &&
+      expected.every(
+        (segment, index) => segment === "*" || segment === segments[index]
+      )
+    );
+  }
+
+  return {
+    name: "protectedPaths",
+    weight,
+    score(context): ScorerResult {
+      const changed = changedPaths(context);
+      const touched = paths.filter((pattern) =>
+        changed.some((path) => covers(pattern, path))
+      );
+      if (touched.length === 0) return { score: 1 };
+
+      return {
+        score: 0,
+        action,
+        reasons: touched.map((pattern) => `Changes protected field ${pattern}`),
+      };
+    },
+  };
+}
@@ -1,8 +1,10 @@
 export {
   useSemanticState,
   type SemanticStateConfig,
+  type MutationMode,
   type SemanticStateMetadata,
   type DispatchFn,
+  type DispatchOptions,
   type UseSemanticStateReturn,
 } from "./useSemanticState";
 
@@ -23,3 +25,5 @@ export {
   type SSRInferenceConfig,
   type SSRInferenceReturn,
 } from "./ssrHooks";
+
+export { useUsage, type UseUsageResult } from "./useUsage";
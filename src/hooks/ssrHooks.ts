@@ -12,9 +12,12 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { ZodSchema } from "zod";
 import { useSynapseContext, useSynapseConfig } from "../context";
-import { buildPrompt } from "../compiler";
+import { buildMessages, buildInferenceMessages } from "../compiler";
+import { chatWithProvider } from "../providers";
 import { executeWithCorrection, validateResponse } from "../validation";
 import { sanitizeOutput } from "../security";
+import { withUsageTracking } from "../usage";
+import { isAbortError, throwIfAborted } from "../utils";
 
 /**
  * Check if we're on the server (SSR)
@@ -53,6 +56,8 @@ export interface SSRSemanticStateConfig<T> {
   confidenceThreshold?: number;
   /** Initial intent to run on mount (client-only) */
   initialIntent?: string;
+  /** Feature name usage is recorded under (see `useUsage`) */
+  feature?: string;
 }
 
 export interface SSRSemanticStateReturn<T> {
@@ -99,6 +104,7 @@ export function useSSRSemanticState<T>(
     context = "",
     confidenceThreshold,
     initialIntent,
+    feature,
   } = config;
 
   const { isConfigured } = useSynapseConfig();
@@ -134,49 +140,60 @@ export function useSSRSemanticState<T>(
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
 
       setLoading(true);
       setError(null);
 
       try {
-        const prompt = buildPrompt({
+        const [systemMessage, userMessage] = buildMessages({
           schema,
           currentState: state,
           intent,
           context,
         });
 
+        const provider = withUsageTracking(synapse.provider, synapse.usage, {
+          feature,
+          component: "useSSRSemanticState",
+        });
+
         const result = await executeWithCorrection({
-          prompt,
+          prompt: userMessage.content,
           schema,
-          inference: async (p) => {
-            const response = await synapse!.provider.inference(p);
+          inference: async (p, attempt) => {
+            const response = await chatWithProvider(
+              provider,
+              [systemMessage, { role: "user", content: p }],
+              { signal, responseSchema: schema, timeoutMs: attempt.timeoutMs }
+            );
             return response.content;
           },
+          signal,
+          timeoutMs: synapse.config.timeoutMs,
           config: {
             maxRetries: synapse.config.maxRetries,
           },
         });
 
-        if (!abortControllerRef.current?.signal.aborted) {
-          if (result.success && result.data !== null) {
-            setState(result.data);
-          } else {
-            setError(new Error("Failed to generate valid state"));
-          }
+        if (result.success && result.data !== null) {
+          setState(result.data);
+        } else {
+          setError(new Error("Failed to generate valid state"));
         }
       } catch (err) {
-        if ((err as Error).name !== "AbortError") {
+        if (!isAbortError(err)) {
           setError(err instanceof Error ? err : new Error(String(err)));
         }
       } finally {
-        if (!abortControllerRef.current?.signal.aborted) {
+        if (!signal.aborted) {
           setLoading(false);
         }
       }
     },
-    [isServer, state, schema, context, synapse]
+    [isServer, state, schema, context, feature, synapse]
   );
 
   // Run initial intent after hydration (client-only)
@@ -215,6 +232,8 @@ export interface SSRInferenceConfig {
   fallback?: unknown;
   /** Sanitize output (default: true) */
   sanitize?: boolean;
+  /** Feature name usage is recorded under (see `useUsage`) */
+  feature?: string;
 }
 
 export interface SSRInferenceReturn<T> {
@@ -236,7 +255,14 @@ export interface SSRInferenceReturn<T> {
 export function useSSRInference<T = string>(
   config: SSRInferenceConfig
 ): SSRInferenceReturn<T> {
-  const { task, input, schema, fallback = null, sanitize = true } = config;
+  const {
+    task,
+    input,
+    schema,
+    fallback = null,
+    sanitize = true,
+    feature,
+  } = config;
 
   const hydrated = useHydrated();
   const isServer = useIsServer();
@@ -246,6 +272,8 @@ export function useSSRInference<T = string>(
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   let synapse: ReturnType<typeof useSynapseContext> | null = null;
   try {
     if (isConfigured) {
@@ -258,13 +286,30 @@ export function useSSRInference<T = string>(
   const run = useCallback(async () => {
     if (isServer || !synapse) return;
 
+    // Cancel previous request (e.g. input changed)
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      const response = await synapse.provider.inference(
-        `TASK: ${task}\n\nINPUT:\n${input}\n\nRespond with ONLY the result.`
-      );
+      const messages = buildInferenceMessages({
+        task,
+        input,
+        outputFormat: schema ? "JSON" : "text",
+      });
+      const provider = withUsageTracking(synapse.provider, synapse.usage, {
+        feature,
+        component: "useSSRInference",
+      });
+      const response = await chatWithProvider(provider, messages, {
+        signal,
+        responseSchema: schema,
+      });
+      throwIfAborted(signal);
 
       let result: T;
 
@@ -285,11 +330,15 @@ export function useSSRInference<T = string>(
 
       setData(result);
     } catch (err) {
-      setError(err instanceof Error ? err : new Error(String(err)));
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
     } finally {
-      setLoading(false);
+      if (!signal.aborted) {
+        setLoading(false);
+      }
     }
-  }, [isServer, task, input, schema, sanitize, synapse]);
+  }, [isServer, task, input, schema, sanitize, feature, synapse]);
 
   // Auto-run after hydration
   useEffect(() => {
@@ -298,6 +347,13 @@ export function useSSRInference<T = string>(
     }
   }, [hydrated, run, synapse]);
 
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   return {
     data,
     loading,
@@ -0,0 +1,63 @@
+/**
+ * Tests for useInference
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { useInference, clearInferenceCache } from "./useInference";
+import { SynapseProvider } from "../context";
+import { AIProvider, InferenceResponse } from "../providers";
+
+/**
+ * A provider whose calls stay pending until resolved by the test
+ */
+function createPendingProvider() {
+  const pending: Array<(response: InferenceResponse) => void> = [];
+  const provider: AIProvider = {
+    name: "pending",
+    inference: vi.fn(
+      () =>
+        new Promise<InferenceResponse>((resolve) => {
+          pending.push(resolve);
+        })
+    ),
+  };
+  return { provider, pending };
+}
+
+afterEach(() => {
+  clearInferenceCache();
+});
+
+describe("useInference", () => {
+  it("stops loading when a refetch is served from the cache", async () => {
+    const { provider, pending } = createPendingProvider();
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <SynapseProvider config={{ provider }}>{children}</SynapseProvider>
+    );
+    const options = { task: "Summarize", input: "text", cacheKey: "summary" };
+
+    const first = renderHook(() => useInference(options), { wrapper });
+    const second = renderHook(
+      () => useInference({ ...options, immediate: false }),
+      { wrapper }
+    );
+    expect(first.result.current.loading).toBe(true);
+
+    // Another caller fills the cache while the first request is in flight
+    await act(async () => {
+      const result = second.result.current.refetch();
+      pending[1]({ content: "Short" });
+      await result;
+    });
+    await act(async () => {
+      await first.result.current.refetch();
+    });
+
+    expect(first.result.current).toMatchObject({
+      data: "Short",
+      loading: false,
+    });
+  });
+});
@@ -8,8 +8,12 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { ZodSchema } from "zod";
 import { useSynapseContext } from "../context";
-import { buildInferencePrompt } from "../compiler";
+import { buildInferenceMessages } from "../compiler";
+import { chatWithProvider, RetryEvent } from "../providers";
 import { validateResponse } from "../validation";
+import { runToolLoop, AnyToolDefinition, ToolRegistry } from "../tools";
+import { withUsageTracking } from "../usage";
+import { isAbortError, throwIfAborted } from "../utils";
 
 export interface UseInferenceOptions<T = string> {
   /** The task/prompt to run */
@@ -24,6 +28,10 @@ export interface UseInferenceOptions<T = string> {
   cacheKey?: string;
   /** Refetch when input changes */
   refetchOnInputChange?: boolean;
+  /** Tools the model may call before answering */
+  tools?: AnyToolDefinition[] | ToolRegistry;
+  /** Feature name usage is recorded under (see `useUsage`) */
+  feature?: string;
 }
 
 export interface UseInferenceResult<T> {
@@ -52,6 +60,8 @@ export function useInference<T = string>(
     immediate = true,
     cacheKey,
     refetchOnInputChange = true,
+    tools,
+    feature,
   } = options;
 
   const synapse = useSynapseContext();
@@ -67,12 +77,20 @@ export function useInference<T = string>(
 
   const prevInputRef = useRef(input);
   const hasFetchedRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const fetchData = useCallback(async (): Promise<T | null> => {
+    // Cancel any in-flight request for stale input
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     // Check cache first
     if (cacheKey && inferenceCache.has(cacheKey)) {
       const cached = inferenceCache.get(cacheKey) as T;
+      // The request this one replaced may have left `loading` set
       setData(cached);
+      setLoading(false);
       return cached;
     }
 
@@ -80,14 +98,40 @@ export function useInference<T = string>(
     setError(null);
 
     try {
-      const prompt = buildInferencePrompt({
+      const messages = buildInferenceMessages({
         task,
         input,
         outputFormat: schema ? "JSON" : "text",
       });
 
       synapse.log("Inference:", task);
-      const response = await synapse.provider.inference(prompt);
+      const provider = withUsageTracking(synapse.provider, synapse.usage, {
+        feature,
+        component: "useInference",
+        cacheKey,
+      });
+      const inferenceOptions = {
+        signal: controller.signal,
+        responseSchema: schema,
+        retry: synapse.config.retry,
+        onRetry: (event: RetryEvent) =>
+          synapse.log("Retrying provider request:", event),
+        timeoutMs: synapse.config.timeoutMs,
+        idleTimeoutMs: synapse.config.idleTimeoutMs,
+      };
+      const response = tools
+        ? (
+            await runToolLoop({
+              provider,
+              messages,
+              tools,
+              options: inferenceOptions,
+              onToolCall: (record) =>
+                synapse.log(`Tool call ${record.call.name}:`, record),
+            })
+          ).response
+        : await chatWithProvider(provider, messages, inferenceOptions);
+      throwIfAborted(controller.signal);
 
       let result: T;
 
@@ -114,13 +158,18 @@ export function useInference<T = string>(
       setLoading(false);
       return result;
     } catch (err) {
+      // A newer request (or unmount) owns the loading state now
+      if (isAbortError(err)) {
+        return null;
+      }
+
       const error = err instanceof Error ? err : new Error(String(err));
       setError(error);
       setLoading(false);
       synapse.log("Inference error:", error);
       return null;
     }
-  }, [task, input, schema, cacheKey, synapse]);
+  }, [task, input, schema, cacheKey, tools, feature, synapse]);
 
   const clear = useCallback(() => {
     setData(null);
@@ -130,6 +179,13 @@ export function useInference<T = string>(
     }
   }, [cacheKey]);
 
+  // Cancel in-flight inference on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   // Initial fetch
   useEffect(() => {
     if (immediate && !hasFetchedRef.current) {
@@ -5,11 +5,42 @@
  * This is the "Redux for AI" - it looks like a hook but runs a full inference runtime.
  */
 
-import { useState, useCallback, useRef, useMemo } from "react";
+import { useState, useCallback, useRef, useMemo, useEffect } from "react";
 import { ZodSchema } from "zod";
 import { useSynapseContext } from "../context";
-import { buildPrompt } from "../compiler";
-import { executeWithCorrection } from "../validation";
+import {
+  buildMessages,
+  buildPatchMessages,
+  buildActionMessages,
+} from "../compiler";
+import {
+  chatWithProvider,
+  streamChatWithProvider,
+  resolveContentParts,
+  RetryEvent,
+  ContentPart,
+  TokenLogprob,
+} from "../providers";
+import {
+  executeWithCorrection,
+  sampleWithConsistency,
+  SelfConsistencyConfig,
+  scoreFieldConfidence,
+  changedLeafPaths,
+  createPartialJsonParser,
+  validatePatchResponse,
+  validateActionsResponse,
+  buildActionResponseSchema,
+  JsonPatchResponseSchema,
+  JsonPatch,
+  ActionMap,
+  DispatchedAction,
+  ValidationResult,
+} from "../validation";
+import { runToolLoop, AnyToolDefinition, ToolRegistry } from "../tools";
+import { withUsageTracking } from "../usage";
+import { GatingPolicy, GatingDecision } from "../gating";
+import { Errors } from "../errors";
 import {
   MachineState,
   StateContext,
@@ -17,8 +48,8 @@ import {
   createInitialContext,
   getNextState,
   createAuditEntry,
-  calculateConfidence,
-  isDestructiveChange,
+  isAbortError,
+  throwIfAborted,
 } from "../utils";
 
 export interface SemanticStateConfig<T> {
@@ -30,12 +61,63 @@ export interface SemanticStateConfig<T> {
   context?: string;
   /** Override confidence threshold for this state */
   confidenceThreshold?: number;
+  /** Override the gating policy for this state (see `createGatingPolicy`) */
+  gating?: GatingPolicy;
   /** Callback when state changes */
   onChange?: (newState: T, oldState: T) => void;
   /** Callback when gating is triggered (return true to accept, false to reject) */
-  onGate?: (newState: T, oldState: T, confidence: number) => Promise<boolean>;
+  onGate?: (
+    newState: T,
+    oldState: T,
+    confidence: number,
+    fieldConfidence: Record<string, number> | null,
+    decision: GatingDecision
+  ) => Promise<boolean>;
+  /** Tools the model may call before producing the new state */
+  tools?: AnyToolDefinition[] | ToolRegistry;
+  /**
+   * Stream the response, exposing `partialState` and `streamingText` while
+   * generating. The result is still validated and gated before it commits.
+   * Ignored when `tools` or `selfConsistency` are set.
+   */
+  stream?: boolean;
+  /**
+   * Sample several candidate states per attempt and keep the one the others
+   * agree with most. Their agreement replaces the fixed model confidence in
+   * the gating score. Ignored when `tools` are set, since tool handlers
+   * would run once per candidate.
+   */
+  selfConsistency?: SelfConsistencyConfig;
+  /**
+   * Request token logprobs and score each changed field from them (see
+   * `scoreFieldConfidence`). The default policy asks for confirmation when
+   * any field scores below the threshold, and the least certain field
+   * replaces the fixed model confidence. Falls back to the fixed value when
+   * the provider returns no logprobs.
+   */
+  logprobs?: boolean;
+  /**
+   * How the model expresses changes:
+   * - "state" (default): re-emits the complete new state
+   * - "patch": returns RFC 6902 JSON Patch operations against the current
+   *   state, which are applied and validated against the schema. The patch
+   *   is recorded in the audit history. Much cheaper for large states.
+   * - "actions": picks from `actions`, which are replayed through their
+   *   reducers (the default when `actions` is set)
+   */
+  mutationMode?: MutationMode;
+  /**
+   * Application-defined actions (see `defineAction`). The model returns a
+   * list of `{ type, payload }` which are validated and replayed; the
+   * actions are recorded in the audit history.
+   */
+  actions?: ActionMap<T>;
+  /** Feature name usage is recorded under (see `useUsage`) */
+  feature?: string;
 }
 
+export type MutationMode = "state" | "patch" | "actions";
+
 export interface SemanticStateMetadata {
   /** Current state machine state */
   status: MachineState;
@@ -47,10 +129,28 @@ export interface SemanticStateMetadata {
   retryCount: number;
   /** Confidence score of last change */
   confidence: number;
+  /**
+   * Confidence of each changed field (JSON pointer -> 0-1) of the last
+   * change; null unless `logprobs` is set and the provider returned them
+   */
+  fieldConfidence: Record<string, number> | null;
+  /**
+   * Gating policy decision on the last change, with reasons to show the
+   * user (null before the first change)
+   */
+  gating: GatingDecision | null;
   /** Whether a change is pending user confirmation */
   pendingConfirmation: boolean;
   /** Pending state awaiting confirmation */
   pendingState: unknown | null;
+  /**
+   * Best-effort partial state parsed from the stream so far (streaming
+   * mode only). Not validated against the full schema - render it as a
+   * preview, never persist it.
+   */
+  partialState: unknown | null;
+  /** Raw text streamed for the current attempt (streaming mode only) */
+  streamingText: string;
   /** Confirm pending change */
   confirmChange: () => void;
   /** Reject pending change */
@@ -61,7 +161,18 @@ export interface SemanticStateMetadata {
   reset: () => void;
 }
 
-export type DispatchFn = (intent: string) => Promise<void>;
+export interface DispatchOptions {
+  /**
+   * Images or documents the intent refers to, e.g. a receipt photo.
+   * Checked against `SynapseConfig.attachments` before sending.
+   */
+  attachments?: ContentPart[];
+}
+
+export type DispatchFn = (
+  intent: string,
+  options?: DispatchOptions
+) => Promise<void>;
 
 export type UseSemanticStateReturn<T> = [T, DispatchFn, SemanticStateMetadata];
 
@@ -76,12 +187,21 @@ export function useSemanticState<T>(
     initialState,
     context = "",
     confidenceThreshold,
+    gating: gatingPolicy,
     onChange,
     onGate,
+    tools,
+    stream = false,
+    actions,
+    mutationMode = actions ? "actions" : "state",
+    feature,
+    selfConsistency,
+    logprobs = false,
   } = config;
 
   const synapse = useSynapseContext();
   const threshold = confidenceThreshold ?? synapse.config.confidenceThreshold;
+  const policy = gatingPolicy ?? synapse.config.gating;
 
   // Core state
   const [state, setState] = useState<T>(initialState);
@@ -92,6 +212,13 @@ export function useSemanticState<T>(
 
   // Pending confirmation state
   const [pendingState, setPendingState] = useState<T | null>(null);
+  const [partialState, setPartialState] = useState<unknown | null>(null);
+  const [streamingText, setStreamingText] = useState("");
+  const [fieldConfidence, setFieldConfidence] = useState<Record<
+    string,
+    number
+  > | null>(null);
+  const [gating, setGating] = useState<GatingDecision | null>(null);
   const pendingResolverRef = useRef<((confirmed: boolean) => void) | null>(
     null
   );
@@ -126,14 +253,28 @@ export function useSemanticState<T>(
     [synapse]
   );
 
+  /**
+   * Cancels the dispatch in flight, if any: aborts its inference, rejects
+   * the confirmation it waits for and returns the machine to IDLE
+   */
+  const cancelInFlight = useCallback(() => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+
+    abortControllerRef.current = null;
+    controller.abort();
+    pendingResolverRef.current?.(false);
+    pendingResolverRef.current = null;
+    setPendingState(null);
+    transition("ABORT");
+    synapse.log("Cancelled previous inference");
+  }, [synapse, transition]);
+
   // The dispatch function - sends natural language intent to the AI
   const dispatch: DispatchFn = useCallback(
-    async (intent: string) => {
+    async (intent: string, dispatchOptions: DispatchOptions = {}) => {
       // Cancel any previous pending inference (race condition prevention)
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        synapse.log("Cancelled previous inference");
-      }
+      cancelInFlight();
       abortControllerRef.current = new AbortController();
       const signal = abortControllerRef.current.signal;
 
@@ -144,6 +285,10 @@ export function useSemanticState<T>(
         currentIntent: intent,
         error: null,
       }));
+      setPartialState(null);
+      setStreamingText("");
+      setFieldConfidence(null);
+      setGating(null);
       transition("DISPATCH_NO_OPTIMISTIC");
 
       try {
@@ -153,29 +298,197 @@ export function useSemanticState<T>(
           return;
         }
 
-        // Build the prompt
-        const prompt = buildPrompt({
-          schema,
-          currentState: state,
-          intent,
-          context,
-        });
+        if (mutationMode === "actions" && !actions) {
+          throw new Error('mutationMode "actions" requires `actions`');
+        }
+
+        // Attachments are read and checked once, not on every attempt
+        let attachments: ContentPart[] | undefined;
+        if (dispatchOptions.attachments?.length) {
+          if (!synapse.provider.capabilities?.attachments) {
+            throw Errors.capabilityUnsupported(["attachments"]);
+          }
+          attachments = await resolveContentParts(
+            dispatchOptions.attachments,
+            synapse.config.attachments
+          );
+        }
+
+        // Build the messages (instructions stay in the system turn)
+        const promptConfig = { schema, currentState: state, intent, context };
+        let [systemMessage, userMessage] = buildMessages(promptConfig);
+        let responseSchema: ZodSchema<unknown> = schema;
+        let validate: ((response: string) => ValidationResult<T>) | undefined;
+
+        // What the model asked for, recorded on the VALID audit entry
+        let patch: JsonPatch | null = null;
+        let dispatched: DispatchedAction[] | null = null;
+
+        if (mutationMode === "patch") {
+          [systemMessage, userMessage] = buildPatchMessages(promptConfig);
+          responseSchema = JsonPatchResponseSchema;
+          validate = (response) => {
+            const validation = validatePatchResponse(response, state, schema);
+            patch = validation.patch;
+            return validation;
+          };
+        } else if (mutationMode === "actions" && actions) {
+          [systemMessage, userMessage] = buildActionMessages({
+            ...promptConfig,
+            actions,
+          });
+          responseSchema = buildActionResponseSchema(actions);
+          validate = (response) => {
+            const validation = validateActionsResponse(
+              response,
+              state,
+              schema,
+              actions
+            );
+            dispatched = validation.actions;
+            return validation;
+          };
+        }
+
+        // Partial output is only a preview of the state in "state" mode
+        const previewsState = mutationMode === "state";
+
+        // Agreement between sampled candidates (self-consistency only)
+        const sampling = tools ? undefined : selfConsistency;
+        let agreement: number | undefined;
+
+        // Latest response and its token logprobs (with `logprobs` only)
+        let scored: { response: string; logprobs?: TokenLogprob[] } | undefined;
 
         synapse.log("Prompt built, starting inference...");
+        const provider = withUsageTracking(synapse.provider, synapse.usage, {
+          feature,
+          component: "useSemanticState",
+        });
 
-        // Execute with self-correction
+        // Execute with self-correction (corrections replace the user turn)
         const result = await executeWithCorrection({
-          prompt,
+          prompt: userMessage.content,
           schema,
-          inference: async (p) => {
-            const response = await synapse.provider.inference(p);
+          inference: async (p, attempt) => {
+            const messages = [
+              systemMessage,
+              { role: "user" as const, content: p, attachments },
+            ];
+            const options = {
+              signal,
+              responseSchema,
+              retry: synapse.config.retry,
+              onRetry: (event: RetryEvent) => {
+                synapse.log("Retrying provider request:", event);
+                transition("PROVIDER_RETRY", event);
+              },
+              timeoutMs: attempt.timeoutMs,
+              idleTimeoutMs: synapse.config.idleTimeoutMs,
+              attachmentPolicy: synapse.config.attachments,
+              logprobs,
+            };
+
+            if (sampling) {
+              const sampledLogprobs = new Map<string, TokenLogprob[]>();
+              const sampled = await sampleWithConsistency({
+                prompt: p,
+                schema,
+                config: sampling,
+                signal,
+                validate,
+                timeoutMs: attempt.timeoutMs,
+                inference: async (_prompt, sample) => {
+                  const response = await chatWithProvider(provider, messages, {
+                    ...options,
+                    ...(sample.temperature !== undefined && {
+                      temperature: sample.temperature,
+                    }),
+                    timeoutMs: sample.timeoutMs,
+                  });
+                  if (response.logprobs) {
+                    sampledLogprobs.set(response.content, response.logprobs);
+                  }
+                  return response.content;
+                },
+              });
+              synapse.log("Candidates:", sampled.candidates);
+              agreement = sampled.agreement;
+              scored = {
+                response: sampled.response,
+                logprobs: sampledLogprobs.get(sampled.response),
+              };
+              return sampled.response;
+            }
+
+            const chunks =
+              stream && !tools
+                ? streamChatWithProvider(provider, messages, options)
+                : null;
+
+            if (chunks) {
+              const parser = createPartialJsonParser<unknown>(responseSchema);
+              const streamedLogprobs: TokenLogprob[] = [];
+              setPartialState(null);
+              setStreamingText("");
+
+              for await (const chunk of chunks) {
+                if (chunk.logprobs) streamedLogprobs.push(...chunk.logprobs);
+                if (!chunk.text) continue;
+
+                const partial = parser.push(chunk.text);
+                setStreamingText(parser.getText());
+                if (partial !== undefined && previewsState) {
+                  setPartialState(partial);
+                }
+              }
+
+              scored = {
+                response: parser.getText(),
+                logprobs: streamedLogprobs.length
+                  ? streamedLogprobs
+                  : undefined,
+              };
+              return parser.getText();
+            }
+
+            if (!tools) {
+              const response = await chatWithProvider(
+                provider,
+                messages,
+                options
+              );
+              scored = {
+                response: response.content,
+                logprobs: response.logprobs,
+              };
+              return response.content;
+            }
+
+            const { response } = await runToolLoop({
+              provider,
+              messages,
+              tools,
+              options,
+              onToolCall: (record) =>
+                synapse.log(`Tool call ${record.call.name}:`, record),
+            });
+            scored = {
+              response: response.content,
+              logprobs: response.logprobs,
+            };
             return response.content;
           },
+          signal,
+          validate,
+          timeoutMs: synapse.config.timeoutMs,
           config: {
             maxRetries: synapse.config.maxRetries,
             onRetry: (attempt, errors) => {
               synapse.log(`Correction attempt ${attempt}:`, errors);
               setStateContext((ctx) => ({ ...ctx, retryCount: attempt }));
+              transition("RESPONSE_RECEIVED");
+              transition("INVALID", { errors });
               transition("RETRY");
             },
           },
@@ -189,33 +502,84 @@ export function useSemanticState<T>(
             ...ctx,
             error: new Error("Failed to generate valid state after retries"),
           }));
+          transition("INVALID", {
+            errors: result.history[result.history.length - 1]?.errors,
+          });
           transition("MAX_RETRIES");
           return;
         }
 
-        transition("VALID");
+        if (patch) {
+          synapse.log("Patch:", patch);
+          transition("VALID", { patch });
+        } else if (dispatched) {
+          synapse.log("Actions:", dispatched);
+          transition("VALID", { actions: dispatched });
+        } else {
+          transition("VALID");
+        }
 
         const newState = result.data;
-        const confidence = calculateConfidence({
+
+        // The valid response is the one the last attempt produced
+        let fields: Record<string, number> | null = null;
+        let leastCertain: number | undefined;
+        if (logprobs && scored?.logprobs) {
+          const scores = scoreFieldConfidence({
+            response: scored.response,
+            logprobs: scored.logprobs,
+            // Patches and action lists only hold changes to begin with
+            paths: previewsState
+              ? changedLeafPaths(state, newState)
+              : undefined,
+          });
+          fields = scores.fields;
+          leastCertain = scores.overall ?? undefined;
+          synapse.log("Field confidence:", fields);
+        } else if (logprobs) {
+          synapse.log("Provider returned no logprobs");
+        }
+
+        const decision = policy.evaluate({
           previousState: state,
           newState,
           intent,
+          threshold,
+          modelConfidence: agreement ?? leastCertain,
+          fieldConfidence: fields,
         });
+        const { confidence } = decision;
 
-        synapse.log("Confidence:", confidence, "Threshold:", threshold);
+        synapse.log("Gating:", decision, "Threshold:", threshold);
         setStateContext((ctx) => ({ ...ctx, confidence }));
+        setFieldConfidence(fields);
+        setGating(decision);
 
-        // Check if gating is needed
-        const isDestructive = isDestructiveChange(state, newState);
-        const needsGating = confidence < threshold || isDestructive;
-
-        if (needsGating) {
+        if (decision.action === "reject") {
+          synapse.log("Change rejected by the gating policy");
+          setStateContext((ctx) => ({
+            ...ctx,
+            error: new Error(
+              `Change rejected: ${decision.reasons
+                .map((reason) => reason.message)
+                .join("; ")}`
+            ),
+          }));
+          transition("POLICY_REJECTED", { reasons: decision.reasons });
+        } else if (decision.action === "confirm") {
           synapse.log("Gating triggered");
-          transition("NEEDS_CONFIRMATION");
+          transition("NEEDS_CONFIRMATION", { reasons: decision.reasons });
 
           // If custom onGate handler provided, use it
           if (onGate) {
-            const confirmed = await onGate(newState, state, confidence);
+            const confirmed = await onGate(
+              newState,
+              state,
+              confidence,
+              fields,
+              decision
+            );
+            throwIfAborted(signal);
             if (confirmed) {
               setState(newState);
               onChange?.(newState, state);
@@ -229,6 +593,7 @@ export function useSemanticState<T>(
             const confirmed = await new Promise<boolean>((resolve) => {
               pendingResolverRef.current = resolve;
             });
+            throwIfAborted(signal);
 
             if (confirmed) {
               setState(newState);
@@ -248,17 +613,61 @@ export function useSemanticState<T>(
 
         transition("RESET");
       } catch (error) {
+        // Superseded by a newer dispatch (which already reset the machine)
+        // or unmounted
+        if (isAbortError(error)) {
+          synapse.log("Inference aborted");
+          if (abortControllerRef.current?.signal === signal) cancelInFlight();
+          return;
+        }
+
         synapse.log("Inference error:", error);
         setStateContext((ctx) => ({
           ...ctx,
           error: error instanceof Error ? error : new Error(String(error)),
         }));
         transition("ERROR");
+      } finally {
+        // A finished dispatch has nothing left to cancel
+        if (abortControllerRef.current?.signal === signal) {
+          abortControllerRef.current = null;
+        }
       }
+
+      // The preview is replaced by the committed (or unchanged) state
+      setPartialState(null);
     },
-    [state, schema, context, threshold, synapse, transition, onChange, onGate]
+    [
+      state,
+      schema,
+      context,
+      threshold,
+      policy,
+      tools,
+      stream,
+      mutationMode,
+      actions,
+      feature,
+      selfConsistency,
+      logprobs,
+      synapse,
+      transition,
+      cancelInFlight,
+      onChange,
+      onGate,
+    ]
   );
 
+  // Cancel any in-flight inference on unmount; a dispatch waiting for
+  // confirmation is released and returns once it sees the abort
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      pendingResolverRef.current?.(false);
+      pendingResolverRef.current = null;
+    };
+  }, []);
+
   // Confirmation handlers
   const confirmChange = useCallback(() => {
     pendingResolverRef.current?.(true);
@@ -283,8 +692,12 @@ export function useSemanticState<T>(
       currentIntent: stateContext.currentIntent,
       retryCount: stateContext.retryCount,
       confidence: stateContext.confidence,
+      fieldConfidence,
+      gating,
       pendingConfirmation: pendingState !== null,
       pendingState,
+      partialState,
+      streamingText,
       confirmChange,
       rejectChange,
       history: stateContext.history,
@@ -293,7 +706,11 @@ export function useSemanticState<T>(
     [
       machineState,
       stateContext,
+      fieldConfidence,
+      gating,
       pendingState,
+      partialState,
+      streamingText,
       confirmChange,
       rejectChange,
       reset,
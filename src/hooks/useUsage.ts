@@ -0,0 +1,33 @@
+/**
+ * useUsage - Live token usage, cost and budget status
+ *
+ * Re-renders whenever the ledger of the enclosing SynapseProvider records
+ * a call.
+ */
+
+import { useSyncExternalStore } from "react";
+import { useSynapseContext } from "../context";
+import { UsageSnapshot } from "../usage";
+
+export interface UseUsageResult extends UsageSnapshot {
+  /** Clears all totals and budget spend */
+  reset: () => void;
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { total, byFeature, budgets } = useUsage();
+ * return <p>Spent ${total.cost.toFixed(2)} on {total.calls} calls</p>;
+ * ```
+ */
+export function useUsage(): UseUsageResult {
+  const { usage } = useSynapseContext();
+  const snapshot = useSyncExternalStore(
+    usage.subscribe,
+    usage.getSnapshot,
+    usage.getSnapshot
+  );
+
+  return { ...snapshot, reset: usage.reset };
+}
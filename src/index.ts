@@ -9,8 +9,10 @@ export {
   useIsServer,
   useHydrated,
   type SemanticStateConfig,
+  type MutationMode,
   type SemanticStateMetadata,
   type DispatchFn,
+  type DispatchOptions,
   type UseSemanticStateReturn,
   type UseInferenceOptions,
   type UseInferenceResult,
@@ -18,8 +20,36 @@ export {
   type SSRSemanticStateReturn,
   type SSRInferenceConfig,
   type SSRInferenceReturn,
+  useUsage,
+  type UseUsageResult,
 } from "./hooks";
 
+// ============================================
+// Usage & Cost
+// ============================================
+export {
+  createUsageLedger,
+  withUsageTracking,
+  DEFAULT_PRICING,
+  findModelPricing,
+  calculateCost,
+  type UsageLedger,
+  type UsageLedgerConfig,
+  type UsageScope,
+  type UsageEntry,
+  type UsageRecord,
+  type UsageTotals,
+  type UsageSnapshot,
+  type UsageListener,
+  type UsageBudget,
+  type BudgetAction,
+  type BudgetStatus,
+  type BudgetDecision,
+  type ModelPricing,
+  type PricingTable,
+  type TokenUsage,
+} from "./usage";
+
 // ============================================
 // Declarative Components
 // ============================================
@@ -62,13 +92,40 @@ export {
   type AIProvider,
   type InferenceOptions,
   type InferenceResponse,
+  type ProviderCapabilities,
+  type StructuredOutputMode,
+  type StreamChunk,
+  type ToolCallDelta,
+  type TokenLogprob,
   type ProviderType,
   type ProviderConfig,
   type CloudProviderConfig,
+  type ChatMessage,
+  chatWithProvider,
+  toTextStream,
+  supportsStructuredOutput,
+  intersectCapabilities,
+  // HTTP retries
+  type RetryPolicy,
+  type RetryEvent,
+  type HttpRequestOptions,
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  parseRetryAfter,
+  computeBackoff,
+  // Provider errors
+  type ProviderErrorInit,
+  createProviderError,
+  readProviderError,
   // OpenAI-compatible
   createOpenAIProvider,
   createMockProvider,
   type OpenAIConfig,
+  // Azure OpenAI
+  createAzureOpenAIProvider,
+  type AzureOpenAIConfig,
+  type AzureOpenAIProvider,
+  type AzureInferenceOptions,
   // Anthropic (Claude)
   createAnthropicProvider,
   type AnthropicConfig,
@@ -81,6 +138,17 @@ export {
   // Cerebras (wafer-scale)
   createCerebrasProvider,
   type CerebrasConfig,
+  // Ollama (local server)
+  createOllamaProvider,
+  type OllamaConfig,
+  type OllamaModel,
+  type OllamaProvider,
+  // Self-hosted OpenAI-compatible servers
+  createOpenAICompatibleProvider,
+  type OpenAICompatibleConfig,
+  type OpenAICompatibleProvider,
+  type OpenAICompatibleServer,
+  type OpenAICompatibleCapabilityReport,
   // Local (Transformers.js)
   createTransformersProvider,
   preloadModel,
@@ -92,8 +160,61 @@ export {
   type HybridProviderConfig,
   type HybridProviderStatus,
   type InferenceMode,
+  // Fallback (ordered failover)
+  createFallbackProvider,
+  classifyProviderError,
+  type FallbackPolicy,
+  type FallbackProvider,
+  type FallbackProviderStatus,
+  type FailoverEvent,
+  type ProviderErrorClass,
+  // Load balancing (weighted routing)
+  createLoadBalancedProvider,
+  type LoadBalancedBackend,
+  type LoadBalancerConfig,
+  type LoadBalancedProvider,
+  type LoadBalancerStatus,
+  type BackendStatus,
+  type RoutingStrategy,
+  // Middleware (interceptors)
+  withMiddleware,
+  createLoggingMiddleware,
+  createTimingMiddleware,
+  createPromptGuardMiddleware,
+  type ProviderMiddleware,
+  type ProviderRequest,
+  type LoggingMiddlewareConfig,
+  type TimingEvent,
+  // Timeouts
+  withInferenceTimeout,
+  // Attachments (images and documents)
+  type ContentPart,
+  type AttachmentPolicy,
+  DEFAULT_ATTACHMENT_POLICY,
+  resolveContentParts,
+  // Embeddings
+  type EmbeddingOptions,
+  type EmbeddingResponse,
+  embedWithProvider,
+  normalizeEmbedding,
+  cosineSimilarity,
 } from "./providers";
 
+// ============================================
+// Tool Calling
+// ============================================
+export {
+  defineTool,
+  createToolRegistry,
+  runToolLoop,
+  type ToolDefinition,
+  type ToolCall,
+  type ToolContext,
+  type ToolRegistry,
+  type ToolLoopResult,
+  type ToolCallRecord,
+} from "./tools";
+
 // ============================================
 // Validation & Security (Firewall)
 // ============================================
@@ -101,11 +222,34 @@ export {
   validateResponse,
   extractJson,
   executeWithCorrection,
+  sampleWithConsistency,
+  structuralSimilarity,
+  scoreFieldConfidence,
+  changedLeafPaths,
+  createPartialJsonParser,
+  streamPartialJson,
+  applyJsonPatch,
+  validatePatchResponse,
+  defineAction,
+  replayActions,
+  validateActionsResponse,
   RollbackManager,
   createRollbackManager,
   type ValidationResult,
   type ValidationError,
   type CorrectionResult,
+  type AttemptOptions,
+  type SelfConsistencyConfig,
+  type SelfConsistencyResult,
+  type CandidateRecord,
+  type LogprobConfidenceResult,
+  type DeepPartial,
+  type PartialJsonParser,
+  type JsonPatch,
+  type JsonPatchOperation,
+  type ActionDefinition,
+  type ActionMap,
+  type DispatchedAction,
   type StateSnapshot,
 } from "./validation";
 
@@ -118,10 +262,12 @@ export {
   type SecurityViolation,
   // Output Sanitizer (XSS prevention)
   sanitizeOutput,
+  checkUrl,
   escapeHtml,
   validateSafeContent,
   createSafeRenderer,
   type SanitizerConfig,
+  type UrlCheckConfig,
   // API Key Protection
   validateNotApiKey,
   createSecureInference,
@@ -130,6 +276,34 @@ export {
   type SecureProviderConfig,
 } from "./security";
 
+// ============================================
+// Gating Policies
+// ============================================
+export {
+  createGatingPolicy,
+  defaultScorers,
+  DEFAULT_GATING_POLICY,
+  modelConfidenceScorer,
+  diffSizeScorer,
+  intentClarityScorer,
+  removedItemsScorer,
+  protectedPathsScorer,
+  type GatingPolicy,
+  type GatingPolicyConfig,
+  type GatingContext,
+  type GatingDecision,
+  type GatingAction,
+  type GatingReason,
+  type ConfidenceScorer,
+  type ScorerResult,
+  type ScorerOptions,
+  type ModelConfidenceScorerOptions,
+  type DiffSizeScorerOptions,
+  type IntentClarityScorerOptions,
+  type RemovedItemsScorerOptions,
+  type ProtectedPathsScorerOptions,
+} from "./gating";
+
 // ============================================
 // Errors
 // ============================================
@@ -183,7 +357,18 @@ export {
 // ============================================
 // Compiler Utilities (Advanced Usage)
 // ============================================
-export { buildPrompt, zodToDescription, type PromptConfig } from "./compiler";
+export {
+  buildPrompt,
+  buildMessages,
+  buildPatchMessages,
+  buildActionMessages,
+  buildInferenceMessages,
+  zodToDescription,
+  zodToJsonSchema,
+  zodToGbnf,
+  type PromptConfig,
+  type JsonSchema,
+} from "./compiler";
 
 // ============================================
 // State Machine Types (Debugging/DevTools)
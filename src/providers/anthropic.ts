@@ -1,5 +1,27 @@
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
-import { CloudProviderConfig } from "./base";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  CloudProviderConfig,
+  ChatMessage,
+  parseServerSentEvents,
+  fetchWithRetry,
+  toHttpOptions,
+  readProviderError,
+  createProviderError,
+  parseToolArguments,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import {
+  resolveAttachments,
+  attachmentSource,
+  ContentPart,
+} from "./attachments";
+import { zodToJsonSchema, JsonSchema } from "../compiler/jsonSchema";
+import type { ToolCall } from "../tools/types";
 
 export interface AnthropicConfig extends CloudProviderConfig {
   /** Anthropic API version */
@@ -9,23 +31,227 @@ export interface AnthropicConfig extends CloudProviderConfig {
 const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
 const DEFAULT_MODEL = "claude-3-haiku-20240307";
 const DEFAULT_API_VERSION = "2023-06-01";
+const RESPONSE_TOOL_NAME = "respond";
+
+type AnthropicSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string };
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: AnthropicSource }
+  | { type: "document"; source: AnthropicSource; title?: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * A Messages API response
+ */
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  usage?: AnthropicUsage;
+  stop_reason?: string;
+}
+
+/**
+ * One event of a streamed Messages API response
+ */
+type AnthropicStreamEvent =
+  | { type: "message_start"; message?: { usage?: Partial<AnthropicUsage> } }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block?: AnthropicContentBlock;
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta?:
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | {
+      type: "message_delta";
+      delta?: { stop_reason?: string | null };
+      usage?: Partial<AnthropicUsage>;
+    }
+  | { type: "error"; error?: { type: string; message: string } }
+  | { type: "ping" | "content_block_stop" | "message_stop" };
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: JsonSchema;
+}
+
+/**
+ * Splits chat messages into Anthropic's top-level `system` field and the
+ * user/assistant `messages` array. Tool calls become `tool_use` blocks and
+ * tool results are sent as `tool_result` blocks in a user turn.
+ * Attachments become `image`/`document` blocks ahead of the text.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: AnthropicMessage[];
+} {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  const result: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "tool") {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId || "",
+        content: message.content,
+      };
+      // Consecutive tool results must share a single user turn
+      const previous = result[result.length - 1];
+      if (
+        previous?.role === "user" &&
+        Array.isArray(previous.content) &&
+        previous.content.every((b) => b.type === "tool_result")
+      ) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      const blocks: AnthropicContentBlock[] = message.content
+        ? [{ type: "text", text: message.content }]
+        : [];
+      for (const call of message.toolCalls) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: parseToolArguments(call.arguments),
+        });
+      }
+      result.push({ role: "assistant", content: blocks });
+      continue;
+    }
+
+    if (message.attachments && message.attachments.length > 0) {
+      result.push({
+        role: message.role,
+        content: [
+          ...message.attachments.map(toAnthropicAttachment),
+          { type: "text", text: message.content },
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return { system: system || undefined, messages: result };
+}
+
+function toAnthropicAttachment(part: ContentPart): AnthropicContentBlock {
+  const source = attachmentSource(part);
+  const anthropicSource: AnthropicSource =
+    source.kind === "url"
+      ? { type: "url", url: source.url }
+      : { type: "base64", media_type: source.mimeType, data: source.data };
+
+  return part.type === "image"
+    ? { type: "image", source: anthropicSource }
+    : { type: "document", source: anthropicSource, title: part.name };
+}
+
+/**
+ * Builds the `tools`/`tool_choice` request fields.
+ *
+ * A response schema becomes a forced "respond" tool whose input is the
+ * result. Tool inputs must be objects, so other roots are wrapped in
+ * `{ value }`. When application tools are also present, the model may call
+ * any tool and its final answer arrives through "respond".
+ */
+function toAnthropicTools(options: InferenceOptions): {
+  wrapped: boolean;
+  body: {
+    tools?: AnthropicTool[];
+    tool_choice?: { type: "tool"; name: string } | { type: "any" };
+  };
+} {
+  const tools: AnthropicTool[] = (options.tools ?? []).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: zodToJsonSchema(tool.inputSchema),
+  }));
+
+  if (!options.responseSchema) {
+    return { wrapped: false, body: tools.length > 0 ? { tools } : {} };
+  }
+
+  const jsonSchema = zodToJsonSchema(options.responseSchema);
+  const wrapped = jsonSchema.type !== "object";
+
+  tools.push({
+    name: RESPONSE_TOOL_NAME,
+    description: "Return the final structured result.",
+    input_schema: wrapped
+      ? {
+          type: "object",
+          properties: { value: jsonSchema },
+          required: ["value"],
+        }
+      : jsonSchema,
+  });
+
+  return {
+    wrapped,
+    body: {
+      tools,
+      tool_choice:
+        tools.length > 1
+          ? { type: "any" }
+          : { type: "tool", name: RESPONSE_TOOL_NAME },
+    },
+  };
+}
 
 export function createAnthropicProvider(config: AnthropicConfig): AIProvider {
   const baseUrl = config.baseUrl || DEFAULT_BASE_URL;
   const model = config.model || DEFAULT_MODEL;
   const apiVersion = config.apiVersion || DEFAULT_API_VERSION;
 
-  return {
-    name: "anthropic",
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
+    const tools = toAnthropicTools(options);
 
-    async inference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): Promise<InferenceResponse> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
-
-      const response = await fetch(`${baseUrl}/messages`, {
+    const response = await fetchWithRetry(
+      `${baseUrl}/messages`,
+      {
         method: "POST",
+        signal: options.signal,
         headers: {
           "Content-Type": "application/json",
           "x-api-key": config.apiKey,
@@ -34,38 +260,76 @@ export function createAnthropicProvider(config: AnthropicConfig): AIProvider {
         body: JSON.stringify({
           model,
           max_tokens: mergedOptions.maxTokens ?? 2048,
-          messages: [{ role: "user", content: prompt }],
+          temperature: mergedOptions.temperature ?? 0.7,
+          ...toAnthropicMessages(prepared),
+          ...tools.body,
         }),
-      });
+      },
+      toHttpOptions("anthropic", options)
+    );
+
+    if (!response.ok) {
+      throw await readProviderError(response, "Anthropic");
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+    const data: AnthropicResponse = await response.json();
+    const blocks = data.content ?? [];
+
+    let content = blocks
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const toolCalls: ToolCall[] = [];
+
+    for (const block of blocks) {
+      if (block.type !== "tool_use") continue;
+
+      if (block.name === RESPONSE_TOOL_NAME) {
+        const input = block.input as { value?: unknown };
+        content = JSON.stringify(tools.wrapped ? input?.value : input);
+      } else {
+        toolCalls.push({
+          id: block.id,
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        });
       }
+    }
 
-      const data = await response.json();
-
-      return {
-        content: data.content[0]?.text || "",
-        usage: data.usage
-          ? {
-              promptTokens: data.usage.input_tokens,
-              completionTokens: data.usage.output_tokens,
-              totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-            }
-          : undefined,
-        finishReason: data.stop_reason,
-      };
-    },
+    return {
+      content,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.input_tokens,
+            completionTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : undefined,
+      finishReason: data.stop_reason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
 
-    async *streamInference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): AsyncIterable<string> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
+    // Wrapped tool input cannot be unwrapped mid-stream, so only object
+    // schemas use tool-forced output when streaming
+    const responseTools = toAnthropicTools(options);
+    const tools = responseTools.wrapped
+      ? toAnthropicTools({ tools: options.tools })
+      : responseTools;
 
-      const response = await fetch(`${baseUrl}/messages`, {
+    const response = await fetchWithRetry(
+      `${baseUrl}/messages`,
+      {
         method: "POST",
+        signal: options.signal,
         headers: {
           "Content-Type": "application/json",
           "x-api-key": config.apiKey,
@@ -74,47 +338,114 @@ export function createAnthropicProvider(config: AnthropicConfig): AIProvider {
         body: JSON.stringify({
           model,
           max_tokens: mergedOptions.maxTokens ?? 2048,
-          messages: [{ role: "user", content: prompt }],
+          temperature: mergedOptions.temperature ?? 0.7,
+          ...toAnthropicMessages(prepared),
+          ...tools.body,
           stream: true,
         }),
-      });
+      },
+      toHttpOptions("anthropic", options)
+    );
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+    if (!response.ok) {
+      throw await readProviderError(response, "Anthropic");
+    }
+
+    const final: StreamChunk = {
+      text: "",
+      role: "assistant",
+      provider: "anthropic",
+    };
+    // Content block index -> tool call index, for application tools only
+    const toolBlocks = new Map<number, number>();
+    let promptTokens = 0;
+
+    for await (const parsed of parseServerSentEvents<AnthropicStreamEvent>(
+      response
+    )) {
+      // Failures after the headers were sent (e.g. overloaded_error)
+      if (parsed.type === "error") {
+        throw createProviderError({ provider: "Anthropic", body: parsed });
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.slice(6).trim();
-            if (data === "[DONE]") return;
-
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.type === "content_block_delta") {
-                const text = parsed.delta?.text;
-                if (text) yield text;
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
+      if (parsed.type === "content_block_start") {
+        const block = parsed.content_block;
+        if (block?.type === "tool_use" && block.name !== RESPONSE_TOOL_NAME) {
+          const index = toolBlocks.size;
+          toolBlocks.set(parsed.index, index);
+          yield {
+            text: "",
+            role: "assistant",
+            toolCall: { index, id: block.id, name: block.name },
+            provider: "anthropic",
+          };
         }
+      } else if (parsed.type === "content_block_delta") {
+        const toolIndex = toolBlocks.get(parsed.index);
+        if (
+          parsed.delta?.type === "input_json_delta" &&
+          toolIndex !== undefined
+        ) {
+          yield {
+            text: "",
+            role: "assistant",
+            toolCall: {
+              index: toolIndex,
+              arguments: parsed.delta.partial_json,
+            },
+            provider: "anthropic",
+          };
+          continue;
+        }
+
+        // Text, or the "respond" tool input which is the response itself
+        const text =
+          parsed.delta?.type === "input_json_delta"
+            ? parsed.delta.partial_json
+            : parsed.delta?.text;
+        if (text) yield { text, role: "assistant", provider: "anthropic" };
+      } else if (parsed.type === "message_start") {
+        promptTokens = parsed.message?.usage?.input_tokens ?? 0;
+      } else if (parsed.type === "message_delta") {
+        final.finishReason = parsed.delta?.stop_reason ?? undefined;
+        const completionTokens = parsed.usage?.output_tokens ?? 0;
+        final.usage = {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        };
       }
+    }
+
+    yield final;
+  }
+
+  return withInferenceTimeout({
+    name: "anthropic",
+    model,
+    capabilities: { structuredOutput: "tool", tools: true, attachments: true },
+
+    inference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return chat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
     },
-  };
+
+    streamInference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    chat,
+    streamChat,
+  });
 }
@@ -0,0 +1,197 @@
+/**
+ * @vitest-environment node
+ *
+ * Tests for attachment resolution and the provider multimodal formats
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  resolveContentParts,
+  resolveAttachments,
+  parseDataUrl,
+} from "./attachments";
+import { createOpenAIProvider } from "./openai";
+import { createAnthropicProvider } from "./anthropic";
+import { createGeminiProvider } from "./gemini";
+import { SynapseError } from "../errors";
+import { sentBody, stubFetch } from "../test/stubHttp";
+
+const PNG_DATA_URL = "data:image/png;base64,iVBORw0KGgo=";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveContentParts", () => {
+  it("reads Blobs into data URLs", async () => {
+    const blob = new Blob(["%PDF"], { type: "application/pdf" });
+
+    const [part] = await resolveContentParts([
+      { type: "document", data: blob, name: "receipt.pdf" },
+    ]);
+
+    expect(part).toEqual({
+      type: "document",
+      data: "data:application/pdf;base64,JVBERg==",
+      mimeType: "application/pdf",
+      name: "receipt.pdf",
+    });
+  });
+
+  it("infers MIME types from data URLs and link extensions", async () => {
+    const parts = await resolveContentParts([
+      { type: "image", data: PNG_DATA_URL },
+      { type: "image", data: "https://cdn.example.com/photo.JPG" },
+    ]);
+
+    expect(parts.map((part) => part.mimeType)).toEqual([
+      "image/png",
+      "image/jpeg",
+    ]);
+    expect(parseDataUrl("data:text/plain,hello")).toBe(null);
+  });
+
+  it("enforces size and type limits", async () => {
+    const large = new Blob([new Uint8Array(11)], { type: "image/png" });
+
+    const tooLarge = await resolveContentParts(
+      [{ type: "image", data: large }],
+      { maxBytes: 10 }
+    ).catch((caught) => caught);
+    const overTotal = await resolveContentParts(
+      [
+        { type: "image", data: PNG_DATA_URL },
+        { type: "image", data: PNG_DATA_URL },
+      ],
+      { maxTotalBytes: 10 }
+    ).catch((caught) => caught);
+    const wrongType = await resolveContentParts([
+      { type: "document", data: "data:text/html;base64,PGI+" },
+    ]).catch((caught) => caught);
+
+    expect(tooLarge).toBeInstanceOf(SynapseError);
+    expect(tooLarge.code).toBe("INVALID_REQUEST");
+    expect(tooLarge.message).toBe(
+      'Attachment "image" rejected: 11 bytes exceeds the 10-byte limit'
+    );
+    expect(overTotal.message).toContain("10-byte total limit");
+    expect(wrongType.message).toContain("type text/html is not allowed");
+  });
+
+  it("blocks unsafe links", async () => {
+    const error = await resolveContentParts([
+      { type: "image", data: "http://localhost:8080/a.png" },
+    ]).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.code).toBe("SECURITY_VIOLATION");
+    expect(error.message).toBe(
+      "Blocked attachment URL (unsafeProtocol, privateHost)"
+    );
+  });
+
+  it("keeps attachments on their messages", async () => {
+    const messages = await resolveAttachments([
+      { role: "system", content: "Be brief" },
+      {
+        role: "user",
+        content: "Add these",
+        attachments: [{ type: "image", data: PNG_DATA_URL }],
+      },
+    ]);
+
+    expect(messages[0]).toEqual({ role: "system", content: "Be brief" });
+    expect(messages[1].attachments?.[0].mimeType).toBe("image/png");
+  });
+});
+
+describe("provider attachment formats", () => {
+  const attachments = [
+    { type: "image" as const, data: PNG_DATA_URL },
+    {
+      type: "document" as const,
+      data: "https://files.example.com/receipt.pdf",
+      name: "receipt.pdf",
+    },
+  ];
+
+  it("maps images and documents to Anthropic blocks", async () => {
+    const fetchMock = stubFetch({ content: [{ type: "text", text: "ok" }] });
+    const provider = createAnthropicProvider({ apiKey: "key" });
+
+    await provider.inference("Add the items", { attachments });
+
+    expect(sentBody(fetchMock).messages?.[0].content).toEqual([
+      {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: "image/png",
+          data: "iVBORw0KGgo=",
+        },
+      },
+      {
+        type: "document",
+        source: { type: "url", url: "https://files.example.com/receipt.pdf" },
+        title: "receipt.pdf",
+      },
+      { type: "text", text: "Add the items" },
+    ]);
+  });
+
+  it("maps images and documents to Gemini parts", async () => {
+    const fetchMock = stubFetch({
+      candidates: [{ content: { parts: [{ text: "ok" }] } }],
+    });
+    const provider = createGeminiProvider({ apiKey: "key" });
+
+    await provider.inference("Add the items", { attachments });
+
+    expect(sentBody(fetchMock).contents?.[0].parts).toEqual([
+      { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+      {
+        fileData: {
+          mimeType: "application/pdf",
+          fileUri: "https://files.example.com/receipt.pdf",
+        },
+      },
+      { text: "Add the items" },
+    ]);
+  });
+
+  it("maps images to OpenAI content parts", async () => {
+    const fetchMock = stubFetch({
+      choices: [{ message: { content: "ok" } }],
+    });
+    const provider = createOpenAIProvider({ apiKey: "key" });
+
+    await provider.chat!([
+      {
+        role: "user",
+        content: "Add the items",
+        attachments: [
+          attachments[0],
+          { type: "document", data: "data:application/pdf;base64,JVBERg==" },
+        ],
+      },
+    ]);
+
+    expect(sentBody(fetchMock).messages?.[0].content).toEqual([
+      { type: "text", text: "Add the items" },
+      { type: "image_url", image_url: { url: PNG_DATA_URL } },
+      {
+        type: "file",
+        file: { file_data: "data:application/pdf;base64,JVBERg==" },
+      },
+    ]);
+  });
+
+  it("rejects linked documents for OpenAI", async () => {
+    stubFetch({ choices: [{ message: { content: "ok" } }] });
+    const provider = createOpenAIProvider({ apiKey: "key" });
+
+    await expect(
+      provider.inference("Add the items", { attachments })
+    ).rejects.toThrow("OpenAI only accepts documents as files or data URLs");
+  });
+});
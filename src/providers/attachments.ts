@@ -0,0 +1,246 @@
+/**
+ * Attachments - Images and documents sent alongside a message
+ *
+ * A part may be a Blob (or File), a base64 `data:` URL or an https URL.
+ * Before a request is sent, `resolveAttachments` reads Blobs into data
+ * URLs, enforces the size and type limits of an `AttachmentPolicy` and
+ * runs `checkUrl` on links. Providers then map the resolved parts to their
+ * own multimodal formats through `attachmentSource`.
+ */
+
+import type { ChatMessage } from "./base";
+import { checkUrl, UrlCheckConfig } from "../security/outputSanitizer";
+import { Errors } from "../errors";
+
+export interface ContentPart {
+  type: "image" | "document";
+  /** Blob or File, base64 `data:` URL or https URL */
+  data: Blob | string;
+  /**
+   * MIME type (default: taken from the Blob, the data URL or the link's
+   * file extension)
+   */
+  mimeType?: string;
+  /** File name shown to the model where the provider supports it */
+  name?: string;
+}
+
+/**
+ * A part that passed the policy: Blobs are read into data URLs and the
+ * MIME type is known
+ */
+export interface ResolvedContentPart extends ContentPart {
+  /** Base64 `data:` URL or https URL */
+  data: string;
+  mimeType: string;
+}
+
+export interface AttachmentPolicy {
+  /** Largest decoded size of one attachment in bytes (default: 5 MB) */
+  maxBytes?: number;
+  /** Largest combined size of all attachments of a request (default: 20 MB) */
+  maxTotalBytes?: number;
+  /** Accepted MIME types; "image/*" matches any image (default: images and PDF) */
+  allowedMimeTypes?: string[];
+  /** Checks run on linked attachments */
+  urls?: UrlCheckConfig;
+}
+
+export const DEFAULT_ATTACHMENT_POLICY: Required<
+  Omit<AttachmentPolicy, "urls">
+> = {
+  maxBytes: 5 * 1024 * 1024,
+  maxTotalBytes: 20 * 1024 * 1024,
+  allowedMimeTypes: [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "application/pdf",
+  ],
+};
+
+/**
+ * Where a resolved part's bytes come from: inline base64 data or a link
+ */
+export type AttachmentSource =
+  | { kind: "base64"; mimeType: string; data: string }
+  | { kind: "url"; mimeType: string; url: string };
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+};
+
+/**
+ * Splits a base64 `data:` URL into its MIME type and payload, or returns
+ * null for anything else
+ */
+export function parseDataUrl(
+  url: string
+): { mimeType: string; data: string } | null {
+  const match = /^data:([^;,]+)(?:;[^;,]+)*?;base64,([a-z0-9+/=]*)$/i.exec(url);
+  return match ? { mimeType: match[1].toLowerCase(), data: match[2] } : null;
+}
+
+function base64Size(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so large files do not overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function mimeTypeFromUrl(url: string): string | undefined {
+  const extension = /\.([a-z0-9]+)$/i.exec(new URL(url).pathname)?.[1];
+  return extension ? MIME_BY_EXTENSION[extension.toLowerCase()] : undefined;
+}
+
+function isAllowedMimeType(mimeType: string, allowed: string[]): boolean {
+  return allowed.some((entry) =>
+    entry.endsWith("/*")
+      ? mimeType.startsWith(entry.slice(0, -1))
+      : mimeType === entry
+  );
+}
+
+/**
+ * Reads, checks and normalizes one part; returns it with its decoded size
+ * (0 for links, which are not downloaded)
+ */
+async function resolveContentPart(
+  part: ContentPart,
+  policy: AttachmentPolicy
+): Promise<{ part: ResolvedContentPart; bytes: number }> {
+  const limits = { ...DEFAULT_ATTACHMENT_POLICY, ...policy };
+  const name =
+    part.name ??
+    (typeof part.data !== "string" && "name" in part.data
+      ? String(part.data.name)
+      : part.type);
+
+  let mimeType = part.mimeType;
+  let bytes = 0;
+
+  if (typeof part.data !== "string") {
+    mimeType = mimeType || part.data.type;
+    bytes = part.data.size;
+  } else if (part.data.startsWith("data:")) {
+    const parsed = parseDataUrl(part.data);
+    if (!parsed) {
+      throw Errors.attachmentRejected(
+        name,
+        "only base64 data URLs are supported"
+      );
+    }
+    mimeType = mimeType || parsed.mimeType;
+    bytes = base64Size(parsed.data);
+  } else {
+    const { safe, threats } = checkUrl(part.data, policy.urls);
+    if (!safe) throw Errors.unsafeAttachmentUrl(part.data, threats);
+    mimeType = mimeType || mimeTypeFromUrl(part.data);
+  }
+
+  if (!mimeType) {
+    throw Errors.attachmentRejected(
+      name,
+      "unknown MIME type; set `mimeType` on the part"
+    );
+  }
+  if (!isAllowedMimeType(mimeType, limits.allowedMimeTypes)) {
+    throw Errors.attachmentRejected(name, `type ${mimeType} is not allowed`);
+  }
+  if (bytes > limits.maxBytes) {
+    throw Errors.attachmentRejected(
+      name,
+      `${bytes} bytes exceeds the ${limits.maxBytes}-byte limit`
+    );
+  }
+
+  // Blobs are only read once they are known to fit
+  const data =
+    typeof part.data === "string"
+      ? part.data
+      : `data:${mimeType};base64,${bytesToBase64(
+          new Uint8Array(await part.data.arrayBuffer())
+        )}`;
+
+  return { part: { ...part, data, mimeType }, bytes };
+}
+
+/**
+ * Checks and normalizes `parts` against `policy`
+ */
+export async function resolveContentParts(
+  parts: ContentPart[],
+  policy: AttachmentPolicy = {}
+): Promise<ResolvedContentPart[]> {
+  const maxTotalBytes =
+    policy.maxTotalBytes ?? DEFAULT_ATTACHMENT_POLICY.maxTotalBytes;
+  const resolved: ResolvedContentPart[] = [];
+  let total = 0;
+
+  for (const part of parts) {
+    const result = await resolveContentPart(part, policy);
+    total += result.bytes;
+    if (total > maxTotalBytes) {
+      throw Errors.attachmentRejected(
+        result.part.name ?? part.type,
+        `attachments exceed the ${maxTotalBytes}-byte total limit`
+      );
+    }
+    resolved.push(result.part);
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolves the attachments of every message. The total size limit spans
+ * the whole conversation; messages without attachments are kept as is.
+ */
+export async function resolveAttachments(
+  messages: ChatMessage[],
+  policy: AttachmentPolicy = {}
+): Promise<ChatMessage[]> {
+  if (!messages.some((message) => message.attachments?.length)) {
+    return messages;
+  }
+
+  const parts = messages.flatMap((message) => message.attachments ?? []);
+  const resolved = await resolveContentParts(parts, policy);
+
+  let next = 0;
+  return messages.map((message) => {
+    if (!message.attachments?.length) return message;
+    const attachments = resolved.slice(next, next + message.attachments.length);
+    next += message.attachments.length;
+    return { ...message, attachments };
+  });
+}
+
+/**
+ * Source of a resolved part, for mapping it to a provider's format
+ */
+export function attachmentSource(part: ContentPart): AttachmentSource {
+  if (typeof part.data !== "string" || !part.mimeType) {
+    throw new Error(
+      "Attachments must be resolved with resolveAttachments before sending"
+    );
+  }
+
+  const parsed = parseDataUrl(part.data);
+  return parsed
+    ? { kind: "base64", mimeType: part.mimeType, data: parsed.data }
+    : { kind: "url", mimeType: part.mimeType, url: part.data };
+}
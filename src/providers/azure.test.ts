@@ -0,0 +1,234 @@
+/**
+ * @vitest-environment node
+ *
+ * Tests for the Azure OpenAI provider against a stub Azure endpoint
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { z } from "zod";
+import { createAzureOpenAIProvider } from "./azure";
+import { createProvider } from "./factory";
+import { SynapseError } from "../errors";
+import { RecordedRequest, listen, readRequest } from "../test/stubHttp";
+
+const FILTER_RESULTS = {
+  hate: { filtered: false, severity: "safe" },
+  violence: { filtered: true, severity: "high" },
+};
+
+let server: Server;
+let endpoint: string;
+let requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const recorded = await readRequest(request);
+    requests.push(recorded);
+    const { body } = recorded;
+    response.setHeader("Content-Type", "application/json");
+    const messages = body.messages ?? [];
+    const prompt = messages[messages.length - 1]?.content;
+
+    if (prompt === "blocked prompt") {
+      response.statusCode = 400;
+      response.end(
+        JSON.stringify({
+          error: {
+            code: "content_filter",
+            message: "The response was filtered",
+            innererror: {
+              code: "ResponsibleAIPolicyViolation",
+              content_filter_result: FILTER_RESULTS,
+            },
+          },
+        })
+      );
+      return;
+    }
+
+    if (prompt === "fail") {
+      response.statusCode = 429;
+      response.end(JSON.stringify({ error: { code: "429" } }));
+      return;
+    }
+
+    const finishReason =
+      prompt === "blocked completion" ? "content_filter" : "stop";
+
+    if (body.stream) {
+      response.setHeader("Content-Type", "text/event-stream");
+      const events = [
+        // Azure sends prompt filter results in a first, choice-less chunk
+        { choices: [], prompt_filter_results: [] },
+        { choices: [{ delta: { content: "Hel" } }] },
+        {
+          choices: [
+            {
+              delta: { content: "lo" },
+              finish_reason: finishReason,
+              content_filter_results: FILTER_RESULTS,
+            },
+          ],
+        },
+      ];
+      for (const event of events) {
+        response.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+      response.end("data: [DONE]\n\n");
+      return;
+    }
+
+    response.end(
+      JSON.stringify({
+        choices: [
+          {
+            message: { role: "assistant", content: "Hello" },
+            finish_reason: finishReason,
+            content_filter_results: FILTER_RESULTS,
+          },
+        ],
+        usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+      })
+    );
+  });
+
+  endpoint = await listen(server);
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe("createAzureOpenAIProvider", () => {
+  it("calls the deployment URL with the api-key header", async () => {
+    const provider = createAzureOpenAIProvider({
+      apiKey: "azure-key",
+      endpoint: `${endpoint}/`,
+      deployment: "my-gpt4o",
+    });
+
+    const response = await provider.inference("Hi", {
+      responseSchema: z.object({ title: z.string() }),
+    });
+
+    expect(response).toMatchObject({ content: "Hello", finishReason: "stop" });
+    expect(requests[0].url).toBe(
+      "/openai/deployments/my-gpt4o/chat/completions?api-version=2024-10-21"
+    );
+    expect(requests[0].headers["api-key"]).toBe("azure-key");
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body.model).toBeUndefined();
+    expect(requests[0].body.response_format).toMatchObject({
+      type: "json_schema",
+    });
+  });
+
+  it("resolves the deployment per request model and the api version", async () => {
+    const provider = createAzureOpenAIProvider({
+      apiKey: "azure-key",
+      endpoint,
+      model: "gpt-4o",
+      deployments: { "gpt-4o": "prod-4o", "gpt-4o-mini": "prod-mini" },
+      apiVersion: "2024-08-01-preview",
+    });
+    await provider.inference("Hi");
+    const mini = await provider.inference("Hi", { model: "gpt-4o-mini" });
+    await createAzureOpenAIProvider({
+      apiKey: "azure-key",
+      endpoint,
+      model: "gpt-4.1",
+    }).inference("Hi");
+    await createAzureOpenAIProvider({
+      apiKey: "azure-key",
+      endpoint,
+      deployment: "my-mini",
+    }).inference("Hi");
+
+    expect(mini.model).toBe("gpt-4o-mini");
+    expect(requests.map((request) => request.url)).toEqual([
+      "/openai/deployments/prod-4o/chat/completions?api-version=2024-08-01-preview",
+      "/openai/deployments/prod-mini/chat/completions?api-version=2024-08-01-preview",
+      "/openai/deployments/gpt-4.1/chat/completions?api-version=2024-10-21",
+      "/openai/deployments/my-mini/chat/completions?api-version=2024-10-21",
+    ]);
+  });
+
+  it("raises filtered prompts as SynapseErrors", async () => {
+    const provider = createAzureOpenAIProvider({
+      apiKey: "azure-key",
+      endpoint,
+      deployment: "my-gpt4o",
+    });
+
+    const error = await provider
+      .inference("blocked prompt")
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.message).toBe(
+      "Content filtered by Azure OpenAI: violence (high)"
+    );
+    expect(error.recoverable).toBe(false);
+    expect(error.debugInfo).toMatchObject({
+      prompt: "blocked prompt",
+      modelId: "my-gpt4o",
+    });
+  });
+
+  it("raises filtered completions as SynapseErrors", async () => {
+    const provider = createAzureOpenAIProvider({ apiKey: "key", endpoint });
+
+    const error = await provider
+      .inference("blocked completion")
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.debugInfo.response).toBe("Hello");
+  });
+
+  it("streams and raises content filtering mid-stream", async () => {
+    const provider = createAzureOpenAIProvider({ apiKey: "key", endpoint });
+
+    const text = [];
+    for await (const chunk of provider.streamInference!("Hi")) {
+      text.push(chunk.text);
+    }
+    expect(text.join("")).toBe("Hello");
+    expect(requests[0].body.stream).toBe(true);
+
+    const error = await (async () => {
+      for await (const chunk of provider.streamInference!(
+        "blocked completion"
+      )) {
+        expect(chunk.finishReason).toBeUndefined();
+      }
+    })().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.message).toContain("violence (high)");
+    expect(error.debugInfo.response).toBe("Hello");
+  });
+
+  it("reports other API errors", async () => {
+    await expect(
+      createAzureOpenAIProvider({ apiKey: "key", endpoint }).inference("fail")
+    ).rejects.toThrow("Azure OpenAI API error: 429");
+  });
+
+  it("is registered in the provider factory", async () => {
+    const provider = createProvider({
+      type: "azure-openai",
+      apiKey: "key",
+      endpoint,
+      deployment: "my-gpt4o",
+    });
+
+    expect(provider.name).toBe("azure-openai");
+    expect((await provider.inference("Hi")).content).toBe("Hello");
+  });
+});
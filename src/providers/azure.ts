@@ -0,0 +1,325 @@
+/**
+ * Azure OpenAI Provider - OpenAI models deployed to an Azure resource
+ *
+ * Azure addresses models by deployment name rather than model ID, pins the
+ * API version with a query parameter and authenticates with an `api-key`
+ * header. Prompts or completions blocked by Azure's content filters are
+ * raised as SynapseErrors listing the filtered categories.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  StructuredOutputMode,
+} from "./openai";
+import {
+  ChatMessage,
+  buildResponseFormat,
+  toOpenAIMessages,
+  toOpenAITools,
+  parseOpenAIToolCalls,
+  parseOpenAILogprobs,
+  parseServerSentEvents,
+  readOpenAIStream,
+  OpenAIStreamChunk,
+  fetchWithRetry,
+  toHttpOptions,
+  createProviderError,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import { resolveAttachments } from "./attachments";
+import { Errors } from "../errors";
+
+export interface AzureOpenAIConfig {
+  /** Azure OpenAI resource key */
+  apiKey: string;
+  /** Resource endpoint, e.g. https://my-resource.openai.azure.com */
+  endpoint: string;
+  /**
+   * Model to use, resolved to a deployment through `deployments`
+   * (default: gpt-4o-mini)
+   */
+  model?: string;
+  /** Deployment to call for `model` (overrides `deployments`) */
+  deployment?: string;
+  /** Deployment name per model, e.g. { "gpt-4o": "prod-gpt4o" } */
+  deployments?: Record<string, string>;
+  /** REST API version (default: 2024-10-21) */
+  apiVersion?: string;
+  /**
+   * Structured output support of the deployed model
+   * (default: "json_schema"; use "json_mode" for models before gpt-4o)
+   */
+  structuredOutput?: StructuredOutputMode;
+  /** Default inference options */
+  defaultOptions?: {
+    temperature?: number;
+    maxTokens?: number;
+  };
+}
+
+export interface AzureInferenceOptions extends InferenceOptions {
+  /** Model for this request, resolved through `deployments` */
+  model?: string;
+}
+
+/**
+ * An Azure OpenAI provider whose requests may pick another deployed model
+ */
+export interface AzureOpenAIProvider extends AIProvider {
+  inference(
+    prompt: string,
+    options?: AzureInferenceOptions
+  ): Promise<InferenceResponse>;
+  streamInference(
+    prompt: string,
+    options?: AzureInferenceOptions
+  ): AsyncIterable<StreamChunk>;
+  chat(
+    messages: ChatMessage[],
+    options?: AzureInferenceOptions
+  ): Promise<InferenceResponse>;
+  streamChat(
+    messages: ChatMessage[],
+    options?: AzureInferenceOptions
+  ): AsyncIterable<StreamChunk>;
+}
+
+const DEFAULT_API_VERSION = "2024-10-21";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+/**
+ * Per-category results attached to filtered prompts and completions
+ */
+type ContentFilterResults = Record<
+  string,
+  { filtered?: boolean; severity?: string; detected?: boolean }
+>;
+
+type AzureStreamChunk = OpenAIStreamChunk & {
+  choices?: Array<{ content_filter_results?: ContentFilterResults }>;
+};
+
+interface AzureErrorBody {
+  error?: {
+    code?: string;
+    innererror?: { content_filter_result?: ContentFilterResults };
+  };
+}
+
+/**
+ * Lists the categories that triggered the filter, e.g. "violence (high)"
+ */
+function filteredCategories(results: ContentFilterResults | undefined) {
+  return Object.entries(results ?? {})
+    .filter(([, result]) => result?.filtered)
+    .map(([category, result]) =>
+      result.severity ? `${category} (${result.severity})` : category
+    );
+}
+
+export function createAzureOpenAIProvider(
+  config: AzureOpenAIConfig
+): AzureOpenAIProvider {
+  const model = config.model || DEFAULT_MODEL;
+  const apiVersion = config.apiVersion || DEFAULT_API_VERSION;
+  const structuredOutput = config.structuredOutput ?? "json_schema";
+
+  /**
+   * Deployment serving `requestModel`; models without an entry in
+   * `deployments` are called through a deployment of the same name
+   */
+  function deploymentFor(requestModel: string): string {
+    if (requestModel === model && config.deployment) return config.deployment;
+    return config.deployments?.[requestModel] ?? requestModel;
+  }
+
+  async function post(
+    deployment: string,
+    messages: ChatMessage[],
+    options: InferenceOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
+
+    const response = await fetchWithRetry(
+      `${config.endpoint.replace(/\/$/, "")}/openai/deployments/` +
+        `${encodeURIComponent(deployment)}/chat/completions` +
+        `?api-version=${encodeURIComponent(apiVersion)}`,
+      {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": config.apiKey,
+        },
+        body: JSON.stringify({
+          messages: toOpenAIMessages(prepared),
+          temperature: mergedOptions.temperature ?? 0.7,
+          max_tokens: mergedOptions.maxTokens ?? 2048,
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            structuredOutput
+          ),
+          tools: toOpenAITools(options.tools),
+          logprobs: options.logprobs || undefined,
+          ...(stream && {
+            stream: true,
+            // Usage is only reported in streams when asked for
+            stream_options: { include_usage: true },
+          }),
+        }),
+      },
+      toHttpOptions("azure-openai", options)
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      throwIfPromptFiltered(body, messages, deployment);
+      throw createProviderError({
+        provider: "Azure OpenAI",
+        status: response.status,
+        body,
+        headers: response.headers,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Filtered prompts are rejected with a 400 whose error code is
+   * `content_filter` and whose inner error lists the categories
+   */
+  function throwIfPromptFiltered(
+    body: string,
+    messages: ChatMessage[],
+    deployment: string
+  ) {
+    let error: AzureErrorBody["error"];
+    try {
+      error = (JSON.parse(body) as AzureErrorBody).error;
+    } catch {
+      return;
+    }
+    if (error?.code !== "content_filter") return;
+
+    throw Errors.contentFiltered(
+      "Azure OpenAI",
+      filteredCategories(error.innererror?.content_filter_result),
+      {
+        prompt: messages[messages.length - 1]?.content,
+        modelId: deployment,
+      }
+    );
+  }
+
+  async function chat(
+    messages: ChatMessage[],
+    options: AzureInferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const requestModel = options.model ?? model;
+    const deployment = deploymentFor(requestModel);
+    const response = await post(deployment, messages, options, false);
+    const data = await response.json();
+    const choice = data.choices[0];
+
+    if (choice.finish_reason === "content_filter") {
+      throw Errors.contentFiltered(
+        "Azure OpenAI",
+        filteredCategories(choice.content_filter_results),
+        { response: choice.message?.content ?? "", modelId: deployment }
+      );
+    }
+
+    return {
+      content: choice.message.content ?? "",
+      model: requestModel,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+      toolCalls: parseOpenAIToolCalls(choice.message.tool_calls),
+      logprobs: parseOpenAILogprobs(choice.logprobs),
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: AzureInferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const deployment = deploymentFor(options.model ?? model);
+    const response = await post(deployment, messages, options, true);
+    let text = "";
+    let categories: string[] = [];
+
+    // Filter results arrive on the chunk that finishes the choice
+    async function* track(chunks: AsyncIterable<AzureStreamChunk>) {
+      for await (const chunk of chunks) {
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason === "content_filter") {
+          categories = filteredCategories(choice.content_filter_results);
+        }
+        yield chunk;
+      }
+    }
+
+    for await (const chunk of readOpenAIStream(
+      track(parseServerSentEvents<AzureStreamChunk>(response)),
+      "azure-openai"
+    )) {
+      if (chunk.finishReason === "content_filter") {
+        throw Errors.contentFiltered("Azure OpenAI", categories, {
+          response: text,
+          modelId: deployment,
+        });
+      }
+      text += chunk.text;
+      yield chunk;
+    }
+  }
+
+  return withInferenceTimeout({
+    name: "azure-openai",
+    model,
+    capabilities: {
+      structuredOutput,
+      tools: true,
+      attachments: true,
+      logprobs: true,
+    },
+
+    inference(
+      prompt: string,
+      options: AzureInferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return chat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    streamInference(
+      prompt: string,
+      options: AzureInferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    chat,
+    streamChat,
+  });
+}
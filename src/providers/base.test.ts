@@ -0,0 +1,534 @@
+/**
+ * Tests for the shared HTTP layer: retries, provider error mapping and
+ * tool call history
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  fetchWithRetry,
+  parseRetryAfter,
+  computeBackoff,
+  createProviderError,
+  fromSdkError,
+  parseToolArguments,
+  RetryEvent,
+} from "./base";
+import { createOpenAIProvider } from "./openai";
+import { createGeminiProvider } from "./gemini";
+import { SynapseError } from "../errors";
+import { createAbortError } from "../utils/abort";
+import { sentBody, sentHeaders, stubFetch } from "../test/stubHttp";
+
+const NO_JITTER = { initialDelayMs: 1, jitter: false };
+
+beforeEach(() => {
+  vi.spyOn(Math, "random").mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("reads Retry-After seconds, dates and retry-after-ms", () => {
+    expect(parseRetryAfter(new Headers({ "retry-after": "2" }), now)).toBe(
+      2000
+    );
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after": "Wed, 01 Jan 2025 00:00:05 GMT" }),
+        now
+      )
+    ).toBe(5000);
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after-ms": "150", "retry-after": "2" }),
+        now
+      )
+    ).toBe(150);
+  });
+
+  it("reads x-ratelimit-reset timestamps and durations", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({ "x-ratelimit-reset": String(now / 1000 + 3) }),
+        now
+      )
+    ).toBe(3000);
+    expect(
+      parseRetryAfter(
+        new Headers({
+          "x-ratelimit-remaining-requests": "10",
+          "x-ratelimit-reset-requests": "1s",
+          "x-ratelimit-remaining-tokens": "0",
+          "x-ratelimit-reset-tokens": "1m30s",
+        }),
+        now
+      )
+    ).toBe(90_000);
+    expect(
+      parseRetryAfter(
+        new Headers({ "x-ratelimit-reset-requests": "250ms" }),
+        now
+      )
+    ).toBe(250);
+  });
+
+  it("returns null without a usable header", () => {
+    expect(parseRetryAfter(new Headers(), now)).toBeNull();
+    expect(
+      parseRetryAfter(new Headers({ "retry-after": "soon" }), now)
+    ).toBeNull();
+  });
+});
+
+describe("computeBackoff", () => {
+  it("grows exponentially up to the maximum", () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 350, jitter: false };
+
+    expect(
+      [1, 2, 3, 4].map((attempt) => computeBackoff(attempt, policy))
+    ).toEqual([100, 200, 350, 350]);
+  });
+
+  it("jitters between half and the full delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoff(1, { initialDelayMs: 100 })).toBe(50);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  it("retries retryable statuses and reports each retry", async () => {
+    const fetchMock = stubFetch(
+      new Response("busy", { status: 503 }),
+      new Response("slow down", { status: 429 }),
+      new Response("ok")
+    );
+    const events: RetryEvent[] = [];
+
+    const response = await fetchWithRetry(
+      "https://api.test/v1",
+      { method: "POST" },
+      {
+        provider: "test",
+        idempotent: true,
+        retry: NO_JITTER,
+        onRetry: (event) => events.push(event),
+      }
+    );
+
+    expect(await response.text()).toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(events).toEqual([
+      { provider: "test", attempt: 1, maxRetries: 2, delayMs: 1, status: 503 },
+      { provider: "test", attempt: 2, maxRetries: 2, delayMs: 2, status: 429 },
+    ]);
+  });
+
+  it("returns the last response once retries are exhausted", async () => {
+    stubFetch(
+      new Response("a", { status: 500 }),
+      new Response("b", { status: 502 })
+    );
+
+    const response = await fetchWithRetry(
+      "https://api.test/v1",
+      {},
+      { provider: "test", retry: { ...NO_JITTER, maxRetries: 1 } }
+    );
+
+    expect(response.status).toBe(502);
+  });
+
+  it("does not retry client errors or disabled policies", async () => {
+    const fetchMock = stubFetch(
+      new Response("bad", { status: 400 }),
+      new Response("busy", { status: 503 })
+    );
+
+    expect(
+      (await fetchWithRetry("https://api.test", {}, { provider: "test" }))
+        .status
+    ).toBe(400);
+    expect(
+      (
+        await fetchWithRetry(
+          "https://api.test",
+          {},
+          { provider: "test", retry: false }
+        )
+      ).status
+    ).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("only retries non-idempotent requests on 429", async () => {
+    const fetchMock = stubFetch(
+      new Response("busy", { status: 503 }),
+      new Response("slow down", { status: 429 }),
+      new Response("ok")
+    );
+
+    const first = await fetchWithRetry(
+      "https://api.test",
+      { method: "POST" },
+      { provider: "test", retry: NO_JITTER }
+    );
+    const second = await fetchWithRetry(
+      "https://api.test",
+      { method: "POST" },
+      { provider: "test", retry: NO_JITTER }
+    );
+
+    expect(first.status).toBe(503);
+    expect(second.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("sends the same idempotency key on every attempt", async () => {
+    const fetchMock = stubFetch(new Response("busy", { status: 503 }));
+
+    await fetchWithRetry(
+      "https://api.test",
+      { method: "POST", headers: { "X-Test": "1" } },
+      {
+        provider: "test",
+        retry: { ...NO_JITTER, idempotencyHeader: "Idempotency-Key" },
+      }
+    );
+
+    const keys = fetchMock.mock.calls.map((_, call) =>
+      sentHeaders(fetchMock, call).get("Idempotency-Key")
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(keys[0]).toEqual(expect.any(String));
+    expect(keys[1]).toBe(keys[0]);
+    expect(sentHeaders(fetchMock).get("X-Test")).toBe("1");
+  });
+
+  it("waits as long as Retry-After asks, within the maximum delay", async () => {
+    stubFetch(
+      new Response("", { status: 429, headers: { "retry-after-ms": "5" } }),
+      new Response("", { status: 429, headers: { "retry-after": "60" } })
+    );
+    const events: RetryEvent[] = [];
+
+    const response = await fetchWithRetry(
+      "https://api.test",
+      {},
+      { provider: "test", onRetry: (event) => events.push(event) }
+    );
+
+    // The second response asks for more than maxDelayMs, so it is returned
+    expect(response.status).toBe(429);
+    expect(events.map((event) => event.delayMs)).toEqual([5]);
+  });
+
+  it("retries network errors and rethrows the last one", async () => {
+    stubFetch(null, null);
+    const onRetry = vi.fn();
+
+    await expect(
+      fetchWithRetry(
+        "https://api.test",
+        {},
+        { provider: "test", retry: { ...NO_JITTER, maxRetries: 1 }, onRetry }
+      )
+    ).rejects.toThrow("fetch failed");
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, error: expect.any(TypeError) })
+    );
+  });
+
+  it("stops waiting when the request is aborted", async () => {
+    stubFetch(
+      new Response("", { status: 503, headers: { "retry-after": "10" } })
+    );
+    const controller = new AbortController();
+
+    const pending = fetchWithRetry(
+      "https://api.test",
+      { signal: controller.signal },
+      { provider: "test", onRetry: () => controller.abort() }
+    );
+
+    await expect(pending).rejects.toMatchObject({
+      name: "AbortError",
+      code: "ABORTED",
+    });
+  });
+
+  it("reports aborted requests as ABORTED", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new DOMException("This operation was aborted", "AbortError");
+      })
+    );
+
+    const error = await fetchWithRetry(
+      "https://api.test",
+      {},
+      { provider: "test" }
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error).toMatchObject({ name: "AbortError", code: "ABORTED" });
+  });
+});
+
+describe("provider errors", () => {
+  it("retries rate-limited completions before reporting an error", async () => {
+    const fetchMock = stubFetch(
+      new Response("", { status: 429, headers: { "retry-after-ms": "1" } }),
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: "Hello" }, finish_reason: "stop" }],
+        })
+      )
+    );
+    const onRetry = vi.fn();
+
+    const response = await createOpenAIProvider({ apiKey: "key" }).inference(
+      "Hi",
+      { onRetry }
+    );
+
+    expect(response.content).toBe("Hello");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "openai", status: 429 })
+    );
+  });
+
+  it("throws typed errors once retries are exhausted", async () => {
+    stubFetch(
+      new Response(
+        JSON.stringify({
+          error: {
+            message: "Incorrect API key provided",
+            code: "invalid_api_key",
+          },
+        }),
+        { status: 401 }
+      )
+    );
+
+    await expect(
+      createOpenAIProvider({ apiKey: "bad" }).inference("Hi")
+    ).rejects.toMatchObject({
+      code: "AUTH_FAILED",
+      recoverable: false,
+      debugInfo: { provider: "OpenAI", status: 401 },
+    });
+  });
+});
+
+describe("createProviderError", () => {
+  it("maps vendor error codes and types", () => {
+    const cases: Array<[number, unknown, string]> = [
+      [
+        429,
+        { error: { type: "insufficient_quota", code: "insufficient_quota" } },
+        "QUOTA_EXCEEDED",
+      ],
+      [
+        400,
+        { error: { code: "context_length_exceeded", message: "too long" } },
+        "CONTEXT_LENGTH_EXCEEDED",
+      ],
+      [
+        529,
+        { type: "error", error: { type: "overloaded_error" } },
+        "PROVIDER_UNAVAILABLE",
+      ],
+      [
+        403,
+        { error: { code: 403, status: "PERMISSION_DENIED" } },
+        "AUTH_FAILED",
+      ],
+    ];
+
+    for (const [status, body, code] of cases) {
+      expect(
+        createProviderError({
+          provider: "X",
+          status,
+          body: JSON.stringify(body),
+        }).code
+      ).toBe(code);
+    }
+  });
+
+  it("recognizes failures reported under generic codes", () => {
+    const anthropic = createProviderError({
+      provider: "Anthropic",
+      status: 400,
+      body: JSON.stringify({
+        type: "error",
+        error: {
+          type: "invalid_request_error",
+          message: "prompt is too long: 210000 tokens > 200000 maximum",
+        },
+      }),
+    });
+    const gemini = createProviderError({
+      provider: "Gemini",
+      status: 400,
+      body: JSON.stringify({
+        error: {
+          code: 400,
+          message: "API key not valid. Please pass a valid API key.",
+          status: "INVALID_ARGUMENT",
+        },
+      }),
+    });
+
+    expect(anthropic.code).toBe("CONTEXT_LENGTH_EXCEEDED");
+    expect(anthropic.message).toBe(
+      "Anthropic API error: 400 - prompt is too long: 210000 tokens > 200000 maximum"
+    );
+    expect(anthropic.debugInfo.providerCode).toBe("invalid_request_error");
+    expect(gemini.code).toBe("AUTH_FAILED");
+    expect(gemini.recoverable).toBe(false);
+  });
+
+  it("falls back to the HTTP status", () => {
+    const codes = [401, 402, 404, 413, 429, 503].map(
+      (status) =>
+        createProviderError({ provider: "X", status, body: "oops" }).code
+    );
+
+    expect(codes).toEqual([
+      "AUTH_FAILED",
+      "QUOTA_EXCEEDED",
+      "INVALID_REQUEST",
+      "CONTEXT_LENGTH_EXCEEDED",
+      "RATE_LIMITED",
+      "PROVIDER_UNAVAILABLE",
+    ]);
+  });
+
+  it("suggests when to retry rate-limited requests", () => {
+    const error = createProviderError({
+      provider: "OpenAI",
+      status: 429,
+      body: JSON.stringify({
+        error: { code: "rate_limit_exceeded", message: "Slow down" },
+      }),
+      headers: new Headers({ "retry-after": "20" }),
+    });
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.message).toBe("OpenAI API error: 429 - Slow down");
+    expect(error.recoverable).toBe(true);
+    expect(error.suggestion).toBe("Rate limited by OpenAI. Try again in 20s.");
+    expect(error.debugInfo).toMatchObject({
+      provider: "OpenAI",
+      status: 429,
+      providerCode: "rate_limit_exceeded",
+      retryAfterMs: 20_000,
+    });
+  });
+
+  it("maps plain-string error bodies", () => {
+    const error = createProviderError({
+      provider: "Ollama",
+      body: { error: "model 'llama9' not found, try pulling it first" },
+    });
+
+    expect(error.message).toBe(
+      "Ollama API error: model 'llama9' not found, try pulling it first"
+    );
+    expect(error.code).toBe("PROVIDER_UNAVAILABLE");
+  });
+});
+
+describe("fromSdkError", () => {
+  it("maps SDK errors by status and body", () => {
+    const sdkError = Object.assign(new Error("401 Invalid API Key"), {
+      status: 401,
+      error: { error: { message: "Invalid API Key", code: "invalid_api_key" } },
+      headers: { "x-request-id": "req_1" },
+    });
+
+    const error = fromSdkError(sdkError, "Groq") as SynapseError;
+
+    expect(error.code).toBe("AUTH_FAILED");
+    expect(error.message).toBe("Groq API error: 401 - Invalid API Key");
+    expect(error.originalCause).toBe(sdkError);
+  });
+
+  it("reports SDK aborts as ABORTED and leaves network errors alone", () => {
+    const controller = new AbortController();
+    controller.abort();
+    const network = new TypeError("fetch failed");
+
+    expect(
+      fromSdkError(new Error("Request was aborted."), "Groq", controller.signal)
+    ).toMatchObject({ code: "ABORTED" });
+    // Without the signal at hand, e.g. an abort of the SDK's own fetch
+    expect(fromSdkError(createAbortError(), "Groq")).toMatchObject({
+      code: "ABORTED",
+      name: "AbortError",
+    });
+    expect(fromSdkError(network, "Groq")).toBe(network);
+  });
+});
+
+describe("tool call history", () => {
+  it("parses tool arguments without failing on malformed JSON", () => {
+    expect(parseToolArguments('{"a":1}')).toEqual({ a: 1 });
+    expect(parseToolArguments("")).toEqual({});
+    expect(parseToolArguments('{"a":')).toEqual({});
+    expect(parseToolArguments("[1]")).toEqual({});
+  });
+
+  it("sends parallel Gemini tool results in one user turn", async () => {
+    const fetchMock = stubFetch(
+      new Response(
+        JSON.stringify({
+          candidates: [{ content: { parts: [{ text: "3" }] } }],
+        })
+      )
+    );
+    const provider = createGeminiProvider({ apiKey: "key" });
+
+    await provider.chat!([
+      { role: "user", content: "Add and multiply" },
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [
+          { id: "1", name: "add", arguments: '{"a":1,"b":2}' },
+          { id: "2", name: "multiply", arguments: '{"a":' },
+        ],
+      },
+      { role: "tool", name: "add", toolCallId: "1", content: "3" },
+      { role: "tool", name: "multiply", toolCallId: "2", content: "2" },
+    ]);
+
+    const { contents } = sentBody(fetchMock);
+    expect(contents?.slice(1)).toEqual([
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "add", args: { a: 1, b: 2 } } },
+          { functionCall: { name: "multiply", args: {} } },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "add", response: { result: "3" } } },
+          {
+            functionResponse: { name: "multiply", response: { result: "2" } },
+          },
+        ],
+      },
+    ]);
+  });
+});
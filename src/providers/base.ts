@@ -5,11 +5,32 @@
  * New providers can be added by creating a factory function.
  */
 
+import { ZodSchema } from "zod";
+import type {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  ProviderCapabilities,
+  StructuredOutputMode,
+  StreamChunk,
+  ToolCallDelta,
+  TokenLogprob,
+} from "./openai";
+import { zodToJsonSchema, JsonSchema } from "../compiler/jsonSchema";
+import type { AnyToolDefinition, ToolCall } from "../tools/types";
+import { abortableDelay, isAbortError } from "../utils/abort";
+import { SynapseError, SynapseErrorCode, Errors } from "../errors";
+import { ContentPart, attachmentSource } from "./attachments";
+
 // Re-export the core interface
 export {
   type AIProvider,
   type InferenceOptions,
   type InferenceResponse,
+  type ProviderCapabilities,
+  type StructuredOutputMode,
+  type StreamChunk,
+  type ToolCallDelta,
 } from "./openai";
 
 /**
@@ -17,10 +38,13 @@ export {
  */
 export type ProviderType =
   | "openai"
+  | "azure-openai"
   | "anthropic"
   | "gemini"
   | "groq"
   | "cerebras"
+  | "ollama"
+  | "openai-compatible"
   | "transformers"
   | "mock";
 
@@ -53,8 +77,333 @@ export interface CloudProviderConfig {
  * Request/response format for chat completions
  */
 export interface ChatMessage {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: ToolCall[];
+  /** For `tool` messages: the ID of the call being answered */
+  toolCallId?: string;
+  /** For `tool` messages: the name of the tool that ran */
+  name?: string;
+  /**
+   * Images or documents sent with a user message. Only providers with
+   * `capabilities.attachments` send them.
+   */
+  attachments?: ContentPart[];
+}
+
+/**
+ * OpenAI wire format for chat messages (also used by Groq and Cerebras)
+ */
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename?: string; file_data: string } };
+
+export interface OpenAIChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: Array<{
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+  }>;
+  tool_call_id?: string;
+}
+
+export interface OpenAITool {
+  type: "function";
+  function: { name: string; description: string; parameters: JsonSchema };
+}
+
+/**
+ * Maps chat messages (including tool calls/results) to the OpenAI format
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): OpenAIChatMessage[] {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return {
+        role: "tool",
+        content: message.content,
+        tool_call_id: message.toolCallId,
+      };
+    }
+
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    if (message.attachments && message.attachments.length > 0) {
+      return {
+        role: message.role,
+        content: [
+          { type: "text", text: message.content },
+          ...message.attachments.map(toOpenAIContentPart),
+        ],
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Images become `image_url` parts (data URL or link); documents are sent
+ * inline as `file` parts, since links to files are not accepted
+ */
+function toOpenAIContentPart(part: ContentPart): OpenAIContentPart {
+  const source = attachmentSource(part);
+  // Resolved parts hold a data URL or a link, which OpenAI takes as is
+  const url = part.data as string;
+
+  if (part.type === "image") {
+    return { type: "image_url", image_url: { url } };
+  }
+  if (source.kind === "url") {
+    throw Errors.attachmentRejected(
+      part.name ?? part.type,
+      "OpenAI only accepts documents as files or data URLs"
+    );
+  }
+  return { type: "file", file: { filename: part.name, file_data: url } };
+}
+
+/**
+ * Maps tool definitions to OpenAI function tools
+ */
+export function toOpenAITools(
+  tools: AnyToolDefinition[] | undefined
+): OpenAITool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: zodToJsonSchema(tool.inputSchema),
+    },
+  }));
+}
+
+/**
+ * Reads tool calls from an OpenAI-format response message
+ */
+export function parseOpenAIToolCalls(
+  toolCalls: OpenAIChatMessage["tool_calls"] | undefined
+): ToolCall[] | undefined {
+  if (!toolCalls || toolCalls.length === 0) return undefined;
+
+  return toolCalls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments,
+  }));
+}
+
+/**
+ * Parses a tool call's JSON arguments for APIs that take them as an
+ * object. Malformed or non-object arguments (a model can produce either)
+ * become an empty object rather than failing the whole request.
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(args || "{}");
+    return parsed !== null &&
+      typeof parsed === "object" &&
+      !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * `logprobs` of an OpenAI-format choice (or stream delta)
+ */
+export interface OpenAILogprobs {
+  content?: Array<{ token: string; logprob: number }> | null;
+}
+
+/**
+ * Reads token log probabilities from an OpenAI-format choice
+ */
+export function parseOpenAILogprobs(
+  logprobs: OpenAILogprobs | null | undefined
+): TokenLogprob[] | undefined {
+  if (!logprobs?.content || logprobs.content.length === 0) return undefined;
+
+  return logprobs.content.map(({ token, logprob }) => ({ token, logprob }));
+}
+
+/**
+ * Flattens chat messages into a single prompt for backends without
+ * native role support (e.g. local text-generation pipelines)
+ */
+export function messagesToPrompt(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => `${message.role.toUpperCase()}:\n${message.content}`)
+    .join("\n\n");
+}
+
+/**
+ * Sends messages through `provider.chat`, falling back to a flattened
+ * prompt for providers that only implement `inference`
+ */
+export function chatWithProvider(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  options?: InferenceOptions
+): Promise<InferenceResponse> {
+  if (provider.chat) {
+    return provider.chat(messages, options);
+  }
+  return provider.inference(messagesToPrompt(messages), options);
+}
+
+/**
+ * Streaming counterpart of `chatWithProvider`. Returns null when the
+ * provider cannot stream at all.
+ */
+export function streamChatWithProvider(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  options?: InferenceOptions
+): AsyncIterable<StreamChunk> | null {
+  if (provider.streamChat) {
+    return provider.streamChat(messages, options);
+  }
+  if (provider.streamInference) {
+    return provider.streamInference(messagesToPrompt(messages), options);
+  }
+  return null;
+}
+
+/**
+ * Like `streamChatWithProvider`, but providers that cannot stream are
+ * called once and their response is yielded as a text chunk followed by
+ * the final chunk
+ */
+export async function* streamOrChatWithProvider(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  options?: InferenceOptions
+): AsyncIterable<StreamChunk> {
+  const stream = streamChatWithProvider(provider, messages, options);
+  if (stream) {
+    yield* stream;
+    return;
+  }
+
+  const response = await chatWithProvider(provider, messages, options);
+  const name = response.provider ?? provider.name;
+  yield { text: response.content, role: "assistant", provider: name };
+  yield {
+    text: "",
+    role: "assistant",
+    finishReason: response.finishReason ?? "stop",
+    usage: response.usage,
+    provider: name,
+  };
+}
+
+/**
+ * Plain-text view of a chunk stream, for code that only needs the tokens
+ *
+ * @example
+ * ```ts
+ * for await (const text of toTextStream(provider.streamInference!(prompt))) {
+ *   output += text;
+ * }
+ * ```
+ */
+export async function* toTextStream(
+  chunks: AsyncIterable<StreamChunk>
+): AsyncIterable<string> {
+  for await (const chunk of chunks) {
+    if (chunk.text) yield chunk.text;
+  }
+}
+
+/**
+ * Whether a provider constrains output to `responseSchema` natively
+ */
+export function supportsStructuredOutput(provider: AIProvider): boolean {
+  return (provider.capabilities?.structuredOutput ?? "none") !== "none";
+}
+
+/**
+ * Capabilities every one of `providers` has, for composite providers that
+ * may send a request to any of them. Providers that constrain output in
+ * different ways only share `json_mode`.
+ */
+export function intersectCapabilities(
+  providers: AIProvider[]
+): ProviderCapabilities {
+  const all = providers.map(
+    (provider) => provider.capabilities ?? { structuredOutput: "none" as const }
+  );
+  const modes = new Set(
+    all.map((capabilities) => capabilities.structuredOutput)
+  );
+
+  return {
+    structuredOutput: modes.has("none")
+      ? "none"
+      : modes.size === 1
+        ? all[0].structuredOutput
+        : "json_mode",
+    tools: all.every((capabilities) => !!capabilities.tools),
+    attachments: all.every((capabilities) => !!capabilities.attachments),
+    logprobs: all.every((capabilities) => !!capabilities.logprobs),
+  };
+}
+
+/**
+ * Copies a provider for a wrapper to override its methods. Descriptors are
+ * copied rather than spread so getters (e.g. a probed provider's
+ * `capabilities`) stay live.
+ */
+export function copyProvider<P extends AIProvider>(provider: P): P {
+  return Object.defineProperties(
+    {},
+    Object.getOwnPropertyDescriptors(provider)
+  ) as P;
+}
+
+/**
+ * Builds an OpenAI-style `response_format` for a schema. Returns undefined
+ * when there is no schema, the mode is unsupported, or the schema root is
+ * not an object (both JSON modes only constrain top-level objects).
+ */
+export function buildResponseFormat(
+  schema: ZodSchema<unknown> | undefined,
+  mode: StructuredOutputMode
+): ChatCompletionRequest["response_format"] {
+  if (!schema || (mode !== "json_schema" && mode !== "json_mode")) {
+    return undefined;
+  }
+
+  const jsonSchema = zodToJsonSchema(schema);
+  if (jsonSchema.type !== "object") return undefined;
+
+  if (mode === "json_mode") {
+    return { type: "json_object" };
+  }
+
+  return {
+    type: "json_schema",
+    json_schema: { name: "response", schema: jsonSchema, strict: false },
+  };
 }
 
 export interface ChatCompletionRequest {
@@ -63,6 +412,12 @@ export interface ChatCompletionRequest {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  response_format?:
+    | { type: "json_object" }
+    | {
+        type: "json_schema";
+        json_schema: { name: string; schema: JsonSchema; strict?: boolean };
+      };
 }
 
 export interface ChatCompletionResponse {
@@ -79,26 +434,490 @@ export interface ChatCompletionResponse {
   };
 }
 
+// ============================================
+// HTTP layer (retries)
+// ============================================
+
+/**
+ * How transient HTTP failures are retried. Delays grow exponentially
+ * from `initialDelayMs`; a `Retry-After` or rate-limit reset header from
+ * the server takes precedence.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: 2) */
+  maxRetries?: number;
+  /** Delay before the first retry (default: 500) */
+  initialDelayMs?: number;
+  /** Longest delay; a server asking for more is not retried (default: 30000) */
+  maxDelayMs?: number;
+  /** Growth factor between retries (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize each delay between 50% and 100% (default: true) */
+  jitter?: boolean;
+  /** Statuses worth retrying (default: 408, 429, 500, 502, 503, 504, 529) */
+  retryOn?: number[];
+  /**
+   * Header carrying a key that stays the same across retries, for servers
+   * or proxies that deduplicate requests (e.g. "Idempotency-Key")
+   */
+  idempotencyHeader?: string;
+}
+
+/**
+ * Emitted before a failed request is retried
+ */
+export interface RetryEvent {
+  provider: string;
+  /** Retry number, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  /** HTTP status of the failed attempt (absent for network errors) */
+  status?: number;
+  error?: unknown;
+}
+
+export interface HttpRequestOptions {
+  /** Provider name reported in retry events */
+  provider: string;
+  retry?: RetryPolicy | false;
+  onRetry?: (event: RetryEvent) => void;
+  /**
+   * Whether repeating the request is safe (default: true for GET, HEAD,
+   * PUT and DELETE). Other requests are only retried on 429, which means
+   * the server did not process them, unless an idempotency key is sent.
+   */
+  idempotent?: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<
+  Omit<RetryPolicy, "idempotencyHeader">
+> = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504, 529],
+};
+
+/**
+ * HTTP options for a completion request made with `options`. Completions
+ * have no side effects, so they are safe to repeat.
+ */
+export function toHttpOptions(
+  provider: string,
+  options: Pick<InferenceOptions, "retry" | "onRetry">
+): HttpRequestOptions {
+  return {
+    provider,
+    retry: options.retry,
+    onRetry: options.onRetry,
+    idempotent: true,
+  };
+}
+
+/**
+ * Request options for vendor SDKs (Groq, Cerebras), which run their own
+ * retry loop. Only `maxRetries` carries over; `onRetry` is not called.
+ */
+export function toSdkRequestOptions(
+  options: Pick<InferenceOptions, "signal" | "retry">
+): { signal?: AbortSignal; maxRetries?: number } {
+  return {
+    signal: options.signal,
+    maxRetries: options.retry === false ? 0 : options.retry?.maxRetries,
+  };
+}
+
+/**
+ * Parses a rate-limit reset value: seconds, a Unix timestamp, a duration
+ * such as "1m30s" or "250ms", or a date
+ */
+function parseResetValue(value: string, now: number): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const seconds = Number(value);
+    // Large values are timestamps rather than delays
+    return seconds > 1e9 ? seconds * 1000 - now : seconds * 1000;
+  }
+
+  const duration =
+    /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/.exec(
+      value
+    );
+  if (duration && value) {
+    const [, hours = 0, minutes = 0, seconds = 0, millis = 0] = duration;
+    return (
+      Number(hours) * 3_600_000 +
+      Number(minutes) * 60_000 +
+      Number(seconds) * 1000 +
+      Number(millis)
+    );
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date - now;
+}
+
+/**
+ * Reads how long the server asks clients to wait, in milliseconds.
+ * Checks `retry-after-ms`, `Retry-After` (seconds or HTTP date) and the
+ * `x-ratelimit-reset` family. Returns null when no header is usable.
+ */
+export function parseRetryAfter(
+  headers: Headers,
+  now = Date.now()
+): number | null {
+  const candidates: Array<string | null> = [
+    headers.get("retry-after-ms") && `${headers.get("retry-after-ms")}ms`,
+    headers.get("retry-after"),
+    headers.get("x-ratelimit-reset"),
+  ];
+
+  // OpenAI-style limits: use the reset of the limit that ran out
+  const exhausted = ["requests", "tokens"].filter(
+    (limit) => headers.get(`x-ratelimit-remaining-${limit}`) === "0"
+  );
+  for (const limit of exhausted.length > 0 ? exhausted : ["requests"]) {
+    candidates.push(headers.get(`x-ratelimit-reset-${limit}`));
+  }
+
+  for (const value of candidates) {
+    if (!value) continue;
+    const delay = parseResetValue(value.trim(), now);
+    if (delay !== null) return Math.max(0, delay);
+  }
+  return null;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based) under `policy`
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy = {}
+): number {
+  const { initialDelayMs, maxDelayMs, backoffMultiplier, jitter } = {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+  };
+  const delay = Math.min(
+    maxDelayMs,
+    initialDelayMs * backoffMultiplier ** (attempt - 1)
+  );
+  return jitter ? delay * (0.5 + Math.random() / 2) : delay;
+}
+
+function createIdempotencyKey(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * `fetch` with retries for transient failures. Resolves with the last
+ * response (which may not be OK) so callers keep their own error
+ * messages; network errors are rethrown once retries are exhausted.
+ * Aborting the signal cancels any pending delay; aborts reject with an
+ * ABORTED SynapseError.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: HttpRequestOptions
+): Promise<Response> {
+  const policy =
+    options.retry === false
+      ? { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }
+      : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const method = (init.method ?? "GET").toUpperCase();
+
+  let headers = init.headers;
+  if (policy.idempotencyHeader) {
+    headers = {
+      ...(init.headers as Record<string, string>),
+      [policy.idempotencyHeader]: createIdempotencyKey(),
+    };
+  }
+
+  const idempotent =
+    options.idempotent ??
+    (!!policy.idempotencyHeader ||
+      ["GET", "HEAD", "PUT", "DELETE"].includes(method));
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null;
+    let error: unknown;
+
+    try {
+      response = await fetch(url, { ...init, headers });
+    } catch (caught) {
+      if (isAbortError(caught)) throw Errors.aborted(caught as Error);
+      error = caught;
+    }
+
+    const status = response?.status;
+    const retryable = response
+      ? !response.ok &&
+        policy.retryOn.includes(response.status) &&
+        (idempotent || response.status === 429)
+      : idempotent;
+
+    const serverDelay = response ? parseRetryAfter(response.headers) : null;
+    const delayMs = serverDelay ?? computeBackoff(attempt, policy);
+
+    if (
+      !retryable ||
+      attempt > policy.maxRetries ||
+      delayMs > policy.maxDelayMs
+    ) {
+      if (response) return response;
+      throw error;
+    }
+
+    options.onRetry?.({
+      provider: options.provider,
+      attempt,
+      maxRetries: policy.maxRetries,
+      delayMs,
+      ...(status !== undefined ? { status } : { error }),
+    });
+
+    // Release the failed response before waiting
+    await response?.body?.cancel().catch(() => {});
+    await abortableDelay(delayMs, init.signal ?? undefined).catch(
+      (caught: Error) => {
+        throw Errors.aborted(caught);
+      }
+    );
+  }
+}
+
+// ============================================
+// Provider errors
+// ============================================
+
+/**
+ * Vendor error codes and types that say more than the HTTP status:
+ * OpenAI-style `code`/`type`, Anthropic `error.type` and Gemini `status`
+ */
+const VENDOR_ERROR_CODES: Record<string, SynapseErrorCode> = {
+  // OpenAI, Azure OpenAI, Groq, Cerebras and compatible servers
+  invalid_api_key: "AUTH_FAILED",
+  insufficient_quota: "QUOTA_EXCEEDED",
+  billing_hard_limit_reached: "QUOTA_EXCEEDED",
+  rate_limit_exceeded: "RATE_LIMITED",
+  context_length_exceeded: "CONTEXT_LENGTH_EXCEEDED",
+  content_filter: "CONTENT_FILTERED",
+  content_policy_violation: "CONTENT_FILTERED",
+  // Anthropic
+  authentication_error: "AUTH_FAILED",
+  permission_error: "AUTH_FAILED",
+  rate_limit_error: "RATE_LIMITED",
+  overloaded_error: "PROVIDER_UNAVAILABLE",
+  api_error: "PROVIDER_UNAVAILABLE",
+  request_too_large: "CONTEXT_LENGTH_EXCEEDED",
+  // Gemini
+  UNAUTHENTICATED: "AUTH_FAILED",
+  PERMISSION_DENIED: "AUTH_FAILED",
+  RESOURCE_EXHAUSTED: "RATE_LIMITED",
+  UNAVAILABLE: "PROVIDER_UNAVAILABLE",
+  INTERNAL: "PROVIDER_UNAVAILABLE",
+  DEADLINE_EXCEEDED: "INFERENCE_TIMEOUT",
+};
+
+/**
+ * Messages that identify a failure reported under a generic code, such as
+ * Anthropic's "prompt is too long" or Gemini's "API key not valid"
+ */
+const ERROR_MESSAGE_PATTERNS: Array<[RegExp, SynapseErrorCode]> = [
+  [/api key not valid|invalid api key|incorrect api key/i, "AUTH_FAILED"],
+  [/credit balance|exceeded your current quota|billing/i, "QUOTA_EXCEEDED"],
+  [
+    /context (length|window|size)|prompt is too long|maximum number of tokens|too many tokens/i,
+    "CONTEXT_LENGTH_EXCEEDED",
+  ],
+];
+
+function codeForStatus(status: number | undefined): SynapseErrorCode {
+  if (status === 401 || status === 403) return "AUTH_FAILED";
+  if (status === 402) return "QUOTA_EXCEEDED";
+  if (status === 408) return "INFERENCE_TIMEOUT";
+  if (status === 413) return "CONTEXT_LENGTH_EXCEEDED";
+  if (status === 429) return "RATE_LIMITED";
+  if (status === undefined || status >= 500) return "PROVIDER_UNAVAILABLE";
+  return "INVALID_REQUEST";
+}
+
+/**
+ * Pulls the message and vendor codes out of an error body. Handles
+ * `{ error: { message, code, type, status } }`, `{ error: "..." }` and
+ * flat `{ message, code }` bodies.
+ */
+function parseErrorBody(body: unknown): {
+  message?: string;
+  codes: string[];
+} {
+  let parsed = body;
+  if (typeof body === "string") {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return { message: body.trim() || undefined, codes: [] };
+    }
+  }
+  if (typeof parsed !== "object" || parsed === null) return { codes: [] };
+
+  const outer = parsed as Record<string, unknown>;
+  if (typeof outer.error === "string") {
+    return { message: outer.error, codes: [] };
+  }
+  const error =
+    typeof outer.error === "object" && outer.error !== null
+      ? (outer.error as Record<string, unknown>)
+      : outer;
+  const message = error.message ?? outer.detail;
+
+  return {
+    message: typeof message === "string" ? message : undefined,
+    codes: [error.code, error.type, error.status].filter(
+      (code): code is string => typeof code === "string"
+    ),
+  };
+}
+
+export interface ProviderErrorInit {
+  /** Provider label used in the message, e.g. "OpenAI" */
+  provider: string;
+  /** HTTP status (absent for errors reported mid-stream) */
+  status?: number;
+  /** Error body, raw or parsed */
+  body?: unknown;
+  headers?: Headers;
+  cause?: Error;
+}
+
+/**
+ * Maps a provider failure to a SynapseError. Vendor codes win over message
+ * patterns, which win over the HTTP status. The message keeps the
+ * "<Provider> API error: <status> - <detail>" format.
+ */
+export function createProviderError(init: ProviderErrorInit): SynapseError {
+  const { message, codes } = parseErrorBody(init.body);
+  const vendorCode = codes.find((code) =>
+    Object.prototype.hasOwnProperty.call(VENDOR_ERROR_CODES, code)
+  );
+  const code =
+    (vendorCode ? VENDOR_ERROR_CODES[vendorCode] : undefined) ??
+    ERROR_MESSAGE_PATTERNS.find(([pattern]) =>
+      pattern.test(message ?? "")
+    )?.[1] ??
+    codeForStatus(init.status);
+
+  const retryAfterMs = init.headers
+    ? (parseRetryAfter(init.headers) ?? undefined)
+    : undefined;
+  const status = init.status !== undefined ? `${init.status} - ` : "";
+  const raw =
+    typeof init.body === "string" ? init.body : JSON.stringify(init.body);
+
+  return new SynapseError(
+    code,
+    `${init.provider} API error: ${status}${message ?? "unknown error"}`,
+    {
+      suggestion:
+        code === "RATE_LIMITED" && retryAfterMs !== undefined
+          ? `Rate limited by ${init.provider}. Try again in ${Math.ceil(
+              retryAfterMs / 1000
+            )}s.`
+          : undefined,
+      debugInfo: {
+        provider: init.provider,
+        status: init.status,
+        providerCode: vendorCode ?? codes[0],
+        response: raw,
+        retryAfterMs,
+      },
+      cause: init.cause,
+    }
+  );
+}
+
+/**
+ * Reads a failed response into a SynapseError (see `createProviderError`)
+ */
+export async function readProviderError(
+  response: Response,
+  provider: string
+): Promise<SynapseError> {
+  return createProviderError({
+    provider,
+    status: response.status,
+    body: await response.text(),
+    headers: response.headers,
+  });
+}
+
+/**
+ * Maps an error thrown by a vendor SDK (Groq, Cerebras), which carries
+ * `status`, the parsed body in `error` and the response `headers`.
+ * Aborts become ABORTED errors, as in `fetchWithRetry`; errors without a
+ * status (network failures) are returned unchanged.
+ */
+export function fromSdkError(
+  error: unknown,
+  provider: string,
+  signal?: AbortSignal
+): unknown {
+  if (error instanceof SynapseError) return error;
+  // SDKs raise their own error type when the signal aborts the request
+  if (isAbortError(error) || signal?.aborted) {
+    return Errors.aborted(error as Error);
+  }
+
+  const sdkError = error as Error & {
+    status?: unknown;
+    error?: unknown;
+    headers?: HeadersInit;
+  };
+  if (typeof sdkError?.status !== "number") return error;
+
+  return createProviderError({
+    provider,
+    status: sdkError.status,
+    body: sdkError.error ?? sdkError.message,
+    headers: sdkError.headers ? new Headers(sdkError.headers) : undefined,
+    cause: sdkError,
+  });
+}
+
 /**
  * Helper to create a provider from a fetch-based API
  */
 export async function fetchChatCompletion(
   url: string,
   headers: Record<string, string>,
-  body: ChatCompletionRequest
+  body: ChatCompletionRequest,
+  signal?: AbortSignal,
+  provider = "openai",
+  options: Pick<InferenceOptions, "retry" | "onRetry"> = {}
 ): Promise<ChatCompletionResponse> {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...headers,
+  const response = await fetchWithRetry(
+    url,
+    {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify(body),
     },
-    body: JSON.stringify(body),
-  });
+    toHttpOptions(provider, options)
+  );
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${response.status} - ${error}`);
+    throw await readProviderError(response, provider);
   }
 
   return response.json();
@@ -110,22 +929,107 @@ export async function fetchChatCompletion(
 export async function* streamChatCompletion(
   url: string,
   headers: Record<string, string>,
-  body: ChatCompletionRequest
-): AsyncIterable<string> {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...headers,
+  body: ChatCompletionRequest,
+  signal?: AbortSignal,
+  provider = "openai",
+  options: Pick<InferenceOptions, "retry" | "onRetry"> = {}
+): AsyncIterable<StreamChunk> {
+  const response = await fetchWithRetry(
+    url,
+    {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({ ...body, stream: true }),
     },
-    body: JSON.stringify({ ...body, stream: true }),
-  });
+    toHttpOptions(provider, options)
+  );
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${response.status} - ${error}`);
+    throw await readProviderError(response, provider);
+  }
+
+  yield* readOpenAIStream(
+    parseServerSentEvents<OpenAIStreamChunk>(response),
+    provider
+  );
+}
+
+/**
+ * A chunk of an OpenAI-format stream, as sent over SSE or yielded by the
+ * Groq and Cerebras SDKs. Groq reports usage under `x_groq`.
+ */
+export interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+    logprobs?: OpenAILogprobs | null;
+  }>;
+  usage?: OpenAIUsage | null;
+  x_groq?: { usage?: OpenAIUsage };
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Yields the JSON payloads of a server-sent events response, skipping
+ * invalid lines and stopping at the OpenAI-style `[DONE]` sentinel
+ */
+export async function* parseServerSentEvents<T>(
+  response: Response
+): AsyncIterable<T> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (!done) {
+      buffer += decoder.decode(value, { stream: true });
+    }
+
+    const lines = buffer.split("\n");
+    // Keep a partial line for the next read, unless the stream ended
+    buffer = done ? "" : lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+
+      try {
+        yield JSON.parse(data) as T;
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    if (done) return;
   }
+}
 
+/**
+ * Yields the JSON objects of a newline-delimited JSON (NDJSON) response,
+ * as streamed by Ollama, skipping blank and invalid lines
+ */
+export async function* parseNdjson<T>(response: Response): AsyncIterable<T> {
   const reader = response.body?.getReader();
   if (!reader) throw new Error("No response body");
 
@@ -134,25 +1038,73 @@ export async function* streamChatCompletion(
 
   while (true) {
     const { done, value } = await reader.read();
-    if (done) break;
+    if (!done) {
+      buffer += decoder.decode(value, { stream: true });
+    }
 
-    buffer += decoder.decode(value, { stream: true });
     const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
+    // Keep a partial line for the next read, unless the stream ended
+    buffer = done ? "" : lines.pop() || "";
 
     for (const line of lines) {
-      if (line.startsWith("data: ")) {
-        const data = line.slice(6).trim();
-        if (data === "[DONE]") return;
-
-        try {
-          const parsed = JSON.parse(data);
-          const content = parsed.choices?.[0]?.delta?.content;
-          if (content) yield content;
-        } catch {
-          // Skip invalid JSON
-        }
+      if (!line.trim()) continue;
+
+      try {
+        yield JSON.parse(line) as T;
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Maps OpenAI-format chunks to stream chunks. Finish reason and usage may
+ * arrive in separate trailing chunks, so they are combined into one final
+ * chunk once the stream ends.
+ */
+export async function* readOpenAIStream(
+  chunks: AsyncIterable<OpenAIStreamChunk>,
+  provider: string
+): AsyncIterable<StreamChunk> {
+  const final: StreamChunk = { text: "", role: "assistant", provider };
+
+  for await (const chunk of chunks) {
+    const choice = chunk.choices?.[0];
+    const content = choice?.delta?.content;
+    if (content) {
+      const logprobs = parseOpenAILogprobs(choice?.logprobs);
+      yield {
+        text: content,
+        role: "assistant",
+        provider,
+        ...(logprobs && { logprobs }),
+      };
+    }
+
+    for (const call of choice?.delta?.tool_calls ?? []) {
+      const toolCall: ToolCallDelta = { index: call.index };
+      if (call.id) toolCall.id = call.id;
+      if (call.function?.name) toolCall.name = call.function.name;
+      if (call.function?.arguments) {
+        toolCall.arguments = call.function.arguments;
       }
+      yield { text: "", role: "assistant", toolCall, provider };
+    }
+
+    if (choice?.finish_reason) final.finishReason = choice.finish_reason;
+
+    const usage = chunk.usage ?? chunk.x_groq?.usage;
+    if (usage) {
+      final.usage = {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      };
     }
   }
+
+  yield final;
 }
@@ -7,7 +7,27 @@
  * @requires @cerebras/cerebras_cloud_sdk - npm install @cerebras/cerebras_cloud_sdk
  */
 
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  ChatCompletionRequest,
+  OpenAIChatMessage,
+  OpenAITool,
+  buildResponseFormat,
+  toOpenAIMessages,
+  toOpenAITools,
+  parseOpenAIToolCalls,
+  readOpenAIStream,
+  OpenAIStreamChunk,
+  toSdkRequestOptions,
+  fromSdkError,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
 
 export interface CerebrasConfig {
   /** Cerebras API key (defaults to CEREBRAS_API_KEY env var) */
@@ -23,20 +43,35 @@ export interface CerebrasConfig {
 
 const DEFAULT_MODEL = "llama3.1-8b";
 
+interface CerebrasChatParams {
+  model: string;
+  messages: OpenAIChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: ChatCompletionRequest["response_format"];
+  tools?: OpenAITool[];
+}
+
+interface CerebrasRequestOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
 // Type for the Cerebras SDK client
 interface CerebrasClient {
   chat: {
     completions: {
-      create: (params: {
-        model: string;
-        messages: Array<{ role: string; content: string }>;
-        temperature?: number;
-        max_tokens?: number;
-        stream?: boolean;
-      }) => Promise<{
+      create(
+        params: CerebrasChatParams & { stream?: false },
+        requestOptions?: CerebrasRequestOptions
+      ): Promise<{
         id: string;
         choices: Array<{
-          message: { role: string; content: string };
+          message: {
+            role: string;
+            content: string | null;
+            tool_calls?: OpenAIChatMessage["tool_calls"];
+          };
           finish_reason: string;
         }>;
         usage?: {
@@ -45,6 +80,10 @@ interface CerebrasClient {
           total_tokens: number;
         };
       }>;
+      create(
+        params: CerebrasChatParams & { stream: true },
+        requestOptions?: CerebrasRequestOptions
+      ): Promise<AsyncIterable<OpenAIStreamChunk>>;
     };
   };
 }
@@ -94,52 +133,99 @@ export function createCerebrasProvider(
     return clientPromise;
   }
 
-  return {
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const client = await getClient();
+    const mergedOptions = { ...config.defaultOptions, ...options };
+
+    const completion = await client.chat.completions
+      .create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          temperature: mergedOptions.temperature ?? 0.7,
+          max_tokens: mergedOptions.maxTokens ?? 2048,
+          // JSON mode: guarantees parseable JSON, shape comes from the prompt
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            "json_mode"
+          ),
+          tools: toOpenAITools(options.tools),
+        },
+        toSdkRequestOptions(options)
+      )
+      .catch((error: unknown) => {
+        throw fromSdkError(error, "Cerebras", options.signal);
+      });
+
+    const choice = completion.choices[0];
+
+    return {
+      content: choice.message.content ?? "",
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+      toolCalls: parseOpenAIToolCalls(choice.message.tool_calls),
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const client = await getClient();
+    const mergedOptions = { ...config.defaultOptions, ...options };
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          temperature: mergedOptions.temperature ?? 0.7,
+          max_tokens: mergedOptions.maxTokens ?? 2048,
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            "json_mode"
+          ),
+          tools: toOpenAITools(options.tools),
+          stream: true,
+        },
+        toSdkRequestOptions(options)
+      );
+
+      yield* readOpenAIStream(stream, "cerebras");
+    } catch (error) {
+      throw fromSdkError(error, "Cerebras", options.signal);
+    }
+  }
+
+  return withInferenceTimeout({
     name: "cerebras",
+    model,
+    capabilities: { structuredOutput: "json_mode", tools: true },
 
-    async inference(
+    inference(
       prompt: string,
       options: InferenceOptions = {}
     ): Promise<InferenceResponse> {
-      const client = await getClient();
-      const mergedOptions = { ...config.defaultOptions, ...options };
-
-      const completion = await client.chat.completions.create({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        temperature: mergedOptions.temperature ?? 0.7,
-        max_tokens: mergedOptions.maxTokens ?? 2048,
-      });
-
-      const choice = completion.choices[0];
-
-      return {
-        content: choice.message.content,
-        usage: completion.usage
-          ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens,
-            }
-          : undefined,
-        finishReason: choice.finish_reason,
-      };
+      return chat([{ role: "user", content: prompt }], options);
     },
 
-    // Note: Cerebras SDK supports streaming via SSE
-    // For simplicity, we simulate streaming here
-    async *streamInference(
+    streamInference(
       prompt: string,
       options: InferenceOptions = {}
-    ): AsyncIterable<string> {
-      const response = await this.inference(prompt, options);
-
-      // Simulate streaming by yielding words
-      const words = response.content.split(" ");
-      for (let i = 0; i < words.length; i++) {
-        yield words[i] + (i < words.length - 1 ? " " : "");
-        await new Promise((resolve) => setTimeout(resolve, 10));
-      }
+    ): AsyncIterable<StreamChunk> {
+      return streamChat([{ role: "user", content: prompt }], options);
     },
-  };
+
+    chat,
+    streamChat,
+  });
 }
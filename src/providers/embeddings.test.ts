@@ -0,0 +1,162 @@
+/**
+ * Tests for provider embeddings and the shared embedding helpers
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  embedInBatches,
+  embedWithProvider,
+  normalizeEmbedding,
+  cosineSimilarity,
+} from "./embeddings";
+import { createOpenAIProvider, createMockProvider } from "./openai";
+import { createGeminiProvider } from "./gemini";
+import { createOllamaProvider } from "./ollama";
+import { SynapseError } from "../errors";
+import { FetchMock, sentBody, stubFetch } from "../test/stubHttp";
+
+function requestOf(fetchMock: FetchMock, call = 0) {
+  const [url] = fetchMock.mock.calls[call];
+  return { url: String(url), body: sentBody(fetchMock, call) };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("embedding helpers", () => {
+  it("normalizes vectors to unit length", () => {
+    expect(normalizeEmbedding([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalizeEmbedding([0, 0])).toEqual([0, 0]);
+  });
+
+  it("computes cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+    expect(() => cosineSimilarity([1], [1, 2])).toThrow("different sizes");
+  });
+
+  it("splits texts into batches and keeps their order", async () => {
+    const embedBatch = vi.fn(async (batch: string[]) => ({
+      embeddings: batch.map((text) => [text.length, 0]),
+      promptTokens: batch.length,
+    }));
+
+    const result = await embedInBatches(
+      ["a", "bb", "ccc", "dddd", "eeeee"],
+      "test",
+      { batchSize: 2, normalize: true },
+      100,
+      embedBatch
+    );
+
+    expect(embedBatch.mock.calls.map(([batch]) => batch)).toEqual([
+      ["a", "bb"],
+      ["ccc", "dddd"],
+      ["eeeee"],
+    ]);
+    expect(result.embeddings).toEqual(Array(5).fill([1, 0]));
+    expect(result.usage).toEqual({ promptTokens: 5, totalTokens: 5 });
+  });
+
+  it("rejects batches with a missing vector", async () => {
+    await expect(
+      embedInBatches(["a", "b"], "test", {}, 10, async () => ({
+        embeddings: [[1]],
+      }))
+    ).rejects.toThrow("Expected 2 embeddings, received 1");
+  });
+
+  it("reports providers without an embeddings API", async () => {
+    const error = await embedWithProvider(createMockProvider({}), ["a"]).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.code).toBe("CAPABILITY_UNSUPPORTED");
+  });
+});
+
+describe("provider embeddings", () => {
+  it("embeds with OpenAI in input order", async () => {
+    const fetchMock = stubFetch({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    });
+    const provider = createOpenAIProvider({ apiKey: "sk-test" });
+
+    const result = await provider.embed!(["first", "second"], {
+      dimensions: 2,
+    });
+
+    expect(requestOf(fetchMock)).toEqual({
+      url: "https://api.openai.com/v1/embeddings",
+      body: {
+        model: "text-embedding-3-small",
+        input: ["first", "second"],
+        dimensions: 2,
+      },
+    });
+    expect(result).toEqual({
+      embeddings: [
+        [1, 0],
+        [0, 1],
+      ],
+      model: "text-embedding-3-small",
+      usage: { promptTokens: 4, totalTokens: 4 },
+    });
+  });
+
+  it("embeds with Gemini through batchEmbedContents", async () => {
+    const fetchMock = stubFetch({
+      embeddings: [{ values: [1, 2] }, { values: [3, 4] }],
+    });
+    const provider = createGeminiProvider({ apiKey: "key" });
+
+    const result = await provider.embed!(["a", "b"]);
+
+    const { url, body } = requestOf(fetchMock);
+    expect(url).toBe(
+      "https://generativelanguage.googleapis.com/v1/models/text-embedding-004:batchEmbedContents?key=key"
+    );
+    expect(body.requests?.[1]).toEqual({
+      model: "models/text-embedding-004",
+      content: { parts: [{ text: "b" }] },
+    });
+    expect(result.embeddings).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+  });
+
+  it("embeds with Ollama in batches", async () => {
+    const fetchMock = stubFetch(
+      { embeddings: [[3, 4]], prompt_eval_count: 2 },
+      { embeddings: [[0, 5]], prompt_eval_count: 3 }
+    );
+    const provider = createOllamaProvider({ embeddingModel: "all-minilm" });
+
+    const result = await provider.embed!(["a", "b"], {
+      batchSize: 1,
+      normalize: true,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestOf(fetchMock)).toEqual({
+      url: "http://localhost:11434/api/embed",
+      body: { model: "all-minilm", input: ["a"] },
+    });
+    expect(result).toEqual({
+      embeddings: [
+        [0.6, 0.8],
+        [0, 1],
+      ],
+      model: "all-minilm",
+      usage: { promptTokens: 5, totalTokens: 5 },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Embeddings - Shared helpers for vector embeddings
+ *
+ * Providers implement `embed` for one request at a time through
+ * `embedInBatches`, which splits the input, keeps vectors in input order,
+ * sums token usage and optionally normalizes the vectors.
+ */
+
+import { AIProvider, EmbeddingOptions, EmbeddingResponse } from "./openai";
+import { Errors } from "../errors";
+import { throwIfAborted } from "../utils/abort";
+
+/**
+ * Result of embedding one batch of texts
+ */
+export interface EmbeddingBatch {
+  /** One vector per text of the batch, in order */
+  embeddings: number[][];
+  /** Prompt tokens reported for the batch */
+  promptTokens?: number;
+}
+
+/**
+ * Scales a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeEmbedding(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length === 0 ? vector : vector.map((x) => x / length);
+}
+
+/**
+ * Cosine similarity of two vectors of the same size, from -1 to 1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(
+      `Cannot compare embeddings of different sizes (${a.length} and ${b.length})`
+    );
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Embeds `texts` in batches of `options.batchSize` (or `defaultBatchSize`),
+ * one batch at a time
+ */
+export async function embedInBatches(
+  texts: string[],
+  model: string,
+  options: EmbeddingOptions,
+  defaultBatchSize: number,
+  embedBatch: (batch: string[]) => Promise<EmbeddingBatch>
+): Promise<EmbeddingResponse> {
+  const batchSize = Math.max(1, options.batchSize ?? defaultBatchSize);
+  const embeddings: number[][] = [];
+  let promptTokens: number | undefined;
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    throwIfAborted(options.signal);
+    const batch = texts.slice(start, start + batchSize);
+    const result = await embedBatch(batch);
+
+    if (result.embeddings.length !== batch.length) {
+      throw new Error(
+        `Expected ${batch.length} embeddings, received ${result.embeddings.length}`
+      );
+    }
+    embeddings.push(...result.embeddings);
+    if (result.promptTokens !== undefined) {
+      promptTokens = (promptTokens ?? 0) + result.promptTokens;
+    }
+  }
+
+  return {
+    embeddings: options.normalize
+      ? embeddings.map(normalizeEmbedding)
+      : embeddings,
+    model,
+    usage:
+      promptTokens !== undefined
+        ? { promptTokens, totalTokens: promptTokens }
+        : undefined,
+  };
+}
+
+/**
+ * Embeds `texts` with `provider`, failing with CAPABILITY_UNSUPPORTED
+ * when the provider has no embeddings API
+ */
+export function embedWithProvider(
+  provider: AIProvider,
+  texts: string[],
+  options?: EmbeddingOptions
+): Promise<EmbeddingResponse> {
+  if (!provider.embed) {
+    return Promise.reject(Errors.capabilityUnsupported(["embeddings"]));
+  }
+  return provider.embed(texts, options);
+}
@@ -8,10 +8,13 @@
 import { AIProvider } from "./openai";
 import { ProviderType, ProviderConfig } from "./base";
 import { createOpenAIProvider, createMockProvider } from "./openai";
+import { createAzureOpenAIProvider } from "./azure";
 import { createAnthropicProvider } from "./anthropic";
 import { createGeminiProvider } from "./gemini";
 import { createGroqProvider } from "./groq";
 import { createCerebrasProvider } from "./cerebras";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
 import { createTransformersProvider } from "./transformers";
 
 // Registry of provider factories
@@ -21,6 +24,10 @@ type ProviderFactory = (config: unknown) => AIProvider;
 const providerFactories: Record<ProviderType, ProviderFactory> = {
   openai: (config) =>
     createOpenAIProvider(config as Parameters<typeof createOpenAIProvider>[0]),
+  "azure-openai": (config) =>
+    createAzureOpenAIProvider(
+      config as Parameters<typeof createAzureOpenAIProvider>[0]
+    ),
   anthropic: (config) =>
     createAnthropicProvider(
       config as Parameters<typeof createAnthropicProvider>[0]
@@ -33,6 +40,12 @@ const providerFactories: Record<ProviderType, ProviderFactory> = {
     createCerebrasProvider(
       config as Parameters<typeof createCerebrasProvider>[0]
     ),
+  ollama: (config) =>
+    createOllamaProvider(config as Parameters<typeof createOllamaProvider>[0]),
+  "openai-compatible": (config) =>
+    createOpenAICompatibleProvider(
+      config as Parameters<typeof createOpenAICompatibleProvider>[0]
+    ),
   transformers: (config) =>
     createTransformersProvider(
       config as Parameters<typeof createTransformersProvider>[0]
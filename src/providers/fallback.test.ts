@@ -0,0 +1,345 @@
+/**
+ * Tests for the fallback provider
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { z } from "zod";
+import { createFallbackProvider, classifyProviderError } from "./fallback";
+import { AIProvider, StreamChunk, createMockProvider } from "./openai";
+import { Errors, SynapseError, SynapseErrorCode } from "../errors";
+import { createAbortError } from "../utils/abort";
+
+/**
+ * A provider that fails with `error` for its first `failures` calls
+ */
+function createFlakyProvider(
+  name: string,
+  error: unknown,
+  failures = Infinity
+): AIProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    async inference() {
+      provider.calls++;
+      if (provider.calls <= failures) throw error;
+      return { content: `from ${name}` };
+    },
+    async *streamInference(): AsyncIterable<StreamChunk> {
+      provider.calls++;
+      if (provider.calls <= failures) throw error;
+      yield { text: `from ${name}`, role: "assistant", provider: name };
+      yield {
+        text: "",
+        role: "assistant",
+        finishReason: "stop",
+        provider: name,
+      };
+    },
+  };
+  return provider;
+}
+
+async function collect(chunks: AsyncIterable<StreamChunk>) {
+  const result: StreamChunk[] = [];
+  for await (const chunk of chunks) result.push(chunk);
+  return result;
+}
+
+/**
+ * A provider that answers after `latencyMs`, or fails with a timeout once
+ * the call's `timeoutMs` runs out
+ */
+function createSlowProvider(name: string, latencyMs: number) {
+  const timeouts: Array<number | undefined> = [];
+  const provider: AIProvider = {
+    name,
+    async inference(_prompt, options) {
+      timeouts.push(options?.timeoutMs);
+      const timeoutMs = options?.timeoutMs ?? Infinity;
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(latencyMs, timeoutMs))
+      );
+      if (latencyMs > timeoutMs) {
+        throw Errors.inferenceTimeout(name, timeoutMs);
+      }
+      return { content: `from ${name}` };
+    },
+  };
+  return { provider, timeouts };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("classifyProviderError", () => {
+  it("classifies HTTP statuses from messages and SDK errors", () => {
+    expect(
+      classifyProviderError(new Error("OpenAI API error: 429 - slow down"))
+    ).toBe("rate_limit");
+    expect(
+      classifyProviderError(new Error("Anthropic API error: 529 - overloaded"))
+    ).toBe("server_error");
+    expect(
+      classifyProviderError(Object.assign(new Error("x"), { status: 503 }))
+    ).toBe("server_error");
+    expect(classifyProviderError(new Error("API error: 400 - bad"))).toBe(
+      "other"
+    );
+  });
+
+  it("classifies typed provider errors by code", () => {
+    const classes = [
+      "RATE_LIMITED",
+      "PROVIDER_UNAVAILABLE",
+      "AUTH_FAILED",
+      "QUOTA_EXCEEDED",
+      "CONTEXT_LENGTH_EXCEEDED",
+      "INVALID_REQUEST",
+    ].map((code) =>
+      classifyProviderError(new SynapseError(code as SynapseErrorCode, "x"))
+    );
+
+    expect(classes).toEqual([
+      "rate_limit",
+      "server_error",
+      "auth",
+      "quota",
+      "context_length",
+      "other",
+    ]);
+  });
+
+  it("classifies timeouts, network failures and SynapseErrors", () => {
+    const timeout = new Error("signal timed out");
+    timeout.name = "TimeoutError";
+
+    expect(classifyProviderError(timeout)).toBe("timeout");
+    expect(classifyProviderError(new TypeError("fetch failed"))).toBe(
+      "network"
+    );
+    expect(classifyProviderError(Errors.inferenceTimeout("m", 1000))).toBe(
+      "timeout"
+    );
+    expect(classifyProviderError(Errors.validationFailed("{}", []))).toBe(
+      "validation"
+    );
+    expect(
+      classifyProviderError(Errors.contentFiltered("Azure OpenAI", []))
+    ).toBe("content_filter");
+    expect(
+      classifyProviderError(
+        Errors.networkError(new Error("Groq API error: 429 - limit"))
+      )
+    ).toBe("rate_limit");
+  });
+});
+
+describe("createFallbackProvider", () => {
+  it("fails over on rate limits and reports the serving provider", async () => {
+    const onFailover = vi.fn();
+    const primary = createFlakyProvider(
+      "openai",
+      new Error("OpenAI API error: 429 - limit")
+    );
+    const provider = createFallbackProvider(
+      [primary, createMockProvider({ default: "from mock" })],
+      { onFailover }
+    );
+
+    const response = await provider.inference("Hi");
+
+    expect(response).toEqual({ content: "from mock", provider: "mock" });
+    expect(onFailover).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: "openai",
+        to: "mock",
+        errorClass: "rate_limit",
+      })
+    );
+    expect(provider.getStatus()).toEqual({
+      lastProvider: "mock",
+      providers: [
+        { name: "openai", served: 0, failed: 1 },
+        { name: "mock", served: 1, failed: 0 },
+      ],
+    });
+  });
+
+  it("throws errors the policy does not fail over on", async () => {
+    const secondary = createFlakyProvider("b", null, 0);
+    const provider = createFallbackProvider([
+      createFlakyProvider("a", new Error("API error: 401 - bad key")),
+      secondary,
+    ]);
+
+    await expect(provider.inference("Hi")).rejects.toThrow("401");
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("lets a custom policy decide", async () => {
+    const provider = createFallbackProvider(
+      [
+        createFlakyProvider("a", new Error("API error: 401 - bad key")),
+        createFlakyProvider("b", new Error("API error: 503 - down")),
+        createFlakyProvider("c", null, 0),
+      ],
+      {
+        shouldFailover: (_error, { provider }) =>
+          provider === "b" ? false : undefined,
+        failoverOn: ["other"],
+      }
+    );
+
+    await expect(provider.inference("Hi")).rejects.toThrow("503");
+  });
+
+  it("throws the last error when every provider fails", async () => {
+    const provider = createFallbackProvider([
+      createFlakyProvider("a", new Error("API error: 500 - a")),
+      createFlakyProvider("b", new Error("API error: 502 - b")),
+    ]);
+
+    await expect(provider.inference("Hi")).rejects.toThrow("502 - b");
+  });
+
+  it("never fails over cancelled requests", async () => {
+    const secondary = createFlakyProvider("b", null, 0);
+    const provider = createFallbackProvider(
+      [createFlakyProvider("a", createAbortError()), secondary],
+      { failoverOn: ["other"] }
+    );
+
+    await expect(provider.inference("Hi")).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("fails over when validation attempts are exhausted", async () => {
+    const invalid = {
+      name: "invalid",
+      inference: vi.fn(async () => ({ content: '{"count":"many"}' })),
+    };
+    const provider = createFallbackProvider(
+      [invalid, createMockProvider({ default: '{"count":3}' })],
+      { failoverOn: ["validation"], validationAttempts: 2 }
+    );
+
+    const response = await provider.inference("Count", {
+      responseSchema: z.object({ count: z.number() }),
+    });
+
+    expect(invalid.inference).toHaveBeenCalledTimes(2);
+    expect(response).toEqual({ content: '{"count":3}', provider: "mock" });
+  });
+
+  it("returns the last provider's invalid output for self-correction", async () => {
+    const provider = createFallbackProvider(
+      [createMockProvider({ default: "not json" })],
+      { failoverOn: ["validation"] }
+    );
+
+    const response = await provider.inference("Count", {
+      responseSchema: z.object({ count: z.number() }),
+    });
+
+    expect(response.content).toBe("not json");
+  });
+
+  it("fails over streams that fail before producing output", async () => {
+    const provider = createFallbackProvider([
+      createFlakyProvider("a", new Error("API error: 503 - down")),
+      createMockProvider({ default: "hello" }),
+    ]);
+
+    const chunks = await collect(provider.streamInference!("Hi"));
+
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("hello");
+    expect(chunks[chunks.length - 1].provider).toBe("mock");
+    expect(provider.getStatus().lastProvider).toBe("mock");
+  });
+
+  it("does not fail over streams that already produced output", async () => {
+    const broken: AIProvider = {
+      name: "broken",
+      inference: async () => ({ content: "" }),
+      async *streamInference() {
+        yield { text: "partial", role: "assistant", provider: "broken" };
+        throw new Error("API error: 503 - down");
+      },
+    };
+    const provider = createFallbackProvider([
+      broken,
+      createMockProvider({ default: "hello" }),
+    ]);
+
+    await expect(collect(provider.streamInference!("Hi"))).rejects.toThrow(
+      "503"
+    );
+  });
+
+  it("keeps attachments when streaming a prompt", async () => {
+    const streamChat = vi.fn(async function* (): AsyncIterable<StreamChunk> {
+      yield { text: "ok", role: "assistant", provider: "vision" };
+    });
+    const provider = createFallbackProvider([
+      { name: "vision", inference: async () => ({ content: "" }), streamChat },
+    ]);
+    const attachments = [
+      { type: "image" as const, data: "data:image/png;base64,iVBORw0KGgo=" },
+    ];
+
+    await collect(provider.streamInference!("Describe", { attachments }));
+
+    expect(streamChat.mock.calls[0][0]).toEqual([
+      { role: "user", content: "Describe", attachments },
+    ]);
+  });
+
+  it("gives each provider its own timeout", async () => {
+    vi.useFakeTimers();
+    const first = createSlowProvider("a", 500);
+    const second = createSlowProvider("b", 60);
+    const provider = createFallbackProvider([first.provider, second.provider]);
+
+    const pending = provider.inference("Hi", { timeoutMs: 100 });
+    await vi.advanceTimersByTimeAsync(160);
+
+    await expect(pending).resolves.toMatchObject({
+      content: "from b",
+      provider: "b",
+    });
+    expect(first.timeouts).toEqual([100]);
+    expect(second.timeouts).toEqual([100]);
+  });
+
+  it("only offers capabilities every provider has", () => {
+    const provider = createFallbackProvider([
+      {
+        ...createFlakyProvider("a", null, 0),
+        capabilities: {
+          structuredOutput: "json_schema",
+          tools: true,
+          attachments: true,
+        },
+      },
+      {
+        ...createFlakyProvider("b", null, 0),
+        capabilities: { structuredOutput: "json_schema", tools: true },
+      },
+    ]);
+
+    expect(provider.capabilities).toEqual({
+      structuredOutput: "json_schema",
+      tools: true,
+      attachments: false,
+      logprobs: false,
+    });
+  });
+
+  it("requires at least one provider", () => {
+    expect(() => createFallbackProvider([])).toThrow("at least one provider");
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Fallback Provider - Ordered failover across providers
+ *
+ * Tries each provider in turn. When a call fails, the error is classified
+ * (rate limit, server error, timeout, ...) and the policy decides whether
+ * the next provider gets a chance or the error is thrown. Responses and
+ * stream chunks name the provider that served them. A `timeoutMs` applies
+ * to each provider's attempt, so a provider that times out fails over.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  chatWithProvider,
+  intersectCapabilities,
+  streamOrChatWithProvider,
+} from "./base";
+import { SynapseError, SynapseErrorCode, Errors } from "../errors";
+import { validateResponse } from "../validation/schemaValidator";
+import { isAbortError } from "../utils/abort";
+
+/**
+ * Why a provider call failed
+ * - rate_limit: HTTP 429
+ * - server_error: HTTP 5xx
+ * - timeout: HTTP 408, timed-out signals and INFERENCE_TIMEOUT errors
+ * - network: the request never got a response
+ * - validation: the output did not match `responseSchema`
+ * - content_filter: the provider's content policy blocked the request
+ * - auth: the API key was rejected
+ * - quota: the account ran out of quota or credits
+ * - context_length: the prompt is too long for the model
+ * - other: anything else (bad requests, ...)
+ */
+export type ProviderErrorClass =
+  | "rate_limit"
+  | "server_error"
+  | "timeout"
+  | "network"
+  | "validation"
+  | "content_filter"
+  | "auth"
+  | "quota"
+  | "context_length"
+  | "other";
+
+const ERROR_CODE_CLASSES: Partial<
+  Record<SynapseErrorCode, ProviderErrorClass>
+> = {
+  RATE_LIMITED: "rate_limit",
+  PROVIDER_UNAVAILABLE: "server_error",
+  INFERENCE_TIMEOUT: "timeout",
+  VALIDATION_FAILED: "validation",
+  CONTENT_FILTERED: "content_filter",
+  AUTH_FAILED: "auth",
+  QUOTA_EXCEEDED: "quota",
+  CONTEXT_LENGTH_EXCEEDED: "context_length",
+};
+
+/**
+ * Classifies an error thrown by a provider. Built-in providers throw
+ * SynapseErrors; custom providers' errors are classified by their
+ * `status` or an "API error: NNN" message.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorClass {
+  if (error instanceof SynapseError) {
+    if (error.code === "NETWORK_ERROR") {
+      // Composite providers wrap the backend's error
+      return error.originalCause
+        ? classifyProviderError(error.originalCause)
+        : "network";
+    }
+    return ERROR_CODE_CLASSES[error.code] ?? "other";
+  }
+
+  if (!(error instanceof Error)) return "other";
+  if (error.name === "TimeoutError") return "timeout";
+
+  const { status: sdkStatus } = error as Error & { status?: unknown };
+  const status =
+    typeof sdkStatus === "number"
+      ? sdkStatus
+      : Number(/API error: (\d{3})/.exec(error.message)?.[1]);
+
+  if (status === 429) return "rate_limit";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "server_error";
+  if (/content[_ ]filter/i.test(error.message)) return "content_filter";
+  // fetch rejects with a TypeError when no response arrives
+  if (error.name === "TypeError") return "network";
+  return "other";
+}
+
+/**
+ * A call moving from one provider to the next
+ */
+export interface FailoverEvent {
+  from: string;
+  to: string;
+  errorClass: ProviderErrorClass;
+  error: unknown;
+}
+
+export interface FallbackPolicy {
+  /**
+   * Error classes that move a call on to the next provider
+   * (default: rate_limit, server_error, timeout, network)
+   */
+  failoverOn?: ProviderErrorClass[];
+  /** Custom decision; overrides `failoverOn` when it returns a boolean */
+  shouldFailover?: (
+    error: unknown,
+    context: { errorClass: ProviderErrorClass; provider: string }
+  ) => boolean | undefined;
+  /**
+   * Attempts per provider when the output does not match `responseSchema`,
+   * used when `failoverOn` includes "validation" (default: 1)
+   */
+  validationAttempts?: number;
+  /** Called whenever a call fails over */
+  onFailover?: (event: FailoverEvent) => void;
+}
+
+export interface FallbackProviderStatus {
+  /** Provider that served the most recent call */
+  lastProvider: string | null;
+  /** Per-provider counters, in fallback order */
+  providers: Array<{ name: string; served: number; failed: number }>;
+}
+
+export interface FallbackProvider extends AIProvider {
+  getStatus(): FallbackProviderStatus;
+}
+
+const DEFAULT_FAILOVER_ON: ProviderErrorClass[] = [
+  "rate_limit",
+  "server_error",
+  "timeout",
+  "network",
+];
+
+/**
+ * Creates a provider that fails over through `providers` in order
+ *
+ * @example
+ * ```ts
+ * const provider = createFallbackProvider([openai, anthropic, ollama], {
+ *   failoverOn: ["rate_limit", "server_error", "timeout", "validation"],
+ *   onFailover: ({ from, to, errorClass }) =>
+ *     console.warn(`${from} failed (${errorClass}), trying ${to}`),
+ * });
+ * ```
+ */
+export function createFallbackProvider(
+  providers: AIProvider[],
+  policy: FallbackPolicy = {}
+): FallbackProvider {
+  if (providers.length === 0) {
+    throw new Error("createFallbackProvider requires at least one provider");
+  }
+
+  const failoverOn = policy.failoverOn ?? DEFAULT_FAILOVER_ON;
+  const validationAttempts = Math.max(1, policy.validationAttempts ?? 1);
+  const stats = providers.map((provider) => ({
+    name: provider.name,
+    served: 0,
+    failed: 0,
+  }));
+  let lastProvider: string | null = null;
+
+  /**
+   * Records a failure and decides whether the call moves on. Never fails
+   * over from the last provider or for cancelled requests.
+   */
+  function failover(index: number, error: unknown): boolean {
+    if (isAbortError(error)) return false;
+    stats[index].failed++;
+    if (index === providers.length - 1) return false;
+
+    const provider = providers[index];
+    const errorClass = classifyProviderError(error);
+    const decision =
+      policy.shouldFailover?.(error, {
+        errorClass,
+        provider: provider.name,
+      }) ?? failoverOn.includes(errorClass);
+
+    if (decision) {
+      policy.onFailover?.({
+        from: provider.name,
+        to: providers[index + 1].name,
+        errorClass,
+        error,
+      });
+    }
+    return decision;
+  }
+
+  function served(index: number, name: string): void {
+    stats[index].served++;
+    lastProvider = name;
+  }
+
+  /**
+   * Calls one provider, retrying output that fails schema validation.
+   * Throws a VALIDATION_FAILED error once the attempts are used up. The
+   * last provider's output is returned as is, so callers can still run
+   * their own self-correction.
+   */
+  async function callProvider(
+    run: () => Promise<InferenceResponse>,
+    options: InferenceOptions | undefined,
+    isLast: boolean
+  ): Promise<InferenceResponse> {
+    const schema =
+      !isLast && !options?.tools?.length && failoverOn.includes("validation")
+        ? options?.responseSchema
+        : undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await run();
+      if (!schema) return response;
+
+      const result = validateResponse(response.content, schema);
+      if (result.success) return response;
+      if (attempt >= validationAttempts) {
+        throw Errors.validationFailed(response.content, result.errors);
+      }
+    }
+  }
+
+  async function route(
+    run: (target: AIProvider) => Promise<InferenceResponse>,
+    options: InferenceOptions | undefined
+  ): Promise<InferenceResponse> {
+    for (let index = 0; ; index++) {
+      const provider = providers[index];
+
+      try {
+        const response = await callProvider(
+          () => run(provider),
+          options,
+          index === providers.length - 1
+        );
+        const name = response.provider ?? provider.name;
+        served(index, name);
+        return {
+          ...response,
+          provider: name,
+          model: response.model ?? provider.model,
+        };
+      } catch (error) {
+        if (!failover(index, error)) throw error;
+      }
+    }
+  }
+
+  /**
+   * Streaming counterpart of `route`. Streamed tokens cannot be taken back,
+   * so a provider that fails after producing output is not failed over,
+   * and output is not validated before it is yielded.
+   */
+  async function* streamChat(
+    messages: ChatMessage[],
+    options?: InferenceOptions
+  ): AsyncIterable<StreamChunk> {
+    for (let index = 0; ; index++) {
+      const provider = providers[index];
+      let started = false;
+
+      try {
+        let name = provider.name;
+        for await (const chunk of streamOrChatWithProvider(
+          provider,
+          messages,
+          options
+        )) {
+          started = true;
+          name = chunk.provider;
+          yield chunk;
+        }
+        served(index, name);
+        return;
+      } catch (error) {
+        if (started || !failover(index, error)) throw error;
+      }
+    }
+  }
+
+  return {
+    name: "fallback",
+
+    // Any provider in the chain may serve a call
+    get capabilities() {
+      return intersectCapabilities(providers);
+    },
+
+    inference(
+      prompt: string,
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return route((target) => target.inference(prompt, options), options);
+    },
+
+    chat(
+      messages: ChatMessage[],
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return route(
+        (target) => chatWithProvider(target, messages, options),
+        options
+      );
+    },
+
+    streamInference(
+      prompt: string,
+      options?: InferenceOptions
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options?.attachments }],
+        options
+      );
+    },
+
+    streamChat,
+
+    getStatus(): FallbackProviderStatus {
+      return {
+        lastProvider,
+        providers: stats.map((entry) => ({ ...entry })),
+      };
+    },
+  };
+}
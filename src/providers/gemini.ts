@@ -4,15 +4,281 @@
  * Supports: gemini-pro, gemini-1.5-pro, gemini-1.5-flash, etc.
  */
 
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
-import { CloudProviderConfig } from "./base";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from "./openai";
+import {
+  CloudProviderConfig,
+  ChatMessage,
+  parseServerSentEvents,
+  fetchWithRetry,
+  toHttpOptions,
+  readProviderError,
+  parseToolArguments,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import {
+  resolveAttachments,
+  attachmentSource,
+  ContentPart,
+} from "./attachments";
+import { embedInBatches } from "./embeddings";
+import { zodToJsonSchema, JsonSchema } from "../compiler/jsonSchema";
+import { Errors } from "../errors";
+import type { ToolCall } from "../tools/types";
 
 export interface GeminiConfig extends CloudProviderConfig {
   /** Use v1beta for newer features */
   useBeta?: boolean;
+  /** Model used by `embed` (default: text-embedding-004) */
+  embeddingModel?: string;
 }
 
 const DEFAULT_MODEL = "gemini-1.5-flash";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004";
+// batchEmbedContents accepts at most 100 requests
+const MAX_EMBEDDING_BATCH = 100;
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } }
+  | { functionCall: { name: string; args: unknown } }
+  | { functionResponse: { name: string; response: { result: string } } };
+
+/**
+ * Inline data for data URLs; links are passed as `fileData` URIs
+ */
+function toGeminiPart(part: ContentPart): GeminiPart {
+  const source = attachmentSource(part);
+  return source.kind === "url"
+    ? { fileData: { mimeType: source.mimeType, fileUri: source.url } }
+    : { inlineData: { mimeType: source.mimeType, data: source.data } };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+/**
+ * Maps chat messages to Gemini's `systemInstruction` + `contents` format.
+ * Gemini calls the assistant role "model"; tool calls and results become
+ * `functionCall` and `functionResponse` parts, and attachments are placed
+ * ahead of the text.
+ */
+function toGeminiContents(messages: ChatMessage[]): {
+  systemInstruction?: { parts: Array<{ text: string }> };
+  contents: GeminiContent[];
+} {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => ({ text: message.content }));
+  const contents: GeminiContent[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "tool") {
+      const part: GeminiPart = {
+        functionResponse: {
+          name: message.name || "",
+          response: { result: message.content },
+        },
+      };
+      // Responses to parallel calls must share a single user turn
+      const previous = contents[contents.length - 1];
+      if (
+        previous?.role === "user" &&
+        previous.parts.every((p) => "functionResponse" in p)
+      ) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: "user", parts: [part] });
+      }
+      continue;
+    }
+
+    const parts: GeminiPart[] = (message.attachments ?? []).map(toGeminiPart);
+    if (message.content) parts.push({ text: message.content });
+    for (const call of message.toolCalls ?? []) {
+      parts.push({
+        functionCall: {
+          name: call.name,
+          args: parseToolArguments(call.arguments),
+        },
+      });
+    }
+
+    contents.push({
+      role: message.role === "assistant" ? "model" : "user",
+      parts,
+    });
+  }
+
+  return {
+    systemInstruction: system.length > 0 ? { parts: system } : undefined,
+    contents,
+  };
+}
+
+/**
+ * Converts JSON Schema to Gemini's OpenAPI-style schema subset:
+ * uppercase types, `nullable` instead of null unions, and no
+ * additionalProperties/defaults
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const nonNull = schema.anyOf?.filter((option) => option.type !== "null");
+  if (schema.anyOf && nonNull && nonNull.length < schema.anyOf.length) {
+    const inner =
+      nonNull.length === 1
+        ? toGeminiSchema(nonNull[0])
+        : { anyOf: nonNull.map(toGeminiSchema) };
+    return { ...inner, nullable: true };
+  }
+
+  const result: Record<string, unknown> = {};
+  if (typeof schema.type === "string") result.type = schema.type.toUpperCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.anyOf) result.anyOf = schema.anyOf.map(toGeminiSchema);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value),
+      ])
+    );
+    result.required = schema.required;
+  }
+  if (schema.items && !Array.isArray(schema.items)) {
+    result.items = toGeminiSchema(schema.items);
+  }
+  // Gemini only supports enums of strings
+  if (schema.enum && schema.type === "string") result.enum = schema.enum;
+  if (schema.format === "date-time") result.format = schema.format;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.minItems !== undefined) result.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) result.maxItems = schema.maxItems;
+
+  return result;
+}
+
+/**
+ * Request fields shared by `chat` and `streamChat`. Gemini does not allow
+ * function calling together with a JSON response mime type, so the
+ * response schema is left to the prompt when tools are attached.
+ */
+function toGenerationRequest(
+  options: InferenceOptions
+): Record<string, unknown> {
+  const hasTools = !!options.tools && options.tools.length > 0;
+
+  return {
+    generationConfig: {
+      temperature: options.temperature ?? 0.7,
+      maxOutputTokens: options.maxTokens ?? 2048,
+      ...(options.responseSchema &&
+        !hasTools && {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(
+            zodToJsonSchema(options.responseSchema)
+          ),
+        }),
+    },
+    ...(hasTools && {
+      tools: [
+        {
+          functionDeclarations: options.tools!.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(zodToJsonSchema(tool.inputSchema)),
+          })),
+        },
+      ],
+    }),
+  };
+}
+
+interface GeminiSafetyRating {
+  category: string;
+  blocked?: boolean;
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+/**
+ * A `generateContent` response, or one event of a streamed one
+ */
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+        functionCall?: { name: string; args?: unknown };
+      }>;
+    };
+    finishReason?: string;
+    safetyRatings?: GeminiSafetyRating[];
+  }>;
+  promptFeedback?: {
+    blockReason?: string;
+    safetyRatings?: GeminiSafetyRating[];
+  };
+  usageMetadata?: GeminiUsage;
+}
+
+function toUsage(usageMetadata: GeminiUsage): InferenceResponse["usage"] {
+  return {
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    completionTokens: usageMetadata.candidatesTokenCount || 0,
+    totalTokens: usageMetadata.totalTokenCount || 0,
+  };
+}
+
+// Finish reasons for candidates stopped by Gemini's safety settings
+const BLOCKED_FINISH_REASONS = [
+  "SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+];
+
+/**
+ * Throws a CONTENT_FILTERED error when Gemini blocked the prompt
+ * (`promptFeedback.blockReason`) or stopped the candidate for safety
+ */
+function throwIfBlocked(data: GeminiResponse, response: string): void {
+  const candidate = data.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  const reason =
+    data.promptFeedback?.blockReason ??
+    (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)
+      ? finishReason
+      : undefined);
+  if (!reason) return;
+
+  const ratings =
+    data.promptFeedback?.safetyRatings ?? candidate?.safetyRatings ?? [];
+  const categories = ratings
+    .filter((rating) => rating.blocked)
+    .map((rating) => rating.category);
+
+  throw Errors.contentFiltered(
+    "Gemini",
+    categories.length > 0 ? categories : [reason],
+    { response }
+  );
+}
 
 export function createGeminiProvider(config: GeminiConfig): AIProvider {
   const model = config.model || DEFAULT_MODEL;
@@ -21,115 +287,216 @@ export function createGeminiProvider(config: GeminiConfig): AIProvider {
     config.baseUrl ||
     `https://generativelanguage.googleapis.com/${apiVersion}/models`;
 
-  return {
-    name: "gemini",
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
 
-    async inference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): Promise<InferenceResponse> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
+    const response = await fetchWithRetry(
+      `${baseUrl}/${model}:generateContent?key=${config.apiKey}`,
+      {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...toGeminiContents(prepared),
+          ...toGenerationRequest(mergedOptions),
+        }),
+      },
+      toHttpOptions("gemini", options)
+    );
 
-      const response = await fetch(
-        `${baseUrl}/${model}:generateContent?key=${config.apiKey}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: mergedOptions.temperature ?? 0.7,
-              maxOutputTokens: mergedOptions.maxTokens ?? 2048,
+    if (!response.ok) {
+      throw await readProviderError(response, "Gemini");
+    }
+
+    const data: GeminiResponse = await response.json();
+    throwIfBlocked(data, "");
+    const candidate = data.candidates?.[0];
+
+    if (!candidate) {
+      throw new Error("No response from Gemini");
+    }
+
+    const parts = candidate.content?.parts ?? [];
+    const content = parts.map((part) => part.text ?? "").join("");
+    // Gemini does not assign call IDs, so generate stable ones per response
+    const toolCalls: ToolCall[] = parts.flatMap((part, index) =>
+      part.functionCall
+        ? [
+            {
+              id: `call_${index}`,
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args ?? {}),
             },
-          }),
-        }
-      );
+          ]
+        : []
+    );
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Gemini API error: ${response.status} - ${error}`);
-      }
+    return {
+      content,
+      usage: data.usageMetadata ? toUsage(data.usageMetadata) : undefined,
+      finishReason: candidate.finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
 
-      const data = await response.json();
-      const candidate = data.candidates?.[0];
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
 
-      if (!candidate) {
-        throw new Error("No response from Gemini");
-      }
+    const response = await fetchWithRetry(
+      `${baseUrl}/${model}:streamGenerateContent?key=${config.apiKey}&alt=sse`,
+      {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...toGeminiContents(prepared),
+          ...toGenerationRequest(mergedOptions),
+        }),
+      },
+      toHttpOptions("gemini", options)
+    );
 
-      const content = candidate.content?.parts?.[0]?.text || "";
-
-      return {
-        content,
-        usage: data.usageMetadata
-          ? {
-              promptTokens: data.usageMetadata.promptTokenCount || 0,
-              completionTokens: data.usageMetadata.candidatesTokenCount || 0,
-              totalTokens: data.usageMetadata.totalTokenCount || 0,
-            }
-          : undefined,
-        finishReason: candidate.finishReason,
-      };
-    },
+    if (!response.ok) {
+      throw await readProviderError(response, "Gemini");
+    }
 
-    async *streamInference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): AsyncIterable<string> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
+    const final: StreamChunk = {
+      text: "",
+      role: "assistant",
+      provider: "gemini",
+    };
+    let toolIndex = 0;
+    let text = "";
 
-      const response = await fetch(
-        `${baseUrl}/${model}:streamGenerateContent?key=${config.apiKey}&alt=sse`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: mergedOptions.temperature ?? 0.7,
-              maxOutputTokens: mergedOptions.maxTokens ?? 2048,
+    for await (const parsed of parseServerSentEvents<GeminiResponse>(
+      response
+    )) {
+      throwIfBlocked(parsed, text);
+      const candidate = parsed.candidates?.[0];
+
+      for (const part of candidate?.content?.parts ?? []) {
+        if (part.text) {
+          text += part.text;
+          yield { text: part.text, role: "assistant", provider: "gemini" };
+        } else if (part.functionCall) {
+          // Gemini sends each function call whole, with no call ID
+          const index = toolIndex++;
+          yield {
+            text: "",
+            role: "assistant",
+            toolCall: {
+              index,
+              id: `call_${index}`,
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args ?? {}),
             },
-          }),
+            provider: "gemini",
+          };
         }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Gemini API error: ${response.status} - ${error}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
+      if (candidate?.finishReason) final.finishReason = candidate.finishReason;
+      if (parsed.usageMetadata) final.usage = toUsage(parsed.usageMetadata);
+    }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    yield final;
+  }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+  function embed(
+    texts: string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse> {
+    const embeddingModel =
+      options.model || config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.slice(6).trim();
+    return embedInBatches(
+      texts,
+      embeddingModel,
+      options,
+      MAX_EMBEDDING_BATCH,
+      async (batch) => {
+        const response = await fetchWithRetry(
+          `${baseUrl}/${embeddingModel}:batchEmbedContents?key=${config.apiKey}`,
+          {
+            method: "POST",
+            signal: options.signal,
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              requests: batch.map((text) => ({
+                model: `models/${embeddingModel}`,
+                content: { parts: [{ text }] },
+                outputDimensionality: options.dimensions,
+              })),
+            }),
+          },
+          toHttpOptions("gemini", options)
+        );
 
-            try {
-              const parsed = JSON.parse(data);
-              const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-              if (text) yield text;
-            } catch {
-              // Skip invalid JSON
-            }
-          }
+        if (!response.ok) {
+          throw await readProviderError(response, "Gemini");
         }
+
+        const data = await response.json();
+        return {
+          embeddings: (data.embeddings ?? []).map(
+            (embedding: { values: number[] }) => embedding.values
+          ),
+        };
       }
+    );
+  }
+
+  return withInferenceTimeout({
+    name: "gemini",
+    model,
+    capabilities: {
+      structuredOutput: "json_schema",
+      tools: true,
+      attachments: true,
     },
-  };
+
+    inference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return chat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    streamInference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    chat,
+    streamChat,
+    embed,
+  });
 }
@@ -7,7 +7,27 @@
  * @requires groq-sdk - npm install groq-sdk
  */
 
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  ChatCompletionRequest,
+  OpenAIChatMessage,
+  OpenAITool,
+  buildResponseFormat,
+  toOpenAIMessages,
+  toOpenAITools,
+  parseOpenAIToolCalls,
+  readOpenAIStream,
+  OpenAIStreamChunk,
+  toSdkRequestOptions,
+  fromSdkError,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
 
 export interface GroqConfig {
   /** Groq API key (defaults to GROQ_API_KEY env var) */
@@ -23,20 +43,35 @@ export interface GroqConfig {
 
 const DEFAULT_MODEL = "llama-3.1-8b-instant";
 
+interface GroqChatParams {
+  model: string;
+  messages: OpenAIChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: ChatCompletionRequest["response_format"];
+  tools?: OpenAITool[];
+}
+
+interface GroqRequestOptions {
+  signal?: AbortSignal;
+  maxRetries?: number;
+}
+
 // Type for the Groq SDK client
 interface GroqClient {
   chat: {
     completions: {
-      create: (params: {
-        model: string;
-        messages: Array<{ role: string; content: string }>;
-        temperature?: number;
-        max_tokens?: number;
-        stream?: boolean;
-      }) => Promise<{
+      create(
+        params: GroqChatParams & { stream?: false },
+        requestOptions?: GroqRequestOptions
+      ): Promise<{
         id: string;
         choices: Array<{
-          message: { role: string; content: string };
+          message: {
+            role: string;
+            content: string | null;
+            tool_calls?: OpenAIChatMessage["tool_calls"];
+          };
           finish_reason: string;
         }>;
         usage?: {
@@ -45,6 +80,10 @@ interface GroqClient {
           total_tokens: number;
         };
       }>;
+      create(
+        params: GroqChatParams & { stream: true },
+        requestOptions?: GroqRequestOptions
+      ): Promise<AsyncIterable<OpenAIStreamChunk>>;
     };
   };
 }
@@ -90,54 +129,99 @@ export function createGroqProvider(config: GroqConfig = {}): AIProvider {
     return clientPromise;
   }
 
-  return {
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const client = await getClient();
+    const mergedOptions = { ...config.defaultOptions, ...options };
+
+    const completion = await client.chat.completions
+      .create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          temperature: mergedOptions.temperature ?? 0.7,
+          max_tokens: mergedOptions.maxTokens ?? 2048,
+          // JSON mode: guarantees parseable JSON, shape comes from the prompt
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            "json_mode"
+          ),
+          tools: toOpenAITools(options.tools),
+        },
+        toSdkRequestOptions(options)
+      )
+      .catch((error: unknown) => {
+        throw fromSdkError(error, "Groq", options.signal);
+      });
+
+    const choice = completion.choices[0];
+
+    return {
+      content: choice.message.content ?? "",
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+      toolCalls: parseOpenAIToolCalls(choice.message.tool_calls),
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const client = await getClient();
+    const mergedOptions = { ...config.defaultOptions, ...options };
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          temperature: mergedOptions.temperature ?? 0.7,
+          max_tokens: mergedOptions.maxTokens ?? 2048,
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            "json_mode"
+          ),
+          tools: toOpenAITools(options.tools),
+          stream: true,
+        },
+        toSdkRequestOptions(options)
+      );
+
+      yield* readOpenAIStream(stream, "groq");
+    } catch (error) {
+      throw fromSdkError(error, "Groq", options.signal);
+    }
+  }
+
+  return withInferenceTimeout({
     name: "groq",
+    model,
+    capabilities: { structuredOutput: "json_mode", tools: true },
 
-    async inference(
+    inference(
       prompt: string,
       options: InferenceOptions = {}
     ): Promise<InferenceResponse> {
-      const client = await getClient();
-      const mergedOptions = { ...config.defaultOptions, ...options };
-
-      const completion = await client.chat.completions.create({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        temperature: mergedOptions.temperature ?? 0.7,
-        max_tokens: mergedOptions.maxTokens ?? 2048,
-      });
-
-      const choice = completion.choices[0];
-
-      return {
-        content: choice.message.content,
-        usage: completion.usage
-          ? {
-              promptTokens: completion.usage.prompt_tokens,
-              completionTokens: completion.usage.completion_tokens,
-              totalTokens: completion.usage.total_tokens,
-            }
-          : undefined,
-        finishReason: choice.finish_reason,
-      };
+      return chat([{ role: "user", content: prompt }], options);
     },
 
-    // Note: For streaming, you would need to use client.chat.completions.create with stream: true
-    // The SDK returns an async iterator for streaming
-    async *streamInference(
+    streamInference(
       prompt: string,
       options: InferenceOptions = {}
-    ): AsyncIterable<string> {
-      // For now, we fall back to non-streaming and yield the full response
-      // Full streaming support requires handling the SDK's stream response
-      const response = await this.inference(prompt, options);
-
-      // Simulate streaming by yielding words
-      const words = response.content.split(" ");
-      for (let i = 0; i < words.length; i++) {
-        yield words[i] + (i < words.length - 1 ? " " : "");
-        await new Promise((resolve) => setTimeout(resolve, 10));
-      }
+    ): AsyncIterable<StreamChunk> {
+      return streamChat([{ role: "user", content: prompt }], options);
     },
-  };
+
+    chat,
+    streamChat,
+  });
 }
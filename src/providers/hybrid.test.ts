@@ -0,0 +1,79 @@
+/**
+ * Tests for routing between the hybrid provider's local and cloud backends
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createHybridProvider } from "./hybrid";
+import { AIProvider, InferenceOptions } from "./openai";
+
+function createBackend(
+  name: string,
+  capabilities: AIProvider["capabilities"]
+): AIProvider {
+  return {
+    name,
+    capabilities,
+    inference: vi.fn(async (_prompt: string, _options?: InferenceOptions) => ({
+      content: name,
+    })),
+  };
+}
+
+describe("createHybridProvider", () => {
+  const image = {
+    type: "image" as const,
+    data: "data:image/png;base64,iVBORw0KGgo=",
+  };
+
+  it("sends attachments and tools the local model lacks to the cloud", async () => {
+    const cloud = createBackend("cloud", {
+      structuredOutput: "json_schema",
+      tools: true,
+      attachments: true,
+    });
+    const local = createBackend("local", { structuredOutput: "none" });
+    const provider = createHybridProvider({
+      cloudProvider: cloud,
+      localProvider: local,
+      forceMode: "local",
+    });
+
+    const response = await provider.inference("Add the items", {
+      attachments: [image],
+    });
+
+    expect(response.content).toBe("cloud");
+    expect(cloud.inference).toHaveBeenCalledWith("Add the items", {
+      attachments: [image],
+    });
+    expect(local.inference).not.toHaveBeenCalled();
+
+    const chat = await provider.chat!([
+      { role: "user", content: "Add the items", attachments: [image] },
+    ]);
+    expect(chat.content).toBe("cloud");
+    expect(local.inference).not.toHaveBeenCalled();
+
+    await expect(provider.inference("Hi")).resolves.toEqual({
+      content: "local",
+    });
+  });
+
+  it("keeps attachments local when the local model reads them", async () => {
+    const cloud = createBackend("cloud", { structuredOutput: "none" });
+    const local = createBackend("local", {
+      structuredOutput: "none",
+      attachments: true,
+    });
+    const provider = createHybridProvider({
+      cloudProvider: cloud,
+      localProvider: local,
+      forceMode: "local",
+    });
+
+    await provider.inference("Add the items", { attachments: [image] });
+
+    expect(local.inference).toHaveBeenCalledTimes(1);
+    expect(cloud.inference).not.toHaveBeenCalled();
+  });
+});
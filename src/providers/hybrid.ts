@@ -10,12 +10,32 @@
  * 4. Complex tasks always go to cloud
  */
 
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  chatWithProvider,
+  streamChatWithProvider,
+  streamOrChatWithProvider,
+  messagesToPrompt,
+} from "./base";
 import {
   checkCapabilities,
   CapabilityResult,
 } from "../runtime/capabilityCheck";
 import { SynapseError, Errors } from "../errors";
+import { isAbortError } from "../utils/abort";
+import {
+  DEFAULT_PRICING,
+  ModelPricing,
+  findModelPricing,
+  calculateCost,
+} from "../usage/pricing";
+import { estimateTokens } from "../runtime/contextManager";
 
 export type InferenceMode = "cloud" | "local" | "hybrid";
 export type TaskComplexity = "simple" | "medium" | "complex";
@@ -35,6 +55,11 @@ export interface HybridProviderConfig {
   onDownloadProgress?: (progress: DownloadProgress) => void;
   /** Called when mode changes */
   onModeChange?: (mode: InferenceMode) => void;
+  /**
+   * Cloud price used to estimate `localSavings` (default: the cloud
+   * provider's model in `DEFAULT_PRICING`)
+   */
+  cloudPricing?: ModelPricing;
 }
 
 export interface DownloadProgress {
@@ -55,7 +80,7 @@ export interface HybridProviderStatus {
   stats: {
     cloudCalls: number;
     localCalls: number;
-    localSavings: number; // Estimated cost savings from local
+    localSavings: number; // Estimated cloud cost avoided by local (USD)
   };
 }
 
@@ -88,6 +113,9 @@ export function createHybridProvider(
     onLocalReady,
     onModeChange,
   } = config;
+  const cloudPricing =
+    config.cloudPricing ??
+    findModelPricing(DEFAULT_PRICING, cloudProvider.name, cloudProvider.model);
 
   let localProvider: AIProvider | undefined = config.localProvider;
   let currentMode: InferenceMode = forceMode || "cloud";
@@ -109,56 +137,187 @@ export function createHybridProvider(
     }
   });
 
+  /**
+   * Whether a request should run on the local provider. Requests with
+   * attachments or tools the local provider cannot handle go to the cloud.
+   */
+  function shouldUseLocal(
+    prompt: string,
+    options?: InferenceOptions,
+    messages: ChatMessage[] = []
+  ): boolean {
+    if (!localProvider) return false;
+
+    const local = localProvider.capabilities;
+    const hasAttachments =
+      !!options?.attachments?.length ||
+      messages.some((message) => !!message.attachments?.length);
+    const hasTools = !!options?.tools?.length;
+    if (
+      (hasAttachments && !local?.attachments) ||
+      (hasTools && !local?.tools)
+    ) {
+      return false;
+    }
+
+    if (currentMode === "local") return true;
+
+    // Only use local for simple/medium tasks
+    return (
+      currentMode === "hybrid" &&
+      estimateComplexity(prompt, complexityThreshold) !== "complex"
+    );
+  }
+
+  /**
+   * What the cloud would have charged for a call served locally
+   */
+  function estimateSavings(
+    prompt: string,
+    response: InferenceResponse
+  ): number {
+    if (!cloudPricing) return 0;
+    return calculateCost(
+      response.usage ?? {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(response.content),
+      },
+      cloudPricing
+    );
+  }
+
+  /**
+   * Picks local or cloud for a request and runs it, falling back to cloud
+   * when local inference fails
+   */
+  async function route(
+    prompt: string,
+    useLocal: boolean,
+    run: (target: AIProvider) => Promise<InferenceResponse>
+  ): Promise<InferenceResponse> {
+    // Try local first if available
+    if (useLocal && localProvider) {
+      try {
+        const result = await run(localProvider);
+        stats.localCalls++;
+        stats.localSavings += estimateSavings(prompt, result);
+        return result;
+      } catch (error) {
+        // A cancelled request must not be retried against the cloud
+        if (isAbortError(error)) throw error;
+
+        // Fallback to cloud on local failure
+        console.warn(
+          "[Synapse] Local inference failed, falling back to cloud:",
+          error
+        );
+      }
+    }
+
+    // Use cloud
+    try {
+      const result = await run(cloudProvider);
+      stats.cloudCalls++;
+      return result;
+    } catch (error) {
+      // Typed provider errors already say what went wrong
+      if (isAbortError(error) || error instanceof SynapseError) throw error;
+      throw Errors.networkError(error as Error);
+    }
+  }
+
+  /**
+   * Streaming counterpart of `route`. Chunks keep the name of the backend
+   * that produced them, so consumers can tell local from cloud output.
+   */
+  async function* streamChat(
+    messages: ChatMessage[],
+    options?: InferenceOptions
+  ): AsyncIterable<StreamChunk> {
+    const prompt = messagesToPrompt(messages);
+    const local =
+      shouldUseLocal(prompt, options, messages) && localProvider
+        ? streamChatWithProvider(localProvider, messages, options)
+        : null;
+
+    if (local) {
+      let content = "";
+      let started = false;
+
+      try {
+        for await (const chunk of local) {
+          started = true;
+          content += chunk.text;
+          yield chunk;
+        }
+        stats.localCalls++;
+        stats.localSavings += estimateSavings(prompt, { content });
+        return;
+      } catch (error) {
+        // Streamed tokens cannot be taken back, so only fall back to cloud
+        // if local failed before producing any output
+        if (isAbortError(error) || started) throw error;
+
+        console.warn(
+          "[Synapse] Local inference failed, falling back to cloud:",
+          error
+        );
+      }
+    }
+
+    try {
+      yield* streamOrChatWithProvider(cloudProvider, messages, options);
+      stats.cloudCalls++;
+    } catch (error) {
+      // Typed provider errors already say what went wrong
+      if (isAbortError(error) || error instanceof SynapseError) throw error;
+      throw Errors.networkError(error as Error);
+    }
+  }
+
   const provider: AIProvider & {
     getStatus: () => HybridProviderStatus;
     setLocalProvider: (provider: AIProvider) => void;
     setMode: (mode: InferenceMode) => void;
   } = {
     name: "hybrid",
+    // Local models ignore responseSchema, but output is still validated;
+    // attachments and tools the local model lacks are sent to the cloud
+    capabilities: cloudProvider.capabilities,
 
-    async inference(
+    inference(
       prompt: string,
       options?: InferenceOptions
     ): Promise<InferenceResponse> {
-      const complexity = estimateComplexity(prompt, complexityThreshold);
-
-      // Determine which provider to use
-      let useLocal = false;
-
-      if (currentMode === "local" && localProvider) {
-        useLocal = true;
-      } else if (currentMode === "hybrid" && localProvider) {
-        // Only use local for simple/medium tasks
-        useLocal = complexity !== "complex";
-      }
+      return route(prompt, shouldUseLocal(prompt, options), (target) =>
+        target.inference(prompt, options)
+      );
+    },
 
-      // Try local first if available
-      if (useLocal && localProvider) {
-        try {
-          const startTime = Date.now();
-          const result = await localProvider.inference(prompt, options);
-          stats.localCalls++;
-          stats.localSavings += estimateCost(prompt, result.content);
-          return result;
-        } catch (error) {
-          // Fallback to cloud on local failure
-          console.warn(
-            "[Synapse] Local inference failed, falling back to cloud:",
-            error
-          );
-        }
-      }
+    chat(
+      messages: ChatMessage[],
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      const prompt = messagesToPrompt(messages);
+      return route(
+        prompt,
+        shouldUseLocal(prompt, options, messages),
+        (target) => chatWithProvider(target, messages, options)
+      );
+    },
 
-      // Use cloud
-      try {
-        const result = await cloudProvider.inference(prompt, options);
-        stats.cloudCalls++;
-        return result;
-      } catch (error) {
-        throw Errors.networkError(error as Error);
-      }
+    streamInference(
+      prompt: string,
+      options?: InferenceOptions
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options?.attachments }],
+        options
+      );
     },
 
+    streamChat,
+
     getStatus(): HybridProviderStatus {
       return {
         currentMode,
@@ -204,19 +363,3 @@ export function createHybridProvider(
 
   return provider;
 }
-
-/**
- * Estimates the API cost of a prompt+response (in millicents)
- * Used to calculate savings from local inference
- */
-function estimateCost(prompt: string, response: string): number {
-  // Rough estimate based on GPT-4o-mini pricing
-  // Input: $0.15 / 1M tokens, Output: $0.60 / 1M tokens
-  const inputTokens = Math.ceil(prompt.length / 4);
-  const outputTokens = Math.ceil(response.length / 4);
-
-  const inputCost = (inputTokens / 1_000_000) * 0.15 * 1000; // millicents
-  const outputCost = (outputTokens / 1_000_000) * 0.6 * 1000;
-
-  return inputCost + outputCost;
-}
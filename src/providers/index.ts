@@ -5,6 +5,13 @@ export {
   type AIProvider,
   type InferenceOptions,
   type InferenceResponse,
+  type ProviderCapabilities,
+  type StructuredOutputMode,
+  type StreamChunk,
+  type ToolCallDelta,
+  type TokenLogprob,
+  type EmbeddingOptions,
+  type EmbeddingResponse,
   createOpenAIProvider,
   createMockProvider,
   type OpenAIConfig,
@@ -17,13 +24,46 @@ export {
   type ChatMessage,
   type ChatCompletionRequest,
   type ChatCompletionResponse,
+  type OpenAIStreamChunk,
+  type OpenAIContentPart,
   fetchChatCompletion,
   streamChatCompletion,
+  parseServerSentEvents,
+  parseNdjson,
+  readOpenAIStream,
+  messagesToPrompt,
+  chatWithProvider,
+  streamChatWithProvider,
+  streamOrChatWithProvider,
+  toTextStream,
+  supportsStructuredOutput,
+  intersectCapabilities,
+  buildResponseFormat,
+  type RetryPolicy,
+  type RetryEvent,
+  type HttpRequestOptions,
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  toHttpOptions,
+  toSdkRequestOptions,
+  parseRetryAfter,
+  computeBackoff,
+  type ProviderErrorInit,
+  createProviderError,
+  readProviderError,
+  fromSdkError,
 } from "./base";
 
 // ============================================
 // Cloud Providers
 // ============================================
+export {
+  createAzureOpenAIProvider,
+  type AzureOpenAIConfig,
+  type AzureOpenAIProvider,
+  type AzureInferenceOptions,
+} from "./azure";
+
 export { createAnthropicProvider, type AnthropicConfig } from "./anthropic";
 
 export { createGeminiProvider, type GeminiConfig } from "./gemini";
@@ -32,6 +72,27 @@ export { createGroqProvider, type GroqConfig } from "./groq";
 
 export { createCerebrasProvider, type CerebrasConfig } from "./cerebras";
 
+// ============================================
+// Local Server Provider (Ollama)
+// ============================================
+export {
+  createOllamaProvider,
+  type OllamaConfig,
+  type OllamaModel,
+  type OllamaProvider,
+} from "./ollama";
+
+// ============================================
+// Self-hosted OpenAI-compatible servers (llama.cpp, vLLM, LM Studio)
+// ============================================
+export {
+  createOpenAICompatibleProvider,
+  type OpenAICompatibleConfig,
+  type OpenAICompatibleProvider,
+  type OpenAICompatibleServer,
+  type OpenAICompatibleCapabilityReport,
+} from "./openaiCompatible";
+
 // ============================================
 // Local Provider (Transformers.js)
 // ============================================
@@ -54,6 +115,77 @@ export {
   type DownloadProgress,
 } from "./hybrid";
 
+// ============================================
+// Fallback Provider (ordered failover)
+// ============================================
+export {
+  createFallbackProvider,
+  classifyProviderError,
+  type FallbackPolicy,
+  type FallbackProvider,
+  type FallbackProviderStatus,
+  type FailoverEvent,
+  type ProviderErrorClass,
+} from "./fallback";
+
+// ============================================
+// Load-Balanced Provider (weighted routing)
+// ============================================
+export {
+  createLoadBalancedProvider,
+  type LoadBalancedBackend,
+  type LoadBalancerConfig,
+  type LoadBalancedProvider,
+  type LoadBalancerStatus,
+  type BackendStatus,
+  type RoutingStrategy,
+} from "./loadBalancer";
+
+// ============================================
+// Middleware (interceptors)
+// ============================================
+export {
+  withMiddleware,
+  createLoggingMiddleware,
+  createTimingMiddleware,
+  createPromptGuardMiddleware,
+  type ProviderMiddleware,
+  type ProviderRequest,
+  type LoggingMiddlewareConfig,
+  type TimingEvent,
+} from "./middleware";
+
+// ============================================
+// Timeouts
+// ============================================
+export { withInferenceTimeout } from "./timeout";
+
+// ============================================
+// Attachments (images and documents)
+// ============================================
+export {
+  resolveAttachments,
+  resolveContentParts,
+  attachmentSource,
+  parseDataUrl,
+  DEFAULT_ATTACHMENT_POLICY,
+  type ContentPart,
+  type ResolvedContentPart,
+  type AttachmentPolicy,
+  type AttachmentSource,
+} from "./attachments";
+
+// ============================================
+// Embeddings
+// ============================================
+export {
+  embedWithProvider,
+  embedInBatches,
+  normalizeEmbedding,
+  cosineSimilarity,
+  type EmbeddingBatch,
+} from "./embeddings";
+
 // ============================================
 // Provider Factory (Extensible)
 // ============================================
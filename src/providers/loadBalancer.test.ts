@@ -0,0 +1,284 @@
+/**
+ * Tests for the load-balanced provider
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createLoadBalancedProvider } from "./loadBalancer";
+import { AIProvider, createMockProvider } from "./openai";
+import { createAbortError } from "../utils/abort";
+
+function createNamedProvider(
+  name: string,
+  latencyMs = 0,
+  error?: unknown
+): AIProvider {
+  return {
+    name,
+    async inference() {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      if (error) throw error;
+      return { content: name };
+    },
+  };
+}
+
+async function serve(provider: AIProvider, times: number): Promise<string[]> {
+  const served: string[] = [];
+  for (let i = 0; i < times; i++) {
+    served.push((await provider.inference("Hi")).content);
+  }
+  return served;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createLoadBalancedProvider", () => {
+  it("round-robins across backends", async () => {
+    const provider = createLoadBalancedProvider([
+      createNamedProvider("a"),
+      createNamedProvider("b"),
+      createNamedProvider("c"),
+    ]);
+
+    expect(await serve(provider, 4)).toEqual(["a", "b", "c", "a"]);
+  });
+
+  it("spreads traffic by weight", async () => {
+    const provider = createLoadBalancedProvider(
+      [
+        { provider: createNamedProvider("a"), weight: 3 },
+        { provider: createNamedProvider("b"), weight: 1 },
+      ],
+      { strategy: "weighted" }
+    );
+
+    expect(await serve(provider, 8)).toEqual([
+      "a",
+      "a",
+      "b",
+      "a",
+      "a",
+      "a",
+      "b",
+      "a",
+    ]);
+  });
+
+  it("prefers the backend with the lowest rolling latency", async () => {
+    const provider = createLoadBalancedProvider(
+      [createNamedProvider("slow", 30), createNamedProvider("fast", 1)],
+      { strategy: "least-latency" }
+    );
+
+    // Each backend is measured once, then the faster one wins
+    expect(await serve(provider, 4)).toEqual(["slow", "fast", "fast", "fast"]);
+  });
+
+  it("prefers the cheapest backend", async () => {
+    const provider = createLoadBalancedProvider(
+      [
+        { provider: createNamedProvider("gpt-4o"), costPer1kTokens: 2.5 },
+        { provider: createNamedProvider("gpt-4o-mini"), costPer1kTokens: 0.15 },
+      ],
+      { strategy: "least-cost" }
+    );
+
+    expect(await serve(provider, 2)).toEqual(["gpt-4o-mini", "gpt-4o-mini"]);
+  });
+
+  it("ranks backends by their model's price in the pricing table", async () => {
+    const backend = (model: string, content: string): AIProvider => ({
+      name: "openai",
+      model,
+      inference: async () => ({ content }),
+    });
+    const provider = createLoadBalancedProvider(
+      [
+        backend("gpt-4o", "gpt-4o"),
+        backend("gpt-4o-mini-2024-07-18", "mini"),
+        backend("unlisted", "unlisted"),
+      ],
+      { strategy: "least-cost" }
+    );
+
+    expect(await serve(provider, 2)).toEqual(["mini", "mini"]);
+    expect(provider.getStatus().backends.map((b) => b.costPer1kTokens)).toEqual(
+      [0.00625, 0.000375, null]
+    );
+
+    const custom = createLoadBalancedProvider(
+      [backend("gpt-4o", "gpt-4o"), backend("gpt-4o-mini", "mini")],
+      {
+        strategy: "least-cost",
+        pricing: { openai: { "gpt-4o": { input: 0.1, output: 0.1 } } },
+      }
+    );
+    expect(await serve(custom, 1)).toEqual(["gpt-4o"]);
+  });
+
+  it("skips backends with a high rolling error rate", async () => {
+    const provider = createLoadBalancedProvider(
+      [
+        createNamedProvider("broken", 0, new Error("API error: 503 - down")),
+        createNamedProvider("ok"),
+      ],
+      { windowSize: 4 }
+    );
+
+    await expect(provider.inference("Hi")).rejects.toThrow("503");
+    expect(await serve(provider, 3)).toEqual(["ok", "ok", "ok"]);
+
+    const [broken, ok] = provider.getStatus().backends;
+    expect(broken).toMatchObject({
+      calls: 1,
+      errors: 1,
+      errorRate: 1,
+      healthy: false,
+    });
+    expect(ok).toMatchObject({ calls: 3, errors: 0, healthy: true });
+  });
+
+  it("probes an unhealthy backend once per cooldown", async () => {
+    vi.useFakeTimers();
+    let down = true;
+    const flaky: AIProvider = {
+      name: "flaky",
+      async inference() {
+        if (down) throw new Error("API error: 503 - down");
+        return { content: "flaky" };
+      },
+    };
+    const ok: AIProvider = {
+      name: "ok",
+      inference: async () => ({ content: "ok" }),
+    };
+    const provider = createLoadBalancedProvider([flaky, ok], {
+      cooldownMs: 1000,
+    });
+
+    await expect(provider.inference("Hi")).rejects.toThrow("503");
+    expect(await serve(provider, 2)).toEqual(["ok", "ok"]);
+
+    // The probe fails, so the backend waits another cooldown
+    vi.advanceTimersByTime(1000);
+    await expect(serve(provider, 2)).rejects.toThrow("503");
+    expect(await serve(provider, 3)).toEqual(["ok", "ok", "ok"]);
+    expect(provider.getStatus().backends[0].calls).toBe(2);
+
+    vi.advanceTimersByTime(1000);
+    down = false;
+    expect(await serve(provider, 4)).toEqual(["flaky", "ok", "flaky", "ok"]);
+    expect(provider.getStatus().backends[0]).toMatchObject({
+      errorRate: 0,
+      healthy: true,
+    });
+  });
+
+  it("only offers capabilities every backend has", () => {
+    const provider = createLoadBalancedProvider([
+      {
+        ...createNamedProvider("a"),
+        capabilities: { structuredOutput: "json_schema", tools: true },
+      },
+      {
+        ...createNamedProvider("b"),
+        capabilities: { structuredOutput: "tool", tools: true },
+      },
+    ]);
+
+    expect(provider.capabilities).toEqual({
+      structuredOutput: "json_mode",
+      tools: true,
+      attachments: false,
+      logprobs: false,
+    });
+    expect(
+      createLoadBalancedProvider([
+        createMockProvider(),
+        createNamedProvider("plain"),
+      ]).capabilities?.structuredOutput
+    ).toBe("none");
+  });
+
+  it("reports rolling stats and the serving backend", async () => {
+    vi.useFakeTimers();
+    const provider = createLoadBalancedProvider(
+      [
+        { provider: createNamedProvider("openai", 10), name: "us-east" },
+        { provider: createNamedProvider("openai", 20), name: "eu-west" },
+      ],
+      { windowSize: 2 }
+    );
+
+    for (let i = 0; i < 3; i++) {
+      const pending = provider.inference("Hi");
+      await vi.runAllTimersAsync();
+      expect((await pending).provider).toBe("openai");
+    }
+
+    expect(provider.getStatus()).toEqual({
+      strategy: "round-robin",
+      lastBackend: "us-east",
+      backends: [
+        {
+          name: "us-east",
+          weight: 1,
+          costPer1kTokens: null,
+          calls: 2,
+          errors: 0,
+          inFlight: 0,
+          averageLatencyMs: 10,
+          errorRate: 0,
+          healthy: true,
+        },
+        expect.objectContaining({ name: "eu-west", averageLatencyMs: 20 }),
+      ],
+    });
+  });
+
+  it("does not count cancelled calls as errors", async () => {
+    const provider = createLoadBalancedProvider([
+      createNamedProvider("a", 0, createAbortError()),
+    ]);
+
+    await expect(provider.inference("Hi")).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(provider.getStatus().backends[0]).toMatchObject({
+      calls: 1,
+      errors: 0,
+      inFlight: 0,
+      averageLatencyMs: null,
+    });
+  });
+
+  it("streams from the selected backend", async () => {
+    const provider = createLoadBalancedProvider([
+      createMockProvider({ default: "hello" }),
+      createNamedProvider("plain"),
+    ]);
+
+    const first = [];
+    for await (const chunk of provider.streamInference!("Hi")) {
+      first.push(chunk);
+    }
+    const second = [];
+    for await (const chunk of provider.streamInference!("Hi")) {
+      second.push(chunk);
+    }
+
+    expect(first.map((chunk) => chunk.text).join("")).toBe("hello");
+    expect(first[first.length - 1].provider).toBe("mock");
+    // Backends that cannot stream are called once
+    expect(second.map((chunk) => chunk.text).join("")).toBe("plain");
+    expect(provider.getStatus().backends.map((b) => b.calls)).toEqual([1, 1]);
+  });
+
+  it("requires at least one backend", () => {
+    expect(() => createLoadBalancedProvider([])).toThrow(
+      "at least one backend"
+    );
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Load-Balanced Provider - Spreads requests across backends
+ *
+ * Routes each call to one of several providers (API keys, regions or
+ * vendors) by round-robin, weight, rolling latency or model price. Each
+ * backend keeps rolling latency and error stats; backends whose recent
+ * error rate is too high are skipped while a healthy one is available.
+ * Once per `cooldownMs`, a skipped backend is sent a single probe call; if
+ * it succeeds, its stats are reset and it rejoins the pool.
+ *
+ * Failed calls are not retried on another backend. Wrap the result in
+ * `createFallbackProvider` for that.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  chatWithProvider,
+  intersectCapabilities,
+  streamOrChatWithProvider,
+} from "./base";
+import { isAbortError } from "../utils/abort";
+import {
+  DEFAULT_PRICING,
+  PricingTable,
+  findModelPricing,
+} from "../usage/pricing";
+
+export type RoutingStrategy =
+  "round-robin" | "weighted" | "least-latency" | "least-cost";
+
+export interface LoadBalancedBackend {
+  provider: AIProvider;
+  /** Name in status reports (default: `provider.name`) */
+  name?: string;
+  /** Share of traffic for the weighted strategy (default: 1) */
+  weight?: number;
+  /**
+   * Price in USD per 1K tokens, for the least-cost strategy (default: the
+   * average of the model's input and output prices in `pricing`)
+   */
+  costPer1kTokens?: number;
+}
+
+export interface LoadBalancerConfig {
+  /** How to pick a backend (default: round-robin) */
+  strategy?: RoutingStrategy;
+  /** Number of recent calls the rolling stats cover (default: 20) */
+  windowSize?: number;
+  /** Rolling error rate above which a backend is skipped (default: 0.5) */
+  maxErrorRate?: number;
+  /** Time before a skipped backend is probed again (default: 30000) */
+  cooldownMs?: number;
+  /** Model prices for the least-cost strategy (default: DEFAULT_PRICING) */
+  pricing?: PricingTable;
+}
+
+export interface BackendStatus {
+  name: string;
+  weight: number;
+  /** Null when neither the backend nor the pricing table sets a price */
+  costPer1kTokens: number | null;
+  /** Lifetime counters */
+  calls: number;
+  errors: number;
+  inFlight: number;
+  /** Rolling stats over the last `windowSize` calls */
+  averageLatencyMs: number | null;
+  errorRate: number;
+  healthy: boolean;
+}
+
+export interface LoadBalancerStatus {
+  strategy: RoutingStrategy;
+  /** Backend that served the most recent call */
+  lastBackend: string | null;
+  backends: BackendStatus[];
+}
+
+export interface LoadBalancedProvider extends AIProvider {
+  getStatus(): LoadBalancerStatus;
+}
+
+interface Backend {
+  provider: AIProvider;
+  name: string;
+  weight: number;
+  costPer1kTokens: number | null;
+  calls: number;
+  errors: number;
+  inFlight: number;
+  /** Recent calls, oldest first */
+  samples: Array<{ latencyMs: number; ok: boolean }>;
+  /** Running total for smooth weighted round-robin */
+  currentWeight: number;
+  /** When an unhealthy backend may be probed (epoch ms) */
+  retryAt: number;
+}
+
+function averageLatency(backend: Backend): number | null {
+  const successes = backend.samples.filter((sample) => sample.ok);
+  if (successes.length === 0) return null;
+  const total = successes.reduce((sum, sample) => sum + sample.latencyMs, 0);
+  return total / successes.length;
+}
+
+/** Blended USD price per 1K tokens of the backend's model, if known */
+function priceOf(
+  backend: LoadBalancedBackend,
+  pricing: PricingTable
+): number | null {
+  if (backend.costPer1kTokens !== undefined) return backend.costPer1kTokens;
+  const { provider } = backend;
+  const price = findModelPricing(pricing, provider.name, provider.model);
+  return price ? (price.input + price.output) / 2 / 1000 : null;
+}
+
+function errorRate(backend: Backend): number {
+  if (backend.samples.length === 0) return 0;
+  const failures = backend.samples.filter((sample) => !sample.ok).length;
+  return failures / backend.samples.length;
+}
+
+/**
+ * Creates a provider that routes each call to one of `backends`
+ *
+ * @example
+ * ```ts
+ * const provider = createLoadBalancedProvider(
+ *   [
+ *     { provider: openaiUS, name: "us", weight: 3 },
+ *     { provider: openaiEU, name: "eu", weight: 1 },
+ *   ],
+ *   { strategy: "weighted" }
+ * );
+ * ```
+ */
+export function createLoadBalancedProvider(
+  backends: Array<AIProvider | LoadBalancedBackend>,
+  config: LoadBalancerConfig = {}
+): LoadBalancedProvider {
+  if (backends.length === 0) {
+    throw new Error("createLoadBalancedProvider requires at least one backend");
+  }
+
+  const strategy = config.strategy ?? "round-robin";
+  const windowSize = config.windowSize ?? 20;
+  const maxErrorRate = config.maxErrorRate ?? 0.5;
+  const cooldownMs = config.cooldownMs ?? 30000;
+  const pricing = config.pricing ?? DEFAULT_PRICING;
+
+  const pool: Backend[] = backends.map((entry) => {
+    const backend = "provider" in entry ? entry : { provider: entry };
+    return {
+      provider: backend.provider,
+      name: backend.name ?? backend.provider.name,
+      weight: backend.weight ?? 1,
+      costPer1kTokens: priceOf(backend, pricing),
+      calls: 0,
+      errors: 0,
+      inFlight: 0,
+      samples: [],
+      currentWeight: 0,
+      retryAt: 0,
+    };
+  });
+
+  let nextIndex = 0;
+  let lastBackend: string | null = null;
+
+  function isHealthy(backend: Backend): boolean {
+    return errorRate(backend) <= maxErrorRate;
+  }
+
+  /**
+   * Picks a backend among the healthy ones and those due for a probe (all
+   * of them if none is). Picking an unhealthy backend starts its next
+   * cooldown, so only one probe is sent per cooldown.
+   */
+  function select(): Backend {
+    const backend = pick();
+    if (!isHealthy(backend)) backend.retryAt = Date.now() + cooldownMs;
+    return backend;
+  }
+
+  function pick(): Backend {
+    const now = Date.now();
+    const available = pool.filter(
+      (backend) => isHealthy(backend) || now >= backend.retryAt
+    );
+    const candidates = available.length > 0 ? available : pool;
+
+    switch (strategy) {
+      case "weighted": {
+        // Smooth weighted round-robin: spreads picks evenly over time
+        const total = candidates.reduce((sum, b) => sum + b.weight, 0);
+        let best = candidates[0];
+        for (const backend of candidates) {
+          backend.currentWeight += backend.weight;
+          if (backend.currentWeight > best.currentWeight) best = backend;
+        }
+        best.currentWeight -= total;
+        return best;
+      }
+
+      case "least-latency": {
+        // Backends without samples are tried first so every one gets measured
+        const unmeasured = candidates.find((b) => averageLatency(b) === null);
+        if (unmeasured) return unmeasured;
+        return candidates.reduce((best, backend) =>
+          averageLatency(backend)! < averageLatency(best)! ? backend : best
+        );
+      }
+
+      case "least-cost": {
+        // Unpriced backends are only picked when no priced one is available
+        const cost = (b: Backend) => b.costPer1kTokens ?? Infinity;
+        return candidates.reduce((best, backend) =>
+          cost(backend) < cost(best) ? backend : best
+        );
+      }
+
+      default: {
+        const backend = candidates[nextIndex % candidates.length];
+        nextIndex++;
+        return backend;
+      }
+    }
+  }
+
+  function record(backend: Backend, startedAt: number, ok: boolean): void {
+    backend.inFlight--;
+    // A successful probe brings the backend back with fresh stats
+    if (ok && !isHealthy(backend)) backend.samples = [];
+    backend.samples.push({ latencyMs: Date.now() - startedAt, ok });
+    if (backend.samples.length > windowSize) backend.samples.shift();
+    if (!ok) backend.errors++;
+    if (!isHealthy(backend)) backend.retryAt = Date.now() + cooldownMs;
+  }
+
+  /**
+   * Runs a call on the selected backend and records its outcome.
+   * Cancelled calls are not counted against the backend.
+   */
+  async function route(
+    run: (target: AIProvider) => Promise<InferenceResponse>
+  ): Promise<InferenceResponse> {
+    const backend = select();
+    const startedAt = Date.now();
+    backend.calls++;
+    backend.inFlight++;
+    lastBackend = backend.name;
+
+    try {
+      const response = await run(backend.provider);
+      record(backend, startedAt, true);
+      return {
+        ...response,
+        provider: response.provider ?? backend.provider.name,
+        model: response.model ?? backend.provider.model,
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        backend.inFlight--;
+      } else {
+        record(backend, startedAt, false);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming counterpart of `route`. Latency covers the whole stream.
+   */
+  async function* streamChat(
+    messages: ChatMessage[],
+    options?: InferenceOptions
+  ): AsyncIterable<StreamChunk> {
+    const backend = select();
+    const startedAt = Date.now();
+    backend.calls++;
+    backend.inFlight++;
+    lastBackend = backend.name;
+    let settled = false;
+
+    try {
+      yield* streamOrChatWithProvider(backend.provider, messages, options);
+      settled = true;
+      record(backend, startedAt, true);
+    } catch (error) {
+      settled = true;
+      if (isAbortError(error)) {
+        backend.inFlight--;
+      } else {
+        record(backend, startedAt, false);
+      }
+      throw error;
+    } finally {
+      // The consumer stopped reading early
+      if (!settled) backend.inFlight--;
+    }
+  }
+
+  return {
+    name: "load-balancer",
+
+    // Any backend may serve a call, so only shared capabilities are offered
+    get capabilities() {
+      return intersectCapabilities(pool.map((backend) => backend.provider));
+    },
+
+    inference(
+      prompt: string,
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return route((target) => target.inference(prompt, options));
+    },
+
+    chat(
+      messages: ChatMessage[],
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return route((target) => chatWithProvider(target, messages, options));
+    },
+
+    streamInference(
+      prompt: string,
+      options?: InferenceOptions
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options?.attachments }],
+        options
+      );
+    },
+
+    streamChat,
+
+    getStatus(): LoadBalancerStatus {
+      return {
+        strategy,
+        lastBackend,
+        backends: pool.map((backend) => ({
+          name: backend.name,
+          weight: backend.weight,
+          costPer1kTokens: backend.costPer1kTokens,
+          calls: backend.calls,
+          errors: backend.errors,
+          inFlight: backend.inFlight,
+          averageLatencyMs: averageLatency(backend),
+          errorRate: errorRate(backend),
+          healthy: isHealthy(backend),
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * Provider Middleware - Interceptors around any provider
+ *
+ * `withMiddleware` wraps a provider so cross-cutting concerns (logging,
+ * timing, redaction, guards, metrics) can inspect or rewrite each call:
+ * the prompt or messages and options on the way in, the response or each
+ * stream chunk on the way out, and failures.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import {
+  ChatMessage,
+  chatWithProvider,
+  streamChatWithProvider,
+  copyProvider,
+} from "./base";
+import { PromptGuard, PromptGuardConfig } from "../security/promptGuard";
+
+/**
+ * One provider call as middlewares see it. Prompt calls (`inference`,
+ * `streamInference`) carry `prompt`; chat calls carry `messages`.
+ */
+export interface ProviderRequest {
+  prompt?: string;
+  messages?: ChatMessage[];
+  options: InferenceOptions;
+  stream: boolean;
+  /** Name of the wrapped provider */
+  provider: string;
+  /** Scratch space shared by the middlewares of this call */
+  metadata: Record<string, unknown>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks run around each call. The first middleware is the outermost: it
+ * sees the request first and the response, chunks and errors last.
+ * Returning nothing keeps the value unchanged.
+ */
+export interface ProviderMiddleware {
+  name?: string;
+  /** Inspect or replace the request before it reaches the provider */
+  onRequest?: (
+    request: ProviderRequest
+  ) => MaybePromise<ProviderRequest | void>;
+  /** Inspect or replace a completed (non-streaming) response */
+  onResponse?: (
+    response: InferenceResponse,
+    request: ProviderRequest
+  ) => MaybePromise<InferenceResponse | void>;
+  /** Inspect or replace a stream chunk; return null to drop it */
+  onChunk?: (
+    chunk: StreamChunk,
+    request: ProviderRequest
+  ) => StreamChunk | null | void;
+  /**
+   * Observe a finished stream, with the chunks folded into a response.
+   * Chunks were already yielded, so the response cannot be changed. A
+   * stream the consumer stopped reading early ends with `finishReason`
+   * "cancelled".
+   */
+  onStreamEnd?: (response: InferenceResponse, request: ProviderRequest) => void;
+  /** Observe a failed call; the error is rethrown afterwards */
+  onError?: (error: unknown, request: ProviderRequest) => void;
+}
+
+/**
+ * Wraps `provider` so every call runs through `middlewares`. Other
+ * properties of the provider (e.g. `getStatus`) are kept.
+ *
+ * @example
+ * ```ts
+ * const provider = withMiddleware(createOpenAIProvider({ apiKey }), [
+ *   createLoggingMiddleware(),
+ *   createPromptGuardMiddleware({ strictMode: true }),
+ * ]);
+ * ```
+ */
+export function withMiddleware<P extends AIProvider>(
+  provider: P,
+  middlewares: ProviderMiddleware[]
+): P {
+  const outermostLast = [...middlewares].reverse();
+
+  async function prepare(request: ProviderRequest): Promise<ProviderRequest> {
+    for (const middleware of middlewares) {
+      request = (await middleware.onRequest?.(request)) ?? request;
+    }
+    return request;
+  }
+
+  function fail(error: unknown, request: ProviderRequest): never {
+    for (const middleware of outermostLast) {
+      middleware.onError?.(error, request);
+    }
+    throw error;
+  }
+
+  async function run(initial: ProviderRequest): Promise<InferenceResponse> {
+    let request = initial;
+    try {
+      request = await prepare(initial);
+      let response = request.messages
+        ? await chatWithProvider(provider, request.messages, request.options)
+        : await provider.inference(request.prompt ?? "", request.options);
+
+      for (const middleware of outermostLast) {
+        response =
+          (await middleware.onResponse?.(response, request)) ?? response;
+      }
+      return response;
+    } catch (error) {
+      return fail(error, request);
+    }
+  }
+
+  async function* runStream(
+    initial: ProviderRequest
+  ): AsyncIterable<StreamChunk> {
+    let request = initial;
+    const folded: InferenceResponse = { content: "" };
+    let finished = false;
+    let failed = false;
+
+    try {
+      request = await prepare(initial);
+      const chunks =
+        request.messages === undefined && provider.streamInference
+          ? provider.streamInference(request.prompt ?? "", request.options)
+          : streamChatWithProvider(
+              provider,
+              request.messages ?? [
+                {
+                  role: "user",
+                  content: request.prompt ?? "",
+                  attachments: request.options?.attachments,
+                },
+              ],
+              request.options
+            );
+      if (!chunks) {
+        throw new Error(`Provider "${provider.name}" cannot stream`);
+      }
+
+      for await (const original of chunks) {
+        let chunk: StreamChunk | null = original;
+        for (const middleware of outermostLast) {
+          if (!chunk) break;
+          const result: StreamChunk | null | void = middleware.onChunk?.(
+            chunk,
+            request
+          );
+          // null drops the chunk; undefined keeps it
+          if (result !== undefined) chunk = result;
+        }
+        if (!chunk) continue;
+
+        folded.content += chunk.text;
+        folded.provider = chunk.provider;
+        if (chunk.finishReason) folded.finishReason = chunk.finishReason;
+        if (chunk.usage) folded.usage = chunk.usage;
+        yield chunk;
+      }
+      finished = true;
+    } catch (error) {
+      failed = true;
+      fail(error, request);
+    } finally {
+      // Also runs when the consumer stops reading (break or return)
+      if (!failed) {
+        if (!finished) folded.finishReason = "cancelled";
+        for (const middleware of outermostLast) {
+          middleware.onStreamEnd?.(folded, request);
+        }
+      }
+    }
+  }
+
+  function createRequest(
+    call: Pick<ProviderRequest, "prompt" | "messages">,
+    options: InferenceOptions | undefined,
+    stream: boolean
+  ): ProviderRequest {
+    return {
+      ...call,
+      options: options ?? {},
+      stream,
+      provider: provider.name,
+      metadata: {},
+    };
+  }
+
+  const canStream = !!(provider.streamInference || provider.streamChat);
+
+  return Object.assign(copyProvider(provider), {
+    inference(
+      prompt: string,
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return run(createRequest({ prompt }, options, false));
+    },
+
+    chat(
+      messages: ChatMessage[],
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return run(createRequest({ messages }, options, false));
+    },
+
+    streamInference: canStream
+      ? (prompt: string, options?: InferenceOptions) =>
+          runStream(createRequest({ prompt }, options, true))
+      : undefined,
+
+    streamChat: canStream
+      ? (messages: ChatMessage[], options?: InferenceOptions) =>
+          runStream(createRequest({ messages }, options, true))
+      : undefined,
+  });
+}
+
+// ============================================
+// Built-in middlewares
+// ============================================
+
+/**
+ * Text the model will see for a request, for logging
+ */
+function requestText(request: ProviderRequest): string {
+  if (request.prompt !== undefined) return request.prompt;
+  return (request.messages ?? []).map((message) => message.content).join("\n");
+}
+
+export interface LoggingMiddlewareConfig {
+  /** Where log lines go (default: console.log with a "[Synapse]" prefix) */
+  log?: (...args: unknown[]) => void;
+  /** Also log every stream chunk (default: false) */
+  logChunks?: boolean;
+  /** Longest prompt or response excerpt logged (default: 200) */
+  maxLength?: number;
+}
+
+/**
+ * Logs each request, its response or error, and optionally stream chunks
+ */
+export function createLoggingMiddleware(
+  config: LoggingMiddlewareConfig = {}
+): ProviderMiddleware {
+  const log =
+    config.log ?? ((...args: unknown[]) => console.log("[Synapse]", ...args));
+  const maxLength = config.maxLength ?? 200;
+  const excerpt = (text: string) =>
+    text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+
+  return {
+    name: "logging",
+    onRequest(request) {
+      log(`${request.provider} request${request.stream ? " (stream)" : ""}:`, {
+        prompt: excerpt(requestText(request)),
+      });
+    },
+    onResponse(response, request) {
+      log(`${request.provider} response:`, {
+        content: excerpt(response.content),
+        usage: response.usage,
+        finishReason: response.finishReason,
+      });
+    },
+    onChunk(chunk, request) {
+      if (config.logChunks) log(`${request.provider} chunk:`, chunk);
+    },
+    onStreamEnd(response, request) {
+      log(`${request.provider} stream finished:`, {
+        content: excerpt(response.content),
+        usage: response.usage,
+        finishReason: response.finishReason,
+      });
+    },
+    onError(error, request) {
+      log(`${request.provider} error:`, error);
+    },
+  };
+}
+
+/**
+ * Timing of one call, reported when it settles
+ */
+export interface TimingEvent {
+  provider: string;
+  stream: boolean;
+  durationMs: number;
+  /** Time until the first chunk with text (streams only) */
+  timeToFirstTokenMs?: number;
+  /** False for failed calls and cancelled streams */
+  ok: boolean;
+}
+
+/**
+ * Measures call duration and, for streams, time to first token
+ */
+export function createTimingMiddleware(
+  onTiming: (event: TimingEvent) => void
+): ProviderMiddleware {
+  const startKey = "timing.start";
+  const firstTokenKey = "timing.firstToken";
+
+  function report(request: ProviderRequest, ok: boolean): void {
+    const start = request.metadata[startKey] as number;
+    const firstToken = request.metadata[firstTokenKey] as number | undefined;
+    onTiming({
+      provider: request.provider,
+      stream: request.stream,
+      durationMs: Date.now() - start,
+      timeToFirstTokenMs:
+        firstToken !== undefined ? firstToken - start : undefined,
+      ok,
+    });
+  }
+
+  return {
+    name: "timing",
+    onRequest(request) {
+      request.metadata[startKey] = Date.now();
+    },
+    onResponse(_response, request) {
+      report(request, true);
+    },
+    onChunk(chunk, request) {
+      if (chunk.text && request.metadata[firstTokenKey] === undefined) {
+        request.metadata[firstTokenKey] = Date.now();
+      }
+    },
+    onStreamEnd(response, request) {
+      report(request, response.finishReason !== "cancelled");
+    },
+    onError(_error, request) {
+      if (request.metadata[startKey] !== undefined) report(request, false);
+    },
+  };
+}
+
+/**
+ * Runs `PromptGuard.validateIntent` on the prompt, or on every user
+ * message of a chat, before the provider is called. Blocked requests
+ * throw a SECURITY_VIOLATION error.
+ */
+export function createPromptGuardMiddleware(
+  guard: PromptGuard | PromptGuardConfig = {}
+): ProviderMiddleware {
+  const promptGuard =
+    guard instanceof PromptGuard ? guard : new PromptGuard(guard);
+
+  return {
+    name: "prompt-guard",
+    onRequest(request) {
+      if (request.prompt !== undefined) {
+        promptGuard.validateIntent(request.prompt);
+        return;
+      }
+      for (const message of request.messages ?? []) {
+        if (message.role === "user")
+          promptGuard.validateIntent(message.content);
+      }
+    },
+  };
+}
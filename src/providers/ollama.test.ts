@@ -0,0 +1,284 @@
+/**
+ * @vitest-environment node
+ *
+ * Tests for the Ollama provider against a stub Ollama HTTP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { z } from "zod";
+import { createOllamaProvider } from "./ollama";
+import { createProvider } from "./factory";
+import { toTextStream } from "./base";
+import { defineTool } from "../tools";
+import { RecordedRequest, listen, readRequest } from "../test/stubHttp";
+
+interface ReplyLine {
+  message?: { role: string; content: string; tool_calls?: unknown[] };
+  response?: string;
+  done: boolean;
+}
+
+const FINAL = {
+  done: true,
+  done_reason: "stop",
+  prompt_eval_count: 7,
+  eval_count: 3,
+};
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+// Overrides the next /api/chat reply
+let nextChatReply: ReplyLine[] | null = null;
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const recorded = await readRequest(request);
+    requests.push(recorded);
+    const { body } = recorded;
+
+    if (request.url === "/api/tags") {
+      response.setHeader("Content-Type", "application/json");
+      response.end(
+        JSON.stringify({
+          models: [
+            {
+              name: "llama3.2:latest",
+              model: "llama3.2:latest",
+              modified_at: "2024-10-01T00:00:00Z",
+              size: 2019393189,
+              digest: "a80c4f17acd5",
+              details: {
+                family: "llama",
+                parameter_size: "3.2B",
+                quantization_level: "Q4_K_M",
+              },
+            },
+          ],
+        })
+      );
+      return;
+    }
+
+    if (body.model === "missing") {
+      response.statusCode = 404;
+      response.end(JSON.stringify({ error: "model 'missing' not found" }));
+      return;
+    }
+
+    let lines: ReplyLine[];
+    if (request.url === "/api/chat") {
+      lines = nextChatReply ?? [
+        { message: { role: "assistant", content: "Hello" }, done: false },
+        { message: { role: "assistant", content: " there" }, done: false },
+        { message: { role: "assistant", content: "" }, ...FINAL },
+      ];
+      nextChatReply = null;
+    } else {
+      lines = [
+        { response: "Generated", done: false },
+        { response: " text", done: false },
+        { response: "", ...FINAL },
+      ];
+    }
+
+    if (body.stream) {
+      response.setHeader("Content-Type", "application/x-ndjson");
+      for (const line of lines) response.write(`${JSON.stringify(line)}\n`);
+      response.end();
+      return;
+    }
+
+    // Non-streaming replies are the merged lines
+    const merged = lines.reduce<Partial<ReplyLine>>((result, line) => {
+      if (line.message) {
+        result.message = {
+          ...line.message,
+          content: (result.message?.content ?? "") + line.message.content,
+        };
+      }
+      if (line.response !== undefined) {
+        result.response = (result.response ?? "") + line.response;
+      }
+      return { ...line, ...result };
+    }, {});
+    response.setHeader("Content-Type", "application/json");
+    response.end(JSON.stringify({ ...merged, ...FINAL }));
+  });
+
+  baseUrl = await listen(server);
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  nextChatReply = null;
+});
+
+describe("createOllamaProvider", () => {
+  it("uses /api/chat for messages", async () => {
+    const provider = createOllamaProvider({ baseUrl, model: "llama3.2" });
+
+    const response = await provider.chat!([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hi" },
+    ]);
+
+    expect(response).toEqual({
+      content: "Hello there",
+      usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 },
+      finishReason: "stop",
+      toolCalls: undefined,
+    });
+    expect(requests[0].url).toBe("/api/chat");
+    expect(requests[0].body).toMatchObject({
+      model: "llama3.2",
+      stream: false,
+      messages: [
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Hi" },
+      ],
+    });
+  });
+
+  it("uses /api/generate for single prompts", async () => {
+    const provider = createOllamaProvider({ baseUrl });
+
+    const response = await provider.inference("Write something");
+
+    expect(response.content).toBe("Generated text");
+    expect(requests[0].url).toBe("/api/generate");
+    expect(requests[0].body.prompt).toBe("Write something");
+  });
+
+  it("streams NDJSON from both endpoints", async () => {
+    const provider = createOllamaProvider({ baseUrl });
+
+    const chunks = [];
+    for await (const chunk of provider.streamChat!([
+      { role: "user", content: "Hi" },
+    ])) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(["Hello", " there", ""]);
+    expect(chunks[2]).toMatchObject({
+      provider: "ollama",
+      finishReason: "stop",
+      usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 },
+    });
+
+    const text = [];
+    for await (const token of toTextStream(provider.streamInference!("Go"))) {
+      text.push(token);
+    }
+    expect(text.join("")).toBe("Generated text");
+    expect(requests[1].body.stream).toBe(true);
+  });
+
+  it("sends the JSON schema as format, or json in json_mode", async () => {
+    const responseSchema = z.object({ title: z.string() });
+
+    await createOllamaProvider({ baseUrl }).inference("Go", {
+      responseSchema,
+    });
+    await createOllamaProvider({
+      baseUrl,
+      structuredOutput: "json_mode",
+    }).inference("Go", { responseSchema });
+    await createOllamaProvider({ baseUrl }).inference("Go");
+
+    expect(requests[0].body.format).toMatchObject({
+      type: "object",
+      properties: { title: { type: "string" } },
+      required: ["title"],
+    });
+    expect(requests[1].body.format).toBe("json");
+    expect(requests[2].body.format).toBeUndefined();
+  });
+
+  it("sends keep_alive and model options", async () => {
+    const provider = createOllamaProvider({
+      baseUrl,
+      keepAlive: "10m",
+      modelOptions: { num_ctx: 8192 },
+      defaultOptions: { temperature: 0.2 },
+    });
+
+    await provider.inference("Go", { maxTokens: 100 });
+
+    expect(requests[0].body).toMatchObject({
+      keep_alive: "10m",
+      options: { num_ctx: 8192, temperature: 0.2, num_predict: 100 },
+    });
+  });
+
+  it("sends tools over /api/chat and parses tool calls", async () => {
+    nextChatReply = [
+      {
+        message: {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ function: { name: "add", arguments: { a: 1 } } }],
+        },
+        ...FINAL,
+      },
+    ];
+    const add = defineTool({
+      name: "add",
+      description: "Adds numbers",
+      inputSchema: z.object({ a: z.number() }),
+      handler: async ({ a }) => a + 1,
+    });
+
+    const response = await createOllamaProvider({ baseUrl }).inference("Add", {
+      tools: [add],
+    });
+
+    expect(requests[0].url).toBe("/api/chat");
+    expect(requests[0].body.tools?.[0]).toMatchObject({
+      type: "function",
+      function: { name: "add", description: "Adds numbers" },
+    });
+    expect(response.toolCalls).toEqual([
+      { id: "call_0", name: "add", arguments: '{"a":1}' },
+    ]);
+  });
+
+  it("lists installed models", async () => {
+    const models = await createOllamaProvider({ baseUrl }).listModels();
+
+    expect(requests[0]).toMatchObject({ method: "GET", url: "/api/tags" });
+    expect(models).toEqual([
+      {
+        name: "llama3.2:latest",
+        model: "llama3.2:latest",
+        modifiedAt: "2024-10-01T00:00:00Z",
+        size: 2019393189,
+        digest: "a80c4f17acd5",
+        details: {
+          family: "llama",
+          parameterSize: "3.2B",
+          quantizationLevel: "Q4_K_M",
+        },
+      },
+    ]);
+  });
+
+  it("reports API errors", async () => {
+    await expect(
+      createOllamaProvider({ baseUrl, model: "missing" }).inference("Go")
+    ).rejects.toThrow("Ollama API error: 404");
+  });
+
+  it("is registered in the provider factory", async () => {
+    const provider = createProvider({ type: "ollama", baseUrl });
+
+    expect(provider.name).toBe("ollama");
+    expect((await provider.inference("Go")).content).toBe("Generated text");
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Ollama Provider - Local server inference
+ *
+ * Talks to Ollama's native API rather than its OpenAI-compatible shim, so
+ * JSON-schema structured output, `keep_alive` and model listing work.
+ * Supports any model pulled into Ollama: llama3.2, qwen2.5, mistral, etc.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  StructuredOutputMode,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from "./openai";
+import {
+  ChatMessage,
+  parseNdjson,
+  fetchWithRetry,
+  toHttpOptions,
+  readProviderError,
+  createProviderError,
+  parseToolArguments,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import { embedInBatches } from "./embeddings";
+import { zodToJsonSchema, JsonSchema } from "../compiler/jsonSchema";
+import type { ToolCall } from "../tools/types";
+
+export interface OllamaConfig {
+  /** Ollama server URL (default: http://localhost:11434) */
+  baseUrl?: string;
+  /** Model to use */
+  model?: string;
+  /** Model used by `embed` (default: nomic-embed-text) */
+  embeddingModel?: string;
+  /**
+   * How long the model stays loaded after a request, e.g. "10m", 0 to
+   * unload immediately or -1 to keep it loaded (server default: "5m")
+   */
+  keepAlive?: string | number;
+  /**
+   * How `responseSchema` is enforced:
+   * - json_schema (default): `format` set to the JSON Schema (Ollama 0.5+)
+   * - json_mode: `format: "json"` for older servers
+   * - none: prompt-based only
+   */
+  structuredOutput?: Extract<
+    StructuredOutputMode,
+    "json_schema" | "json_mode" | "none"
+  >;
+  /** Extra model parameters sent as `options` (num_ctx, top_k, seed, ...) */
+  modelOptions?: Record<string, unknown>;
+  /** Extra request headers, e.g. for an authenticating reverse proxy */
+  headers?: Record<string, string>;
+  /** Default inference options */
+  defaultOptions?: {
+    temperature?: number;
+    maxTokens?: number;
+  };
+}
+
+/**
+ * A model installed on the Ollama server (from `/api/tags`)
+ */
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modifiedAt: string;
+  size: number;
+  digest: string;
+  details?: {
+    family?: string;
+    parameterSize?: string;
+    quantizationLevel?: string;
+  };
+}
+
+export interface OllamaProvider extends AIProvider {
+  /** Lists the models installed on the server */
+  listModels(options?: { signal?: AbortSignal }): Promise<OllamaModel[]>;
+}
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+const DEFAULT_MODEL = "llama3.2";
+const DEFAULT_EMBEDDING_MODEL = "nomic-embed-text";
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+}
+
+/**
+ * A response object from `/api/chat` or `/api/generate`. When streaming,
+ * each NDJSON line has this shape and the last one has `done: true`.
+ */
+interface OllamaResponse {
+  message?: OllamaMessage;
+  response?: string;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * The installed model list from `/api/tags`
+ */
+interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+    model?: string;
+    modified_at: string;
+    size: number;
+    digest: string;
+    details?: {
+      family?: string;
+      parameter_size?: string;
+      quantization_level?: string;
+    };
+  }>;
+}
+
+/**
+ * Maps chat messages to Ollama's format. Tool call arguments are sent as
+ * objects and tool results are plain `tool` messages.
+ */
+function toOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+  return messages.map((message) => {
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: message.role,
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          function: {
+            name: call.name,
+            arguments: parseToolArguments(call.arguments),
+          },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+}
+
+function toUsage(data: OllamaResponse): InferenceResponse["usage"] {
+  if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+    return undefined;
+  }
+
+  const promptTokens = data.prompt_eval_count || 0;
+  const completionTokens = data.eval_count || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Ollama does not assign call IDs, so generate stable ones per response
+ */
+function parseToolCalls(message: OllamaMessage | undefined): ToolCall[] {
+  return (message?.tool_calls ?? []).map((call, index) => ({
+    id: `call_${index}`,
+    name: call.function.name,
+    arguments: JSON.stringify(call.function.arguments ?? {}),
+  }));
+}
+
+export function createOllamaProvider(
+  config: OllamaConfig = {}
+): OllamaProvider {
+  const model = config.model || DEFAULT_MODEL;
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+  const structuredOutput = config.structuredOutput ?? "json_schema";
+
+  /**
+   * Request fields shared by both endpoints. The response format is left
+   * to the prompt when tools are attached so the model can still call them.
+   */
+  function toRequest(options: InferenceOptions, stream: boolean) {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const hasTools = !!options.tools && options.tools.length > 0;
+
+    let format: "json" | JsonSchema | undefined;
+    if (options.responseSchema && !hasTools) {
+      if (structuredOutput === "json_schema") {
+        format = zodToJsonSchema(options.responseSchema);
+      } else if (structuredOutput === "json_mode") {
+        format = "json";
+      }
+    }
+
+    return {
+      model,
+      stream,
+      format,
+      keep_alive: config.keepAlive,
+      options: {
+        ...config.modelOptions,
+        temperature: mergedOptions.temperature ?? 0.7,
+        num_predict: mergedOptions.maxTokens ?? 2048,
+      },
+    };
+  }
+
+  async function post(
+    path: string,
+    body: Record<string, unknown>,
+    options: Pick<InferenceOptions, "signal" | "retry" | "onRetry">
+  ): Promise<Response> {
+    const response = await fetchWithRetry(
+      `${baseUrl}${path}`,
+      {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...config.headers,
+        },
+        body: JSON.stringify(body),
+      },
+      toHttpOptions("ollama", options)
+    );
+
+    if (!response.ok) {
+      throw await readProviderError(response, "Ollama");
+    }
+
+    return response;
+  }
+
+  /**
+   * Yields stream chunks for an NDJSON response from either endpoint
+   */
+  async function* readStream(response: Response): AsyncIterable<StreamChunk> {
+    const final: StreamChunk = {
+      text: "",
+      role: "assistant",
+      provider: "ollama",
+    };
+    let toolIndex = 0;
+
+    for await (const data of parseNdjson<OllamaResponse>(response)) {
+      // Errors after the headers were sent arrive as a JSON line
+      if (data.error) {
+        throw createProviderError({ provider: "Ollama", body: data });
+      }
+
+      const text = data.message?.content ?? data.response;
+      if (text) yield { text, role: "assistant", provider: "ollama" };
+
+      // Tool calls arrive whole
+      for (const call of parseToolCalls(data.message)) {
+        const index = toolIndex++;
+        yield {
+          text: "",
+          role: "assistant",
+          toolCall: { ...call, index, id: `call_${index}` },
+          provider: "ollama",
+        };
+      }
+
+      if (data.done) {
+        final.finishReason = data.done_reason || "stop";
+        const usage = toUsage(data);
+        if (usage) final.usage = usage;
+      }
+    }
+
+    yield final;
+  }
+
+  function chatBody(
+    messages: ChatMessage[],
+    options: InferenceOptions,
+    stream: boolean
+  ) {
+    return {
+      ...toRequest(options, stream),
+      messages: toOllamaMessages(messages),
+      tools: options.tools?.length
+        ? options.tools.map((tool) => ({
+            type: "function",
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: zodToJsonSchema(tool.inputSchema),
+            },
+          }))
+        : undefined,
+    };
+  }
+
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const response = await post(
+      "/api/chat",
+      chatBody(messages, options, false),
+      options
+    );
+    const data: OllamaResponse = await response.json();
+    const toolCalls = parseToolCalls(data.message);
+
+    return {
+      content: data.message?.content ?? "",
+      usage: toUsage(data),
+      finishReason: data.done_reason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const response = await post(
+      "/api/chat",
+      chatBody(messages, options, true),
+      options
+    );
+    yield* readStream(response);
+  }
+
+  // Single prompts use /api/generate; tools are only supported by /api/chat
+  function usesChat(options: InferenceOptions): boolean {
+    return !!options.tools && options.tools.length > 0;
+  }
+
+  return withInferenceTimeout({
+    name: "ollama",
+    model,
+    capabilities: { structuredOutput, tools: true },
+
+    async inference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      if (usesChat(options)) {
+        return chat([{ role: "user", content: prompt }], options);
+      }
+
+      const response = await post(
+        "/api/generate",
+        { ...toRequest(options, false), prompt },
+        options
+      );
+      const data: OllamaResponse = await response.json();
+
+      return {
+        content: data.response ?? "",
+        usage: toUsage(data),
+        finishReason: data.done_reason,
+      };
+    },
+
+    async *streamInference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      if (usesChat(options)) {
+        yield* streamChat([{ role: "user", content: prompt }], options);
+        return;
+      }
+
+      const response = await post(
+        "/api/generate",
+        { ...toRequest(options, true), prompt },
+        options
+      );
+      yield* readStream(response);
+    },
+
+    chat,
+    streamChat,
+
+    embed(
+      texts: string[],
+      options: EmbeddingOptions = {}
+    ): Promise<EmbeddingResponse> {
+      const embeddingModel =
+        options.model || config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+      return embedInBatches(
+        texts,
+        embeddingModel,
+        options,
+        64,
+        async (batch) => {
+          const response = await post(
+            "/api/embed",
+            {
+              model: embeddingModel,
+              input: batch,
+              dimensions: options.dimensions,
+              keep_alive: config.keepAlive,
+            },
+            options
+          );
+          const data = await response.json();
+
+          return {
+            embeddings: data.embeddings ?? [],
+            promptTokens: data.prompt_eval_count,
+          };
+        }
+      );
+    },
+
+    async listModels(options = {}) {
+      const response = await fetchWithRetry(
+        `${baseUrl}/api/tags`,
+        { signal: options.signal, headers: config.headers },
+        { provider: "ollama" }
+      );
+
+      if (!response.ok) {
+        throw await readProviderError(response, "Ollama");
+      }
+
+      const data: OllamaTagsResponse = await response.json();
+      return (data.models ?? []).map((entry): OllamaModel => ({
+        name: entry.name,
+        model: entry.model ?? entry.name,
+        modifiedAt: entry.modified_at,
+        size: entry.size,
+        digest: entry.digest,
+        details: entry.details && {
+          family: entry.details.family,
+          parameterSize: entry.details.parameter_size,
+          quantizationLevel: entry.details.quantization_level,
+        },
+      }));
+    },
+  });
+}
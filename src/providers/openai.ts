@@ -2,10 +2,125 @@
  * AI Provider Interface - Abstraction for different LLM backends
  */
 
+import { ZodSchema } from "zod";
+import { throwIfAborted } from "../utils/abort";
+import type { ChatMessage, RetryPolicy, RetryEvent } from "./base";
+import type { AnyToolDefinition, ToolCall } from "../tools/types";
+import {
+  resolveAttachments,
+  ContentPart,
+  AttachmentPolicy,
+} from "./attachments";
+import {
+  messagesToPrompt,
+  buildResponseFormat,
+  toOpenAIMessages,
+  toOpenAITools,
+  parseOpenAIToolCalls,
+  parseOpenAILogprobs,
+  parseServerSentEvents,
+  readOpenAIStream,
+  OpenAIStreamChunk,
+  fetchWithRetry,
+  toHttpOptions,
+  readProviderError,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import { embedInBatches } from "./embeddings";
+
 export interface InferenceOptions {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  /** Cancels the in-flight request when aborted */
+  signal?: AbortSignal;
+  /**
+   * Expected output shape. Providers with native structured output
+   * constrain generation to it; others ignore it and rely on the prompt.
+   */
+  responseSchema?: ZodSchema<unknown>;
+  /** Tools the model may call (see `runToolLoop` for execution) */
+  tools?: AnyToolDefinition[];
+  /** Retry policy for transient HTTP failures (false disables retries) */
+  retry?: RetryPolicy | false;
+  /** Called before a failed request is retried */
+  onRetry?: (event: RetryEvent) => void;
+  /**
+   * Deadline for the whole call, retries included. Expiry cancels the
+   * request and throws INFERENCE_TIMEOUT.
+   */
+  timeoutMs?: number;
+  /** Longest gap between stream chunks, including before the first one */
+  idleTimeoutMs?: number;
+  /**
+   * Images or documents sent with the prompt of `inference`; chat
+   * messages carry their own (see `ProviderCapabilities.attachments`)
+   */
+  attachments?: ContentPart[];
+  /** Size, type and URL limits for attachments */
+  attachmentPolicy?: AttachmentPolicy;
+  /**
+   * Return the log probability of each generated token
+   * (see `ProviderCapabilities.logprobs`)
+   */
+  logprobs?: boolean;
+}
+
+/**
+ * A generated token and its natural-log probability
+ */
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+}
+
+export interface EmbeddingOptions {
+  /** Embedding model (default: the provider's `embeddingModel`) */
+  model?: string;
+  /** Output size, for models that support shortened embeddings */
+  dimensions?: number;
+  /** Scale every vector to unit length (default: false; transformers: true) */
+  normalize?: boolean;
+  /** Texts sent per request (default: the provider's limit) */
+  batchSize?: number;
+  /** Cancels the remaining requests when aborted */
+  signal?: AbortSignal;
+  /** Retry policy for transient HTTP failures (false disables retries) */
+  retry?: RetryPolicy | false;
+  /** Called before a failed request is retried */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface EmbeddingResponse {
+  /** One vector per input text, in input order */
+  embeddings: number[][];
+  /** Model that produced the embeddings */
+  model: string;
+  usage?: {
+    promptTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * How a provider enforces `InferenceOptions.responseSchema`
+ * - json_schema: native JSON Schema constrained decoding
+ * - json_mode: guarantees valid JSON, but not the schema shape
+ * - grammar: GBNF grammar derived from the schema (llama.cpp)
+ * - tool: forces a tool call whose input is the schema
+ * - none: prompt-based only
+ */
+export type StructuredOutputMode =
+  "json_schema" | "json_mode" | "grammar" | "tool" | "none";
+
+export interface ProviderCapabilities {
+  structuredOutput: StructuredOutputMode;
+  /** Native tool / function calling */
+  tools?: boolean;
+  /** Accepts image and document attachments */
+  attachments?: boolean;
+  /** Returns token log probabilities when `logprobs` is requested */
+  logprobs?: boolean;
 }
 
 export interface InferenceResponse {
@@ -16,10 +131,55 @@ export interface InferenceResponse {
     totalTokens: number;
   };
   finishReason?: string;
+  /** Provider that served the request (set by composite providers) */
+  provider?: string;
+  /** Model of the provider that served the request (set by composite providers) */
+  model?: string;
+  /** Tool calls requested by the model (only when `tools` were passed) */
+  toolCalls?: ToolCall[];
+  /** Generated tokens with their log probabilities (only with `logprobs`) */
+  logprobs?: TokenLogprob[];
+}
+
+/**
+ * Incremental piece of a tool call. The first delta for an `index`
+ * carries the ID and name; later ones append to `arguments`.
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  /** JSON fragment to append to the call's arguments */
+  arguments?: string;
+}
+
+/**
+ * A piece of a streamed response. The final chunk of every stream has an
+ * empty `text` and carries `finishReason` (and `usage` when reported).
+ */
+export interface StreamChunk {
+  /** Text delta (empty for metadata-only chunks) */
+  text: string;
+  role: "assistant";
+  toolCall?: ToolCallDelta;
+  /**
+   * Generated tokens with their log probabilities (only with `logprobs`).
+   * Concatenated over all chunks they cover the whole response; a chunk's
+   * tokens need not line up with its `text`.
+   */
+  logprobs?: TokenLogprob[];
+  usage?: InferenceResponse["usage"];
+  finishReason?: string;
+  /** Provider that produced the chunk (the backend, for composite providers) */
+  provider: string;
 }
 
 export interface AIProvider {
   name: string;
+  /** Model the provider calls, used to price its usage */
+  model?: string;
+  /** Optional features this provider supports natively */
+  capabilities?: ProviderCapabilities;
   inference(
     prompt: string,
     options?: InferenceOptions
@@ -27,7 +187,22 @@ export interface AIProvider {
   streamInference?(
     prompt: string,
     options?: InferenceOptions
-  ): AsyncIterable<string>;
+  ): AsyncIterable<StreamChunk>;
+  /** Multi-turn completion with native system/user/assistant roles */
+  chat?(
+    messages: ChatMessage[],
+    options?: InferenceOptions
+  ): Promise<InferenceResponse>;
+  /** Streaming variant of `chat` */
+  streamChat?(
+    messages: ChatMessage[],
+    options?: InferenceOptions
+  ): AsyncIterable<StreamChunk>;
+  /** Embeds each text as a vector (see `embedWithProvider`) */
+  embed?(
+    texts: string[],
+    options?: EmbeddingOptions
+  ): Promise<EmbeddingResponse>;
 }
 
 /**
@@ -37,114 +212,209 @@ export interface OpenAIConfig {
   apiKey: string;
   baseUrl?: string;
   model?: string;
+  /** Model used by `embed` (default: text-embedding-3-small) */
+  embeddingModel?: string;
   defaultOptions?: InferenceOptions;
+  /**
+   * Structured output support of the target server
+   * (default: "json_schema"; use "json_mode" or "none" for compatible backends)
+   */
+  structuredOutput?: StructuredOutputMode;
 }
 
 export function createOpenAIProvider(config: OpenAIConfig): AIProvider {
   const baseUrl = config.baseUrl || "https://api.openai.com/v1";
   const model = config.model || "gpt-4o-mini";
+  const structuredOutput = config.structuredOutput ?? "json_schema";
 
-  return {
-    name: "openai",
-
-    async inference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): Promise<InferenceResponse> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
 
-      const response = await fetch(`${baseUrl}/chat/completions`, {
+    const response = await fetchWithRetry(
+      `${baseUrl}/chat/completions`,
+      {
         method: "POST",
+        signal: options.signal,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${config.apiKey}`,
         },
         body: JSON.stringify({
           model,
-          messages: [{ role: "user", content: prompt }],
+          messages: toOpenAIMessages(prepared),
           temperature: mergedOptions.temperature ?? 0.7,
           max_tokens: mergedOptions.maxTokens ?? 2048,
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            structuredOutput
+          ),
+          tools: toOpenAITools(options.tools),
+          logprobs: options.logprobs || undefined,
         }),
-      });
+      },
+      toHttpOptions("openai", options)
+    );
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-      }
+    if (!response.ok) {
+      throw await readProviderError(response, "OpenAI");
+    }
 
-      const data = await response.json();
-      const choice = data.choices[0];
-
-      return {
-        content: choice.message.content,
-        usage: data.usage
-          ? {
-              promptTokens: data.usage.prompt_tokens,
-              completionTokens: data.usage.completion_tokens,
-              totalTokens: data.usage.total_tokens,
-            }
-          : undefined,
-        finishReason: choice.finish_reason,
-      };
-    },
+    const data = await response.json();
+    const choice = data.choices[0];
 
-    async *streamInference(
-      prompt: string,
-      options: InferenceOptions = {}
-    ): AsyncIterable<string> {
-      const mergedOptions = { ...config.defaultOptions, ...options };
+    return {
+      content: choice.message.content ?? "",
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+      toolCalls: parseOpenAIToolCalls(choice.message.tool_calls),
+      logprobs: parseOpenAILogprobs(choice.logprobs),
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const prepared = await resolveAttachments(
+      messages,
+      options.attachmentPolicy
+    );
 
-      const response = await fetch(`${baseUrl}/chat/completions`, {
+    const response = await fetchWithRetry(
+      `${baseUrl}/chat/completions`,
+      {
         method: "POST",
+        signal: options.signal,
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${config.apiKey}`,
         },
         body: JSON.stringify({
           model,
-          messages: [{ role: "user", content: prompt }],
+          messages: toOpenAIMessages(prepared),
           temperature: mergedOptions.temperature ?? 0.7,
           max_tokens: mergedOptions.maxTokens ?? 2048,
+          response_format: buildResponseFormat(
+            options.responseSchema,
+            structuredOutput
+          ),
+          tools: toOpenAITools(options.tools),
+          logprobs: options.logprobs || undefined,
           stream: true,
+          // Usage is only reported in streams when asked for
+          stream_options: { include_usage: true },
         }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-      }
+      },
+      toHttpOptions("openai", options)
+    );
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
+    if (!response.ok) {
+      throw await readProviderError(response, "OpenAI");
+    }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
+    yield* readOpenAIStream(
+      parseServerSentEvents<OpenAIStreamChunk>(response),
+      "openai"
+    );
+  }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+  function embed(
+    texts: string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse> {
+    const embeddingModel =
+      options.model || config.embeddingModel || "text-embedding-3-small";
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    return embedInBatches(
+      texts,
+      embeddingModel,
+      options,
+      2048,
+      async (batch) => {
+        const response = await fetchWithRetry(
+          `${baseUrl}/embeddings`,
+          {
+            method: "POST",
+            signal: options.signal,
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${config.apiKey}`,
+            },
+            body: JSON.stringify({
+              model: embeddingModel,
+              input: batch,
+              dimensions: options.dimensions,
+            }),
+          },
+          toHttpOptions("openai", options)
+        );
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.slice(6);
-            if (data === "[DONE]") return;
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices[0]?.delta?.content;
-              if (content) yield content;
-            } catch {
-              // Skip invalid JSON
-            }
-          }
+        if (!response.ok) {
+          throw await readProviderError(response, "OpenAI");
         }
+
+        const data = await response.json();
+        const items = [...data.data].sort(
+          (a: { index: number }, b: { index: number }) => a.index - b.index
+        );
+        return {
+          embeddings: items.map(
+            (item: { embedding: number[] }) => item.embedding
+          ),
+          promptTokens: data.usage?.prompt_tokens,
+        };
       }
+    );
+  }
+
+  return withInferenceTimeout({
+    name: "openai",
+    model,
+    capabilities: {
+      structuredOutput,
+      tools: true,
+      attachments: true,
+      logprobs: true,
     },
-  };
+
+    inference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return chat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    streamInference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return streamChat(
+        [{ role: "user", content: prompt, attachments: options.attachments }],
+        options
+      );
+    },
+
+    chat,
+    streamChat,
+    embed,
+  });
 }
 
 /**
@@ -153,16 +423,56 @@ export function createOpenAIProvider(config: OpenAIConfig): AIProvider {
 export function createMockProvider(
   responses: Record<string, string>
 ): AIProvider {
+  async function inference(
+    prompt: string,
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    throwIfAborted(options.signal);
+
+    // Find a matching response based on prompt keywords
+    for (const [key, value] of Object.entries(responses)) {
+      if (prompt.toLowerCase().includes(key.toLowerCase())) {
+        return { content: value };
+      }
+    }
+    return { content: responses["default"] || "{}" };
+  }
+
+  // Streams the matched response word by word
+  async function* streamInference(
+    prompt: string,
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const { content } = await inference(prompt, options);
+    const words = content.split(" ");
+
+    for (let i = 0; i < words.length; i++) {
+      throwIfAborted(options.signal);
+      yield {
+        text: words[i] + (i < words.length - 1 ? " " : ""),
+        role: "assistant",
+        provider: "mock",
+      };
+    }
+
+    yield {
+      text: "",
+      role: "assistant",
+      finishReason: "stop",
+      provider: "mock",
+    };
+  }
+
   return {
     name: "mock",
-    async inference(prompt: string): Promise<InferenceResponse> {
-      // Find a matching response based on prompt keywords
-      for (const [key, value] of Object.entries(responses)) {
-        if (prompt.toLowerCase().includes(key.toLowerCase())) {
-          return { content: value };
-        }
-      }
-      return { content: responses["default"] || "{}" };
+    capabilities: { structuredOutput: "none" },
+    inference,
+    streamInference,
+    chat(messages: ChatMessage[], options?: InferenceOptions) {
+      return inference(messagesToPrompt(messages), options);
+    },
+    streamChat(messages: ChatMessage[], options?: InferenceOptions) {
+      return streamInference(messagesToPrompt(messages), options);
     },
   };
 }
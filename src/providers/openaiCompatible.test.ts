@@ -0,0 +1,291 @@
+/**
+ * @vitest-environment node
+ *
+ * Tests for the OpenAI-compatible provider against stub llama.cpp, vLLM
+ * and LM Studio servers
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { z } from "zod";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createProvider } from "./factory";
+import { defineTool } from "../tools";
+import { RecordedRequest, listen, readRequest } from "../test/stubHttp";
+
+type Routes = Record<string, unknown>;
+
+const COMPLETION = {
+  choices: [
+    {
+      message: { role: "assistant", content: '{"title":"Hi"}' },
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+};
+
+const STREAM = [
+  { choices: [{ delta: { content: "Hel" } }] },
+  { choices: [{ delta: { content: "lo" }, finish_reason: "stop" }] },
+  {
+    choices: [],
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+  },
+];
+
+let server: Server | null = null;
+let requests: RecordedRequest[] = [];
+
+/**
+ * Starts a server answering GETs from `routes` (404 otherwise) and chat
+ * completions with a fixed reply. Returns the `/v1` base URL.
+ */
+async function startServer(routes: Routes): Promise<string> {
+  server = createServer(async (request, response) => {
+    const recorded = await readRequest(request);
+    requests.push(recorded);
+    const { body } = recorded;
+    response.setHeader("Content-Type", "application/json");
+
+    if (request.url === "/v1/chat/completions") {
+      if (body.model === "missing") {
+        response.statusCode = 404;
+        response.end(JSON.stringify({ error: "model not found" }));
+      } else if (body.stream) {
+        response.setHeader("Content-Type", "text/event-stream");
+        for (const event of STREAM) {
+          response.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+        response.end("data: [DONE]\n\n");
+      } else {
+        response.end(JSON.stringify(COMPLETION));
+      }
+      return;
+    }
+
+    const route = routes[request.url ?? ""];
+    if (route === undefined) response.statusCode = 404;
+    response.end(JSON.stringify(route ?? { error: "Not found" }));
+  });
+
+  return `${await listen(server)}/v1`;
+}
+
+const models = (ownedBy: string) => ({
+  object: "list",
+  data: [{ id: "qwen2.5-7b", object: "model", owned_by: ownedBy }],
+});
+
+const LLAMA_CPP: Routes = {
+  "/v1/models": models("llamacpp"),
+  "/props": { default_generation_settings: { n_ctx: 4096 } },
+};
+const VLLM: Routes = {
+  "/v1/models": models("vllm"),
+  "/version": { version: "0.6.3" },
+};
+const LM_STUDIO: Routes = {
+  "/v1/models": models("organization_owner"),
+  "/api/v0/models": { data: [{ id: "qwen2.5-7b", state: "loaded" }] },
+};
+
+const responseSchema = z.object({ title: z.string() });
+
+function chatRequests() {
+  return requests.filter((request) => request.url === "/v1/chat/completions");
+}
+
+afterEach(async () => {
+  requests = [];
+  if (server) await new Promise((resolve) => server!.close(resolve));
+  server = null;
+});
+
+describe("createOpenAICompatibleProvider", () => {
+  it("detects llama.cpp and sends a GBNF grammar", async () => {
+    const baseUrl = await startServer(LLAMA_CPP);
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+
+    const response = await provider.inference("Go", { responseSchema });
+
+    expect(response).toEqual({
+      content: '{"title":"Hi"}',
+      usage: { promptTokens: 5, completionTokens: 4, totalTokens: 9 },
+      finishReason: "stop",
+      toolCalls: undefined,
+    });
+    expect(provider.getCapabilityReport()).toEqual({
+      server: "llama.cpp",
+      models: ["qwen2.5-7b"],
+      structuredOutput: "grammar",
+      tools: true,
+      streamUsage: false,
+      logprobs: true,
+      probed: true,
+    });
+    expect(provider.capabilities?.structuredOutput).toBe("grammar");
+
+    const [request] = chatRequests();
+    expect(request.body.model).toBe("qwen2.5-7b");
+    expect(request.body.grammar).toContain(
+      String.raw`root ::= "{" ws "\"title\""`
+    );
+    expect(request.body.response_format).toBeUndefined();
+  });
+
+  it("detects vLLM from /version and uses json_schema", async () => {
+    const baseUrl = await startServer({
+      ...VLLM,
+      "/v1/models": models("someone"),
+    });
+    const provider = createOpenAICompatibleProvider({ baseUrl, model: "m" });
+
+    await provider.inference("Go", { responseSchema });
+
+    expect(provider.getCapabilityReport()).toMatchObject({
+      server: "vllm",
+      structuredOutput: "json_schema",
+      streamUsage: true,
+    });
+    const [request] = chatRequests();
+    expect(request.body.model).toBe("m");
+    expect(request.body.grammar).toBeUndefined();
+    expect(request.body.response_format).toMatchObject({
+      type: "json_schema",
+    });
+  });
+
+  it("detects LM Studio from its native API", async () => {
+    const baseUrl = await startServer(LM_STUDIO);
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+
+    const report = await provider.probe();
+
+    expect(report.server).toBe("lmstudio");
+    expect(report.structuredOutput).toBe("json_schema");
+  });
+
+  it("falls back to prompt-only output for unknown servers", async () => {
+    const baseUrl = await startServer({ "/v1/models": models("someone") });
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+    const add = defineTool({
+      name: "add",
+      description: "Adds numbers",
+      inputSchema: z.object({ a: z.number() }),
+      handler: async ({ a }) => a + 1,
+    });
+
+    await provider.inference("Go", { responseSchema, tools: [add] });
+
+    expect(provider.getCapabilityReport()).toMatchObject({
+      server: "generic",
+      structuredOutput: "none",
+      tools: false,
+    });
+    const [request] = chatRequests();
+    expect(request.body.response_format).toBeUndefined();
+    expect(request.body.tools).toBeUndefined();
+  });
+
+  it("probes once and applies overrides", async () => {
+    const baseUrl = await startServer(LLAMA_CPP);
+    const provider = createOpenAICompatibleProvider({
+      baseUrl,
+      capabilities: { structuredOutput: "json_mode" },
+    });
+
+    await Promise.all([provider.inference("A"), provider.inference("B")]);
+    await provider.inference("C", { responseSchema });
+
+    expect(requests.filter((r) => r.url === "/v1/models")).toHaveLength(1);
+    expect(provider.getCapabilityReport()?.structuredOutput).toBe("json_mode");
+    expect(chatRequests()[2].body.response_format).toEqual({
+      type: "json_object",
+    });
+
+    await provider.probe({ force: true });
+    expect(requests.filter((r) => r.url === "/v1/models")).toHaveLength(2);
+  });
+
+  it("keeps the shared probe running when one caller aborts", async () => {
+    const baseUrl = await startServer(LLAMA_CPP);
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+    const controller = new AbortController();
+
+    const aborted = provider.inference("A", { signal: controller.signal });
+    const other = provider.inference("B");
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ code: "ABORTED" });
+    await expect(other).resolves.toMatchObject({ content: '{"title":"Hi"}' });
+    expect(provider.getCapabilityReport()?.server).toBe("llama.cpp");
+    expect(requests.filter((r) => r.url === "/v1/models")).toHaveLength(1);
+    expect(chatRequests()).toHaveLength(1);
+  });
+
+  it("uses the configured server without feature probes", async () => {
+    const baseUrl = await startServer(LLAMA_CPP);
+    const provider = createOpenAICompatibleProvider({
+      baseUrl,
+      server: "vllm",
+    });
+
+    expect(provider.capabilities?.structuredOutput).toBe("json_schema");
+    expect((await provider.probe()).server).toBe("vllm");
+    expect(requests.map((request) => request.url)).toEqual(["/v1/models"]);
+  });
+
+  it("retries probing after the model listing fails", async () => {
+    const baseUrl = await startServer({});
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+
+    expect(await provider.probe()).toMatchObject({
+      server: "generic",
+      probed: false,
+    });
+    expect(provider.getCapabilityReport()).toBeNull();
+
+    await provider.probe();
+    expect(requests).toHaveLength(2);
+  });
+
+  it("streams chunks and requests usage where supported", async () => {
+    const baseUrl = await startServer(VLLM);
+    const provider = createOpenAICompatibleProvider({ baseUrl });
+
+    const chunks = [];
+    for await (const chunk of provider.streamInference!("Go")) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hello");
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      provider: "openai-compatible",
+      finishReason: "stop",
+      usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+    });
+    expect(chatRequests()[0].body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it("reports API errors", async () => {
+    const baseUrl = await startServer(VLLM);
+
+    await expect(
+      createOpenAICompatibleProvider({ baseUrl, model: "missing" }).inference(
+        "Go"
+      )
+    ).rejects.toThrow("OpenAI-compatible API error: 404");
+  });
+
+  it("is registered in the provider factory", async () => {
+    const baseUrl = await startServer(LLAMA_CPP);
+    const provider = createProvider({ type: "openai-compatible", baseUrl });
+
+    expect(provider.name).toBe("openai-compatible");
+    expect((await provider.inference("Go")).content).toBe('{"title":"Hi"}');
+  });
+});
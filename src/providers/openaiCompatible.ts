@@ -0,0 +1,381 @@
+/**
+ * OpenAI-Compatible Provider - Self-hosted servers (llama.cpp, vLLM, LM Studio)
+ *
+ * These servers speak an OpenAI-ish dialect but differ in structured
+ * output, tool calling and stream usage reporting. The provider probes
+ * `/v1/models` and server-specific endpoints once, then shapes requests
+ * for the detected server: GBNF grammars for llama.cpp, `json_schema`
+ * response formats for vLLM and LM Studio, and prompt-only output for
+ * unknown servers.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  StructuredOutputMode,
+} from "./openai";
+import {
+  ChatMessage,
+  buildResponseFormat,
+  toOpenAIMessages,
+  toOpenAITools,
+  parseOpenAIToolCalls,
+  parseOpenAILogprobs,
+  parseServerSentEvents,
+  readOpenAIStream,
+  OpenAIStreamChunk,
+  fetchWithRetry,
+  toHttpOptions,
+  readProviderError,
+} from "./base";
+import { withInferenceTimeout } from "./timeout";
+import { zodToGbnf } from "../compiler/gbnf";
+import { Errors } from "../errors";
+import { abortable } from "../utils/abort";
+
+export type OpenAICompatibleServer =
+  "llama.cpp" | "vllm" | "lmstudio" | "generic";
+
+/**
+ * What the provider detected about the server
+ */
+export interface OpenAICompatibleCapabilityReport {
+  server: OpenAICompatibleServer;
+  /** Model IDs listed by `/v1/models` */
+  models: string[];
+  /** How `responseSchema` is enforced */
+  structuredOutput: StructuredOutputMode;
+  /** Native tool calling */
+  tools: boolean;
+  /** Whether streams report usage (`stream_options.include_usage`) */
+  streamUsage: boolean;
+  /** Token log probabilities (`logprobs`) */
+  logprobs: boolean;
+  /** False when probing failed and defaults are used */
+  probed: boolean;
+}
+
+export interface OpenAICompatibleConfig {
+  /** API URL including the version prefix, e.g. http://localhost:8080/v1 */
+  baseUrl: string;
+  /** API key, if the server requires one */
+  apiKey?: string;
+  /** Model to use (default: the first model listed by the server) */
+  model?: string;
+  /** Skip server detection */
+  server?: OpenAICompatibleServer;
+  /** Override detected capabilities */
+  capabilities?: Partial<
+    Pick<
+      OpenAICompatibleCapabilityReport,
+      "structuredOutput" | "tools" | "streamUsage" | "logprobs"
+    >
+  >;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Default inference options */
+  defaultOptions?: {
+    temperature?: number;
+    maxTokens?: number;
+  };
+}
+
+export interface OpenAICompatibleProvider extends AIProvider {
+  /**
+   * Detects the server and its features. Runs automatically before the
+   * first request; results are cached unless `force` is set.
+   */
+  probe(options?: {
+    signal?: AbortSignal;
+    force?: boolean;
+  }): Promise<OpenAICompatibleCapabilityReport>;
+  /** Latest probe result (null before the first successful probe) */
+  getCapabilityReport(): OpenAICompatibleCapabilityReport | null;
+}
+
+const SERVER_DEFAULTS: Record<
+  OpenAICompatibleServer,
+  Pick<
+    OpenAICompatibleCapabilityReport,
+    "structuredOutput" | "tools" | "streamUsage" | "logprobs"
+  >
+> = {
+  "llama.cpp": {
+    structuredOutput: "grammar",
+    tools: true,
+    streamUsage: false,
+    logprobs: true,
+  },
+  vllm: {
+    structuredOutput: "json_schema",
+    tools: true,
+    streamUsage: true,
+    logprobs: true,
+  },
+  lmstudio: {
+    structuredOutput: "json_schema",
+    tools: true,
+    streamUsage: false,
+    logprobs: false,
+  },
+  // Unknown servers may reject anything beyond the basic request
+  generic: {
+    structuredOutput: "none",
+    tools: false,
+    streamUsage: false,
+    logprobs: false,
+  },
+};
+
+const PROVIDER_NAME = "openai-compatible";
+
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig
+): OpenAICompatibleProvider {
+  const baseUrl = config.baseUrl.replace(/\/$/, "");
+  // Feature endpoints (/props, /version, /api/v0) live outside /v1
+  const rootUrl = baseUrl.replace(/\/v\d+$/, "");
+
+  let report: OpenAICompatibleCapabilityReport | null = null;
+  let probing: Promise<OpenAICompatibleCapabilityReport> | null = null;
+
+  function headers(): Record<string, string> {
+    return {
+      ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      ...config.headers,
+    };
+  }
+
+  function toReport(
+    server: OpenAICompatibleServer,
+    models: string[],
+    probed: boolean
+  ): OpenAICompatibleCapabilityReport {
+    return {
+      server,
+      models,
+      ...SERVER_DEFAULTS[server],
+      ...config.capabilities,
+      probed,
+    };
+  }
+
+  /**
+   * GETs a JSON endpoint, returning null for any failure
+   */
+  async function tryGet<T>(url: string): Promise<T | null> {
+    try {
+      const response = await fetch(url, { headers: headers() });
+      return response.ok ? await response.json() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function detectServer(
+    ownedBy: string[]
+  ): Promise<OpenAICompatibleServer> {
+    if (ownedBy.includes("llamacpp")) return "llama.cpp";
+    if (ownedBy.includes("vllm")) return "vllm";
+
+    const [props, version, lmstudio] = await Promise.all([
+      tryGet<{ default_generation_settings?: unknown }>(`${rootUrl}/props`),
+      tryGet<{ version?: unknown }>(`${rootUrl}/version`),
+      tryGet<{ data?: unknown }>(`${rootUrl}/api/v0/models`),
+    ]);
+
+    if (props?.default_generation_settings) return "llama.cpp";
+    if (typeof version?.version === "string") return "vllm";
+    if (Array.isArray(lmstudio?.data)) return "lmstudio";
+    return "generic";
+  }
+
+  async function runProbe(): Promise<OpenAICompatibleCapabilityReport> {
+    const listing = await tryGet<{
+      data?: Array<{ id: string; owned_by?: string }>;
+    }>(`${baseUrl}/models`);
+    if (!listing) {
+      // Not cached, so the next request probes again
+      return toReport(config.server ?? "generic", [], false);
+    }
+
+    const entries = listing.data ?? [];
+    const server =
+      config.server ??
+      (await detectServer(entries.map((entry) => entry.owned_by ?? "")));
+
+    report = toReport(
+      server,
+      entries.map((entry) => entry.id),
+      true
+    );
+    return report;
+  }
+
+  function probe(
+    options: { signal?: AbortSignal; force?: boolean } = {}
+  ): Promise<OpenAICompatibleCapabilityReport> {
+    if (report && !options.force) return Promise.resolve(report);
+
+    // Shared by concurrent requests, so it runs without any one caller's
+    // signal; each caller only stops waiting when its own signal fires
+    if (!probing || options.force) {
+      probing = runProbe().finally(() => {
+        probing = null;
+      });
+    }
+    // The probe itself never fails, so a rejection is the caller's abort
+    return abortable(probing, options.signal).catch((caught: Error) => {
+      throw Errors.aborted(caught);
+    });
+  }
+
+  async function buildRequest(
+    messages: ChatMessage[],
+    options: InferenceOptions,
+    stream: boolean
+  ): Promise<Record<string, unknown>> {
+    const capabilities = await probe({ signal: options.signal });
+    const mergedOptions = { ...config.defaultOptions, ...options };
+    const tools = capabilities.tools ? toOpenAITools(options.tools) : undefined;
+
+    const body: Record<string, unknown> = {
+      model: config.model ?? capabilities.models[0] ?? "default",
+      messages: toOpenAIMessages(messages),
+      temperature: mergedOptions.temperature ?? 0.7,
+      max_tokens: mergedOptions.maxTokens ?? 2048,
+      tools,
+    };
+
+    if (options.logprobs && capabilities.logprobs) {
+      body.logprobs = true;
+    }
+
+    // A grammar would stop the model from calling tools
+    if (options.responseSchema && !tools) {
+      if (capabilities.structuredOutput === "grammar") {
+        body.grammar = zodToGbnf(options.responseSchema);
+      } else {
+        body.response_format = buildResponseFormat(
+          options.responseSchema,
+          capabilities.structuredOutput
+        );
+      }
+    }
+
+    if (stream) {
+      body.stream = true;
+      if (capabilities.streamUsage) {
+        body.stream_options = { include_usage: true };
+      }
+    }
+
+    return body;
+  }
+
+  async function post(
+    body: Record<string, unknown>,
+    options: InferenceOptions
+  ): Promise<Response> {
+    const response = await fetchWithRetry(
+      `${baseUrl}/chat/completions`,
+      {
+        method: "POST",
+        signal: options.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...headers(),
+        },
+        body: JSON.stringify(body),
+      },
+      toHttpOptions(PROVIDER_NAME, options)
+    );
+
+    if (!response.ok) {
+      throw await readProviderError(response, "OpenAI-compatible");
+    }
+
+    return response;
+  }
+
+  async function chat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const response = await post(
+      await buildRequest(messages, options, false),
+      options
+    );
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    if (!choice) {
+      throw new Error("No response from OpenAI-compatible server");
+    }
+
+    return {
+      content: choice.message?.content ?? "",
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+      finishReason: choice.finish_reason,
+      toolCalls: parseOpenAIToolCalls(choice.message?.tool_calls),
+      logprobs: parseOpenAILogprobs(choice.logprobs),
+    };
+  }
+
+  async function* streamChat(
+    messages: ChatMessage[],
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const response = await post(
+      await buildRequest(messages, options, true),
+      options
+    );
+
+    yield* readOpenAIStream(
+      parseServerSentEvents<OpenAIStreamChunk>(response),
+      PROVIDER_NAME
+    );
+  }
+
+  return withInferenceTimeout({
+    name: PROVIDER_NAME,
+    model: config.model,
+
+    // Reflects the latest probe; before probing, the configured server's defaults
+    get capabilities() {
+      const current = report ?? toReport(config.server ?? "generic", [], false);
+      return {
+        structuredOutput: current.structuredOutput,
+        tools: current.tools,
+        logprobs: current.logprobs,
+      };
+    },
+
+    inference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return chat([{ role: "user", content: prompt }], options);
+    },
+
+    streamInference(
+      prompt: string,
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return streamChat([{ role: "user", content: prompt }], options);
+    },
+
+    chat,
+    streamChat,
+    probe,
+    getCapabilityReport: () => report,
+  });
+}
@@ -0,0 +1,448 @@
+/**
+ * Streaming contract shared by every provider
+ *
+ * Each provider streams the same reply from a stubbed transport (fetch or
+ * SDK) and must yield it incrementally as chunks tagged with the producing
+ * backend, end with a finish reason chunk and honor cancellation.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AIProvider, StreamChunk } from "./openai";
+import { createOpenAIProvider, createMockProvider } from "./openai";
+import { readOpenAIStream, toTextStream } from "./base";
+import { createAnthropicProvider } from "./anthropic";
+import { createGeminiProvider } from "./gemini";
+import { createGroqProvider } from "./groq";
+import { createCerebrasProvider } from "./cerebras";
+import { createOllamaProvider } from "./ollama";
+import { createAzureOpenAIProvider } from "./azure";
+import { createFallbackProvider } from "./fallback";
+import { createLoadBalancedProvider } from "./loadBalancer";
+import {
+  withMiddleware,
+  createLoggingMiddleware,
+  createTimingMiddleware,
+} from "./middleware";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createTransformersProvider } from "./transformers";
+import { createHybridProvider } from "./hybrid";
+import { createAbortError } from "../utils/abort";
+
+// Hoisted so the module mocks below can use the same reply
+const fixture = vi.hoisted(() => {
+  const TOKENS = ["Hello", " streaming", " world"];
+  const TEXT = TOKENS.join("");
+  const USAGE = { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 };
+
+  async function* chunks() {
+    for (const token of TOKENS) {
+      yield { choices: [{ delta: { content: token }, finish_reason: null }] };
+    }
+    yield {
+      choices: [{ delta: {}, finish_reason: "stop" }],
+      usage: USAGE,
+      x_groq: { usage: USAGE },
+    };
+  }
+
+  class Client {
+    chat = {
+      completions: {
+        create: async (
+          params: { stream?: boolean },
+          options?: { signal?: AbortSignal }
+        ) => {
+          if (options?.signal?.aborted) {
+            const error = new Error("The operation was aborted");
+            error.name = "AbortError";
+            throw error;
+          }
+          if (!params.stream) throw new Error("Expected a streaming request");
+          return chunks();
+        },
+      },
+    };
+  }
+
+  return { TOKENS, TEXT, USAGE, Client };
+});
+
+const { TOKENS, TEXT, USAGE } = fixture;
+
+vi.mock("groq-sdk", () => ({ default: fixture.Client }));
+vi.mock("@cerebras/cerebras_cloud_sdk", () => ({ default: fixture.Client }));
+vi.mock("@xenova/transformers", () => ({
+  env: {},
+  pipeline: async () => async () => [{ generated_text: fixture.TEXT }],
+}));
+
+function sse(events: unknown[]): string {
+  return events
+    .map((event) =>
+      typeof event === "string" ? event : `data: ${JSON.stringify(event)}\n\n`
+    )
+    .join("");
+}
+
+/**
+ * Like the OpenAI API, usage is only sent (in a trailing chunk without
+ * choices) when the request sets `stream_options.include_usage`
+ */
+function openAIEvents(includeUsage: boolean): string {
+  return sse([
+    ...TOKENS.map((token) => ({
+      choices: [{ delta: { content: token }, finish_reason: null }],
+    })),
+    { choices: [{ delta: {}, finish_reason: "stop" }] },
+    ...(includeUsage ? [{ choices: [], usage: USAGE }] : []),
+    "data: [DONE]\n\n",
+  ]);
+}
+
+function anthropicEvents(): string {
+  return sse([
+    { type: "message_start", message: { usage: { input_tokens: 5 } } },
+    ...TOKENS.map((token) => ({
+      type: "content_block_delta",
+      delta: { type: "text_delta", text: token },
+    })),
+    {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn" },
+      usage: { output_tokens: 3 },
+    },
+    { type: "message_stop" },
+  ]);
+}
+
+function geminiEvents(): string {
+  return sse(
+    TOKENS.map((token, index) => ({
+      candidates: [
+        {
+          content: { parts: [{ text: token }] },
+          ...(index === TOKENS.length - 1 && { finishReason: "STOP" }),
+        },
+      ],
+      ...(index === TOKENS.length - 1 && {
+        usageMetadata: {
+          promptTokenCount: 5,
+          candidatesTokenCount: 3,
+          totalTokenCount: 8,
+        },
+      }),
+    }))
+  );
+}
+
+function ollamaEvents(chat: boolean): string {
+  const text = (token: string) =>
+    chat
+      ? { message: { role: "assistant", content: token } }
+      : { response: token };
+
+  return [
+    ...TOKENS.map((token) => ({ ...text(token), done: false })),
+    { ...text(""), done: true, prompt_eval_count: 5, eval_count: 3 },
+  ]
+    .map((line) => `${JSON.stringify(line)}\n`)
+    .join("");
+}
+
+/**
+ * Serves SSE (or NDJSON) bodies in small byte chunks so events span reads
+ */
+async function fakeFetch(
+  url: string,
+  init: { signal?: AbortSignal; body?: string }
+): Promise<Response> {
+  if (init.signal?.aborted) throw createAbortError();
+
+  const request = init.body ? JSON.parse(init.body) : {};
+  let body = openAIEvents(!!request.stream_options?.include_usage);
+  if (url.includes("/messages")) body = anthropicEvents();
+  if (url.includes("streamGenerateContent")) body = geminiEvents();
+  if (url.includes("/api/chat")) body = ollamaEvents(true);
+  if (url.includes("/api/generate")) body = ollamaEvents(false);
+
+  const bytes = new TextEncoder().encode(body);
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 16) {
+        controller.enqueue(bytes.slice(i, i + 16));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { status: 200 });
+}
+
+interface ContractCase {
+  name: string;
+  create: () => AIProvider;
+  /** Backend expected in `chunk.provider` */
+  provider: string;
+  /** Whether the backend reports token usage */
+  reportsUsage: boolean;
+}
+
+const cases: ContractCase[] = [
+  {
+    name: "openai",
+    create: () => createOpenAIProvider({ apiKey: "test" }),
+    provider: "openai",
+    reportsUsage: true,
+  },
+  {
+    name: "azure-openai",
+    create: () =>
+      createAzureOpenAIProvider({
+        apiKey: "test",
+        endpoint: "https://test.openai.azure.com",
+      }),
+    provider: "azure-openai",
+    reportsUsage: true,
+  },
+  {
+    name: "anthropic",
+    create: () => createAnthropicProvider({ apiKey: "test" }),
+    provider: "anthropic",
+    reportsUsage: true,
+  },
+  {
+    name: "gemini",
+    create: () => createGeminiProvider({ apiKey: "test" }),
+    provider: "gemini",
+    reportsUsage: true,
+  },
+  {
+    name: "groq",
+    create: () => createGroqProvider({ apiKey: "test" }),
+    provider: "groq",
+    reportsUsage: true,
+  },
+  {
+    name: "cerebras",
+    create: () => createCerebrasProvider({ apiKey: "test" }),
+    provider: "cerebras",
+    reportsUsage: true,
+  },
+  {
+    name: "ollama",
+    create: () => createOllamaProvider(),
+    provider: "ollama",
+    reportsUsage: true,
+  },
+  {
+    name: "openai-compatible",
+    create: () =>
+      createOpenAICompatibleProvider({
+        baseUrl: "http://localhost:8000/v1",
+        server: "vllm",
+      }),
+    provider: "openai-compatible",
+    reportsUsage: true,
+  },
+  {
+    name: "transformers",
+    create: () => createTransformersProvider({ modelId: "Xenova/test" }),
+    provider: "transformers",
+    reportsUsage: false,
+  },
+  {
+    name: "mock",
+    create: () => createMockProvider({ default: TEXT }),
+    provider: "mock",
+    reportsUsage: false,
+  },
+  {
+    name: "hybrid (cloud)",
+    create: () =>
+      createHybridProvider({
+        cloudProvider: createOpenAIProvider({ apiKey: "test" }),
+        forceMode: "cloud",
+      }),
+    provider: "openai",
+    reportsUsage: true,
+  },
+  {
+    name: "hybrid (local)",
+    create: () =>
+      createHybridProvider({
+        cloudProvider: createOpenAIProvider({ apiKey: "test" }),
+        localProvider: createMockProvider({ default: TEXT }),
+        forceMode: "local",
+      }),
+    provider: "mock",
+    reportsUsage: false,
+  },
+  {
+    name: "fallback",
+    create: () =>
+      createFallbackProvider([
+        createOpenAIProvider({ apiKey: "test" }),
+        createMockProvider({ default: TEXT }),
+      ]),
+    provider: "openai",
+    reportsUsage: true,
+  },
+  {
+    name: "load-balancer",
+    create: () =>
+      createLoadBalancedProvider([createOpenAIProvider({ apiKey: "test" })]),
+    provider: "openai",
+    reportsUsage: true,
+  },
+  {
+    name: "middleware",
+    create: () =>
+      withMiddleware(createAnthropicProvider({ apiKey: "test" }), [
+        createLoggingMiddleware({ log: () => {} }),
+        createTimingMiddleware(() => {}),
+      ]),
+    provider: "anthropic",
+    reportsUsage: true,
+  },
+];
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe.each(cases)(
+  "$name streaming contract",
+  ({ create, provider, reportsUsage }) => {
+    beforeEach(() => {
+      vi.stubGlobal("fetch", vi.fn(fakeFetch));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("yields the reply incrementally", async () => {
+      const instance = create();
+      expect(instance.streamInference).toBeDefined();
+
+      const chunks = await collect(instance.streamInference!("Say hello"));
+      const textChunks = chunks.filter((chunk) => chunk.text);
+
+      expect(textChunks.length).toBeGreaterThan(1);
+      expect(textChunks.map((chunk) => chunk.text).join("")).toBe(TEXT);
+      expect(chunks.every((chunk) => chunk.role === "assistant")).toBe(true);
+      expect(chunks.every((chunk) => chunk.provider === provider)).toBe(true);
+    });
+
+    it("streams chat messages", async () => {
+      const instance = create();
+      expect(instance.streamChat).toBeDefined();
+
+      const text = await collect(
+        toTextStream(
+          instance.streamChat!([
+            { role: "system", content: "Be brief" },
+            { role: "user", content: "Say hello" },
+          ])
+        )
+      );
+
+      expect(text.join("")).toBe(TEXT);
+    });
+
+    it("ends with a chunk carrying the finish reason", async () => {
+      const chunks = await collect(create().streamInference!("Say hello"));
+      const final = chunks[chunks.length - 1];
+
+      expect(final.text).toBe("");
+      expect(final.finishReason).toBeTruthy();
+      expect(chunks.filter((chunk) => chunk.finishReason)).toHaveLength(1);
+      if (reportsUsage) {
+        expect(final.usage).toEqual({
+          promptTokens: 5,
+          completionTokens: 3,
+          totalTokens: 8,
+        });
+      }
+    });
+
+    it("rejects with an AbortError when the signal is aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        collect(
+          create().streamInference!("Say hello", { signal: controller.signal })
+        )
+      ).rejects.toMatchObject({ name: "AbortError" });
+    });
+  }
+);
+
+describe("readOpenAIStream", () => {
+  it("emits tool call deltas", async () => {
+    async function* chunks() {
+      yield {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                {
+                  index: 0,
+                  id: "call_1",
+                  function: { name: "add", arguments: "" },
+                },
+              ],
+            },
+          },
+        ],
+      };
+      yield {
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: '{"a":1}' } }],
+            },
+            finish_reason: "tool_calls",
+          },
+        ],
+      };
+    }
+
+    const result: StreamChunk[] = await collect(
+      readOpenAIStream(chunks(), "openai")
+    );
+
+    expect(result.map((chunk) => chunk.toolCall)).toEqual([
+      { index: 0, id: "call_1", name: "add" },
+      { index: 0, arguments: '{"a":1}' },
+      undefined,
+    ]);
+    expect(result[2].finishReason).toBe("tool_calls");
+  });
+
+  it("attaches token logprobs to content chunks", async () => {
+    async function* chunks() {
+      yield {
+        choices: [
+          {
+            delta: { content: "Hi" },
+            logprobs: { content: [{ token: "Hi", logprob: -0.1 }] },
+          },
+        ],
+      };
+      yield { choices: [{ delta: {}, finish_reason: "stop" }] };
+    }
+
+    const result: StreamChunk[] = await collect(
+      readOpenAIStream(chunks(), "openai")
+    );
+
+    expect(result[0].logprobs).toEqual([{ token: "Hi", logprob: -0.1 }]);
+    expect(result[1].logprobs).toBeUndefined();
+  });
+});
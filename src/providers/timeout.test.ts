@@ -0,0 +1,185 @@
+/**
+ * Tests for inference timeouts
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { withInferenceTimeout } from "./timeout";
+import { createOpenAIProvider, AIProvider, StreamChunk } from "./openai";
+import { SynapseError } from "../errors";
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError when `signal` fires
+ */
+function stall(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      const error = new Error("aborted");
+      error.name = "AbortError";
+      reject(error);
+    });
+  });
+}
+
+function chunk(text: string): StreamChunk {
+  return { text, role: "assistant", provider: "slow" };
+}
+
+/**
+ * Streams `texts`, waiting `delays[i]` ms before each one
+ */
+function createSlowProvider(texts: string[], delays: number[]) {
+  const signals: Array<AbortSignal | undefined> = [];
+  const provider: AIProvider = {
+    name: "slow",
+    async inference(_prompt, options) {
+      signals.push(options?.signal);
+      await stall(delays[0], options?.signal);
+      return { content: texts.join("") };
+    },
+    async *streamInference(_prompt, options) {
+      signals.push(options?.signal);
+      for (let i = 0; i < texts.length; i++) {
+        await stall(delays[i], options?.signal);
+        yield chunk(texts[i]);
+      }
+      yield { ...chunk(""), finishReason: "stop" };
+    },
+  };
+  return { provider, signals };
+}
+
+async function collect(chunks: AsyncIterable<StreamChunk>) {
+  const result: StreamChunk[] = [];
+  for await (const item of chunks) result.push(item);
+  return result;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("withInferenceTimeout", () => {
+  it("passes calls through when no timeout is set", async () => {
+    const { provider } = createSlowProvider(["a", "b"], [5, 5]);
+    const wrapped = withInferenceTimeout(provider);
+
+    expect((await wrapped.inference("Hi")).content).toBe("ab");
+    const chunks = await collect(wrapped.streamInference!("Hi"));
+    expect(chunks.map((c) => c.text).join("")).toBe("ab");
+  });
+
+  it("aborts a stalled call and throws INFERENCE_TIMEOUT", async () => {
+    const { provider, signals } = createSlowProvider(["late"], [1000]);
+    const wrapped = withInferenceTimeout(provider);
+
+    const error = await wrapped
+      .inference("Hi", { timeoutMs: 20 })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.code).toBe("INFERENCE_TIMEOUT");
+    expect(error.message).toBe("Inference timed out after 20ms");
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it("still honours the caller's abort signal", async () => {
+    const { provider } = createSlowProvider(["late"], [1000]);
+    const controller = new AbortController();
+    const pending = withInferenceTimeout(provider).inference("Hi", {
+      timeoutMs: 500,
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("attaches the partial output when a stream misses its deadline", async () => {
+    const { provider, signals } = createSlowProvider(
+      ["Hello", " world", "!"],
+      [0, 10, 1000]
+    );
+
+    const received: string[] = [];
+    const error = await (async () => {
+      const stream = withInferenceTimeout(provider).streamInference!("Hi", {
+        timeoutMs: 60,
+      });
+      for await (const item of stream) received.push(item.text);
+    })().catch((caught) => caught);
+
+    expect(received).toEqual(["Hello", " world"]);
+    expect(error.code).toBe("INFERENCE_TIMEOUT");
+    expect(error.debugInfo.response).toBe("Hello world");
+    expect(signals[0]?.aborted).toBe(true);
+  });
+
+  it("fails a stream that stops sending tokens", async () => {
+    const { provider } = createSlowProvider(["a", "b", "c"], [5, 5, 1000]);
+
+    const error = await collect(
+      withInferenceTimeout(provider).streamInference!("Hi", {
+        idleTimeoutMs: 40,
+      })
+    ).catch((caught) => caught);
+
+    expect(error.code).toBe("INFERENCE_TIMEOUT");
+    expect(error.message).toBe("Inference stalled: no output for 40ms");
+    expect(error.debugInfo.response).toBe("ab");
+  });
+
+  it("applies the idle timeout before the first token", async () => {
+    const { provider } = createSlowProvider(["a"], [1000]);
+
+    const error = await collect(
+      withInferenceTimeout(provider).streamInference!("Hi", {
+        idleTimeoutMs: 20,
+        timeoutMs: 5000,
+      })
+    ).catch((caught) => caught);
+
+    expect(error.message).toBe("Inference stalled: no output for 20ms");
+    expect(error.debugInfo.response).toBe("");
+  });
+
+  it("does not pass the timeouts on to the wrapped provider", async () => {
+    const inference = vi.fn(async () => ({ content: "ok" }));
+    const wrapped = withInferenceTimeout(
+      withInferenceTimeout({
+        name: "plain",
+        inference,
+      })
+    );
+
+    await wrapped.inference("Hi", { timeoutMs: 1000, temperature: 0 });
+
+    expect(inference).toHaveBeenCalledWith("Hi", {
+      temperature: 0,
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("is applied to the HTTP providers", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () => {
+              const error = new Error("aborted");
+              error.name = "AbortError";
+              reject(error);
+            });
+          })
+      )
+    );
+    const provider = createOpenAIProvider({ apiKey: "sk-test" });
+
+    await expect(
+      provider.inference("Hi", { timeoutMs: 20 })
+    ).rejects.toMatchObject({ code: "INFERENCE_TIMEOUT" });
+  });
+});
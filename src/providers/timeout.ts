@@ -0,0 +1,182 @@
+/**
+ * Inference Timeouts - Deadlines and stream idle timeouts for providers
+ *
+ * `withInferenceTimeout` enforces `InferenceOptions.timeoutMs` (a deadline
+ * for the whole call) and `idleTimeoutMs` (the longest gap between stream
+ * chunks). Expiry aborts the underlying request and throws an
+ * INFERENCE_TIMEOUT SynapseError carrying the text streamed so far.
+ *
+ * The built-in HTTP providers are already wrapped; wrap custom providers
+ * to give them the same behaviour.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+} from "./openai";
+import { ChatMessage, copyProvider } from "./base";
+import { Errors, SynapseError } from "../errors";
+
+/**
+ * Creates a controller that also aborts when `parent` does
+ */
+function linkSignal(parent?: AbortSignal): {
+  controller: AbortController;
+  unlink: () => void;
+} {
+  const controller = new AbortController();
+  if (!parent) return { controller, unlink: () => {} };
+
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) onAbort();
+  else parent.addEventListener("abort", onAbort, { once: true });
+
+  return {
+    controller,
+    unlink: () => parent.removeEventListener("abort", onAbort),
+  };
+}
+
+/**
+ * Races `promise` against a timer; `onExpire` builds the error thrown
+ * when the timer wins
+ */
+async function within<T>(
+  promise: Promise<T>,
+  ms: number,
+  onExpire: () => SynapseError
+): Promise<T> {
+  if (!Number.isFinite(ms)) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(onExpire()), Math.max(0, ms));
+  });
+
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Wraps `provider` so its calls honour `timeoutMs` and `idleTimeoutMs`.
+ * The options are consumed here and not passed on, so wrapping twice
+ * does not start two timers. Other properties of the provider are kept.
+ *
+ * @example
+ * ```ts
+ * const provider = withInferenceTimeout(myCustomProvider);
+ * await provider.inference(prompt, { timeoutMs: 10_000 });
+ * ```
+ */
+export function withInferenceTimeout<P extends AIProvider>(provider: P): P {
+  async function run(
+    call: (options: InferenceOptions) => Promise<InferenceResponse>,
+    options: InferenceOptions = {}
+  ): Promise<InferenceResponse> {
+    const { timeoutMs, idleTimeoutMs: _idle, ...rest } = options;
+    if (!timeoutMs) return call(rest);
+
+    const { controller, unlink } = linkSignal(rest.signal);
+    try {
+      return await within(
+        call({ ...rest, signal: controller.signal }),
+        timeoutMs,
+        () => {
+          controller.abort();
+          return Errors.inferenceTimeout(provider.name, timeoutMs);
+        }
+      );
+    } finally {
+      unlink();
+    }
+  }
+
+  async function* runStream(
+    open: (options: InferenceOptions) => AsyncIterable<StreamChunk>,
+    options: InferenceOptions = {}
+  ): AsyncIterable<StreamChunk> {
+    const { timeoutMs, idleTimeoutMs, ...rest } = options;
+    if (!timeoutMs && !idleTimeoutMs) {
+      yield* open(rest);
+      return;
+    }
+
+    const { controller, unlink } = linkSignal(rest.signal);
+    const deadline = timeoutMs ? Date.now() + timeoutMs : Infinity;
+    const idle = idleTimeoutMs || Infinity;
+    const iterator = open({ ...rest, signal: controller.signal })[
+      Symbol.asyncIterator
+    ]();
+    let partialOutput = "";
+    let done = false;
+
+    try {
+      while (true) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          controller.abort();
+          throw Errors.inferenceTimeout(provider.name, timeoutMs!, {
+            partialOutput,
+          });
+        }
+
+        const result = await within(
+          iterator.next(),
+          Math.min(remaining, idle),
+          () => {
+            controller.abort();
+            return remaining <= idle
+              ? Errors.inferenceTimeout(provider.name, timeoutMs!, {
+                  partialOutput,
+                })
+              : Errors.inferenceTimeout(provider.name, idle, {
+                  partialOutput,
+                  idle: true,
+                });
+          }
+        );
+        if (result.done) {
+          done = true;
+          return;
+        }
+
+        partialOutput += result.value.text;
+        yield result.value;
+      }
+    } finally {
+      unlink();
+      // Timed out, failed or the consumer stopped reading: release the
+      // stream without waiting for it (a stalled `next` may never settle)
+      if (!done) iterator.return?.().catch(() => {});
+    }
+  }
+
+  return Object.assign(copyProvider(provider), {
+    inference(
+      prompt: string,
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return run((opts) => provider.inference(prompt, opts), options);
+    },
+
+    chat: provider.chat
+      ? (messages: ChatMessage[], options?: InferenceOptions) =>
+          run((opts) => provider.chat!(messages, opts), options)
+      : undefined,
+
+    streamInference: provider.streamInference
+      ? (prompt: string, options?: InferenceOptions) =>
+          runStream((opts) => provider.streamInference!(prompt, opts), options)
+      : undefined,
+
+    streamChat: provider.streamChat
+      ? (messages: ChatMessage[], options?: InferenceOptions) =>
+          runStream((opts) => provider.streamChat!(messages, opts), options)
+      : undefined,
+  });
+}
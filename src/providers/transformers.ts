@@ -4,21 +4,34 @@
  * Wraps @xenova/transformers for browser-based model execution.
  * This is the "Engine" that Synapse wraps with safety and state management.
  *
- * Supports: Text generation, summarization, translation, etc.
+ * Supports: Text generation, summarization, translation and embeddings
+ * (feature-extraction). Text generation can also report token logprobs.
  */
 
-import { AIProvider, InferenceOptions, InferenceResponse } from "./openai";
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  TokenLogprob,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from "./openai";
+import { ChatMessage, messagesToPrompt } from "./base";
+import { embedInBatches } from "./embeddings";
+import { abortableDelay, throwIfAborted } from "../utils/abort";
 
 export type TransformersTask =
   | "text-generation"
   | "text2text-generation"
   | "summarization"
-  | "translation";
+  | "translation"
+  | "feature-extraction";
 
 export interface TransformersConfig {
   /** Model ID from Hugging Face (e.g., 'Xenova/gpt2', 'Xenova/distilgpt2') */
   modelId: string;
-  /** Task type */
+  /** Task type ("feature-extraction" provides `embed` instead of text) */
   task?: TransformersTask;
   /** Use WebGPU acceleration if available */
   useWebGPU?: boolean;
@@ -37,6 +50,58 @@ export interface TransformersConfig {
 // Pipeline cache to avoid reloading models
 const pipelineCache = new Map<string, unknown>();
 
+/**
+ * Tokenizer and model of a loaded text-generation pipeline
+ */
+interface ScoringPipeline {
+  tokenizer: ((text: string) => {
+    input_ids: { data: ArrayLike<number | bigint>; dims: number[] };
+  }) & { decode(ids: number[]): string };
+  model: (inputs: unknown) => Promise<{
+    logits: { data: Float32Array; dims: number[] };
+  }>;
+}
+
+/**
+ * Scores `completion` as a continuation of `prompt` with one forward pass.
+ * Pipelines do not return generation scores, so each completion token's
+ * logprob is read from the log-softmax of the logits at the position
+ * before it.
+ */
+async function scoreCompletion(
+  pipe: ScoringPipeline,
+  prompt: string,
+  completion: string
+): Promise<TokenLogprob[]> {
+  const promptLength = pipe.tokenizer(prompt).input_ids.dims[1];
+  const inputs = pipe.tokenizer(prompt + completion);
+  const ids = Array.from(inputs.input_ids.data, Number);
+  const { logits } = await pipe.model(inputs);
+  const vocabSize = logits.dims[2];
+
+  const tokens: TokenLogprob[] = [];
+  for (
+    let position = Math.max(1, promptLength);
+    position < ids.length;
+    position++
+  ) {
+    const row = logits.data.subarray(
+      (position - 1) * vocabSize,
+      position * vocabSize
+    );
+    let max = -Infinity;
+    for (const value of row) max = Math.max(max, value);
+    let sum = 0;
+    for (const value of row) sum += Math.exp(value - max);
+
+    tokens.push({
+      token: pipe.tokenizer.decode([ids[position]]),
+      logprob: row[ids[position]] - max - Math.log(sum),
+    });
+  }
+  return tokens;
+}
+
 /**
  * Dynamically imports @xenova/transformers
  * This allows the library to work even if transformers.js isn't installed
@@ -154,13 +219,50 @@ export function createTransformersProvider(
     }
   }
 
+  function assertGenerates(): void {
+    if (task === "feature-extraction") {
+      throw new Error(
+        `${modelId} is loaded for feature-extraction; use embed() instead`
+      );
+    }
+  }
+
+  async function embed(
+    texts: string[],
+    options: EmbeddingOptions = {}
+  ): Promise<EmbeddingResponse> {
+    const extract = (await ensurePipeline()) as (
+      texts: string[],
+      opts?: Record<string, unknown>
+    ) => Promise<{ tolist(): number[][] }>;
+
+    // Mean pooling turns token vectors into one vector per text;
+    // normalization is applied by embedInBatches (on by default)
+    return embedInBatches(
+      texts,
+      modelId,
+      { normalize: true, ...options },
+      32,
+      async (batch) => {
+        const output = await extract(batch, { pooling: "mean" });
+        throwIfAborted(options.signal);
+        return { embeddings: output.tolist() };
+      }
+    );
+  }
+
   return {
     name: "transformers",
+    capabilities: {
+      structuredOutput: "none",
+      logprobs: task === "text-generation",
+    },
 
     async inference(
       prompt: string,
       options: InferenceOptions = {}
     ): Promise<InferenceResponse> {
+      assertGenerates();
       const pipe = (await ensurePipeline()) as (
         text: string,
         opts?: Record<string, unknown>
@@ -178,10 +280,15 @@ export function createTransformersProvider(
         do_sample: (options.temperature ?? 0.7) > 0,
       };
 
+      // Pipelines cannot be interrupted mid-generation, so honor the
+      // signal before starting and discard the result if it fired meanwhile
+      throwIfAborted(options.signal);
       const result = await pipe(prompt, generateOptions);
+      throwIfAborted(options.signal);
 
       // Handle different task output formats
       let content = "";
+      let logprobs: TokenLogprob[] | undefined;
       if (result && result[0]) {
         content =
           result[0].generated_text ||
@@ -191,13 +298,23 @@ export function createTransformersProvider(
 
         // For text-generation, remove the input prompt from output
         if (task === "text-generation" && content.startsWith(prompt)) {
-          content = content.slice(prompt.length).trim();
+          const completion = content.slice(prompt.length);
+          if (options.logprobs) {
+            logprobs = await scoreCompletion(
+              pipe as unknown as ScoringPipeline,
+              prompt,
+              completion
+            );
+            throwIfAborted(options.signal);
+          }
+          content = completion.trim();
         }
       }
 
       return {
         content,
         finishReason: "stop",
+        logprobs,
       };
     },
 
@@ -205,7 +322,8 @@ export function createTransformersProvider(
     async *streamInference(
       prompt: string,
       options: InferenceOptions = {}
-    ): AsyncIterable<string> {
+    ): AsyncIterable<StreamChunk> {
+      assertGenerates();
       const pipe = (await ensurePipeline()) as (
         text: string,
         opts?: Record<string, unknown>
@@ -219,23 +337,71 @@ export function createTransformersProvider(
         do_sample: (options.temperature ?? 0.7) > 0,
       };
 
+      throwIfAborted(options.signal);
       const result = await pipe(prompt, generateOptions);
+      throwIfAborted(options.signal);
 
       let content = result[0]?.generated_text || "";
+      let logprobs: TokenLogprob[] | undefined;
 
       if (task === "text-generation" && content.startsWith(prompt)) {
-        content = content.slice(prompt.length).trim();
+        const completion = content.slice(prompt.length);
+        if (options.logprobs) {
+          logprobs = await scoreCompletion(
+            pipe as unknown as ScoringPipeline,
+            prompt,
+            completion
+          );
+          throwIfAborted(options.signal);
+        }
+        content = completion.trim();
       }
 
       // Simulate streaming by yielding words
       const words = content.split(" ");
       for (let i = 0; i < words.length; i++) {
-        yield words[i] + (i < words.length - 1 ? " " : "");
+        yield {
+          text: words[i] + (i < words.length - 1 ? " " : ""),
+          role: "assistant",
+          provider: "transformers",
+        };
         // Small delay to simulate streaming
-        await new Promise((resolve) => setTimeout(resolve, 20));
+        await abortableDelay(20, options.signal);
       }
+
+      // Tokens are scored after generation, so they arrive with the end
+      yield {
+        text: "",
+        role: "assistant",
+        finishReason: "stop",
+        provider: "transformers",
+        ...(logprobs && { logprobs }),
+      };
     },
 
+    // Local pipelines have no chat template, so roles are flattened
+    chat(
+      messages: ChatMessage[],
+      options: InferenceOptions = {}
+    ): Promise<InferenceResponse> {
+      return this.inference(
+        `${messagesToPrompt(messages)}\n\nASSISTANT:\n`,
+        options
+      );
+    },
+
+    streamChat(
+      messages: ChatMessage[],
+      options: InferenceOptions = {}
+    ): AsyncIterable<StreamChunk> {
+      return this.streamInference!(
+        `${messagesToPrompt(messages)}\n\nASSISTANT:\n`,
+        options
+      );
+    },
+
+    embed: task === "feature-extraction" ? embed : undefined,
+
     isLoaded(): boolean {
       return pipeline !== null || pipelineCache.has(cacheKey);
     },
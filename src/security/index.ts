@@ -11,7 +11,9 @@ export {
   escapeHtml,
   validateSafeContent,
   createSafeRenderer,
+  checkUrl,
   type SanitizerConfig,
+  type UrlCheckConfig,
 } from "./outputSanitizer";
 
 export {
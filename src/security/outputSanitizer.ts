@@ -110,6 +110,75 @@ export function sanitizeOutput(
   return { sanitized, threats };
 }
 
+export interface UrlCheckConfig {
+  /** Hosts URLs may point to; subdomains match too (default: any public host) */
+  allowedHosts?: string[];
+  /** Allow plain http:// URLs (default: false) */
+  allowHttp?: boolean;
+  /** Called when an unsafe URL is detected */
+  onDangerousContent?: (type: string, content: string) => void;
+}
+
+// Hosts that resolve to the local machine or a private network
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.(localhost|local|internal)$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\.0\.0\.0$/,
+  /^\[(::1?|f[cd][0-9a-f]*:.*|fe80:.*)\]$/i,
+];
+
+/**
+ * Checks a URL before it is handed to a model or fetched on its behalf.
+ * Only https (and optionally http) URLs to public hosts pass; URLs with
+ * embedded credentials or outside `allowedHosts` are rejected.
+ */
+export function checkUrl(
+  url: string,
+  config: UrlCheckConfig = {}
+): { safe: boolean; threats: string[] } {
+  const { allowedHosts, allowHttp = false, onDangerousContent } = config;
+  const threats: string[] = [];
+
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url);
+  } catch {
+    threats.push("invalidUrl");
+  }
+
+  if (parsed) {
+    const protocols = allowHttp ? ["https:", "http:"] : ["https:"];
+    if (!protocols.includes(parsed.protocol)) {
+      threats.push("unsafeProtocol");
+    }
+    if (parsed.username || parsed.password) {
+      threats.push("embeddedCredentials");
+    }
+
+    const host = parsed.hostname;
+    if (PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host))) {
+      threats.push("privateHost");
+    }
+    if (
+      allowedHosts &&
+      !allowedHosts.some(
+        (allowed) => host === allowed || host.endsWith(`.${allowed}`)
+      )
+    ) {
+      threats.push("disallowedHost");
+    }
+  }
+
+  for (const threat of threats) onDangerousContent?.(threat, url);
+
+  return { safe: threats.length === 0, threats };
+}
+
 /**
  * Escapes HTML entities to prevent injection
  */
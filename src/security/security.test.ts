@@ -7,6 +7,7 @@ import {
   sanitizeOutput,
   escapeHtml,
   validateSafeContent,
+  checkUrl,
 } from "./outputSanitizer";
 import {
   PromptGuard,
@@ -111,6 +112,44 @@ describe("Output Sanitizer", () => {
       );
     });
   });
+
+  describe("checkUrl", () => {
+    it("accepts https URLs to public hosts", () => {
+      expect(checkUrl("https://cdn.example.com/receipt.png")).toEqual({
+        safe: true,
+        threats: [],
+      });
+    });
+
+    it("rejects unsafe protocols, credentials and private hosts", () => {
+      expect(checkUrl("javascript:alert(1)").threats).toContain(
+        "unsafeProtocol"
+      );
+      expect(checkUrl("http://example.com/a.png").threats).toEqual([
+        "unsafeProtocol",
+      ]);
+      expect(checkUrl("https://user:pw@example.com/").threats).toEqual([
+        "embeddedCredentials",
+      ]);
+      expect(checkUrl("https://192.168.1.10/a.png").threats).toEqual([
+        "privateHost",
+      ]);
+      expect(checkUrl("https://[::1]/a.png").threats).toEqual(["privateHost"]);
+      expect(checkUrl("not a url").threats).toEqual(["invalidUrl"]);
+    });
+
+    it("restricts hosts to the allow list", () => {
+      const onDangerousContent = vi.fn();
+      const config = { allowedHosts: ["example.com"], onDangerousContent };
+
+      expect(checkUrl("https://img.example.com/a.png", config).safe).toBe(true);
+      expect(checkUrl("https://evil.com/a.png", config).safe).toBe(false);
+      expect(onDangerousContent).toHaveBeenCalledWith(
+        "disallowedHost",
+        "https://evil.com/a.png"
+      );
+    });
+  });
 });
 
 describe("Prompt Guard", () => {
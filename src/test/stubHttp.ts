@@ -0,0 +1,101 @@
+/**
+ * Stub HTTP for provider tests: a stubbed global fetch, and helpers for
+ * stub servers built on `node:http`
+ */
+
+import { vi, type Mock } from "vitest";
+
+/** The fields of a provider request body the tests look at */
+export interface RequestBody {
+  model?: string;
+  prompt?: string;
+  input?: unknown;
+  requests?: unknown[];
+  messages?: Array<{ role: string; content: unknown }>;
+  contents?: Array<{ role?: string; parts: unknown[] }>;
+  stream?: boolean;
+  format?: unknown;
+  grammar?: string;
+  response_format?: unknown;
+  tools?: unknown[];
+}
+
+export type FetchMock = Mock<Parameters<typeof fetch>, Promise<Response>>;
+
+/**
+ * Stubs fetch with a queue of replies: a Response is sent as is, `null`
+ * simulates a network error and any other value is sent as a JSON body.
+ * Once the queue is empty, fetch answers "ok".
+ */
+export function stubFetch(...replies: unknown[]): FetchMock {
+  const fetchMock = vi.fn<Parameters<typeof fetch>, Promise<Response>>(
+    async () => {
+      if (replies.length === 0) return new Response("ok");
+      const next = replies.shift();
+      if (next === null) throw new TypeError("fetch failed");
+      return next instanceof Response
+        ? next
+        : new Response(JSON.stringify(next));
+    }
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+/** The parsed JSON body of a stubbed fetch call (the first by default) */
+export function sentBody(fetchMock: FetchMock, call = 0): RequestBody {
+  return JSON.parse(String(fetchMock.mock.calls[call][1]?.body));
+}
+
+/** The headers of a stubbed fetch call (the first by default) */
+export function sentHeaders(fetchMock: FetchMock, call = 0): Headers {
+  return new Headers(fetchMock.mock.calls[call][1]?.headers);
+}
+
+/** A request received by a stub server */
+export interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Parsed JSON body (empty for requests without one) */
+  body: RequestBody;
+}
+
+/** The parts of a `node:http` request and server the helpers use */
+interface IncomingRequest extends AsyncIterable<string | Uint8Array> {
+  method?: string;
+  url?: string;
+  headers: RecordedRequest["headers"];
+}
+
+interface StubServer {
+  listen(port: number, host: string, listener: () => void): unknown;
+  address(): unknown;
+}
+
+/**
+ * Reads a request to a stub server, parsing its JSON body
+ */
+export async function readRequest(
+  request: IncomingRequest
+): Promise<RecordedRequest> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of request) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  const { method, url, headers } = request;
+  return { method, url, headers, body: text ? JSON.parse(text) : {} };
+}
+
+/**
+ * Starts `server` on a free local port and returns its base URL
+ */
+export async function listen(server: StubServer): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  return `http://127.0.0.1:${port}`;
+}
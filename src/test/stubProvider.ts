@@ -0,0 +1,31 @@
+/**
+ * Stub provider for tests
+ */
+
+import { vi, type Mock } from "vitest";
+import type {
+  AIProvider,
+  ChatMessage,
+  InferenceOptions,
+  InferenceResponse,
+} from "../providers/base";
+
+export interface StubProvider extends AIProvider {
+  inference: Mock<[string, InferenceOptions?], Promise<InferenceResponse>>;
+  chat: Mock<[ChatMessage[], InferenceOptions?], Promise<InferenceResponse>>;
+}
+
+/**
+ * Creates a provider whose `inference` echoes the prompt and whose `chat`
+ * joins the message contents with "|". Both are mocks, so tests can queue
+ * replies and inspect calls.
+ */
+export function createStubProvider(name = "stub"): StubProvider {
+  return {
+    name,
+    inference: vi.fn(async (prompt: string) => ({ content: prompt })),
+    chat: vi.fn(async (messages: ChatMessage[]) => ({
+      content: messages.map((message) => message.content).join("|"),
+    })),
+  };
+}
@@ -0,0 +1,20 @@
+export {
+  type ToolDefinition,
+  type AnyToolDefinition,
+  type ToolCall,
+  type ToolContext,
+} from "./types";
+
+export {
+  defineTool,
+  createToolRegistry,
+  toToolRegistry,
+  type ToolRegistry,
+} from "./toolRegistry";
+
+export {
+  runToolLoop,
+  type ToolLoopParams,
+  type ToolLoopResult,
+  type ToolCallRecord,
+} from "./toolLoop";
@@ -0,0 +1,150 @@
+/**
+ * Tests for Tool Loop
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { runToolLoop } from "./toolLoop";
+import { defineTool, createToolRegistry } from "./toolRegistry";
+import type { InferenceResponse } from "../providers/base";
+import { createStubProvider, StubProvider } from "../test/stubProvider";
+
+function createFakeProvider(responses: InferenceResponse[]): StubProvider {
+  const provider = createStubProvider("fake");
+  responses.forEach((response) =>
+    provider.chat.mockResolvedValueOnce(response)
+  );
+  return provider;
+}
+
+const addTool = defineTool({
+  name: "add",
+  description: "Adds two numbers",
+  inputSchema: z.object({ a: z.number(), b: z.number() }),
+  handler: ({ a, b }) => a + b,
+});
+
+describe("runToolLoop", () => {
+  it("returns immediately when the model calls no tools", async () => {
+    const provider = createFakeProvider([{ content: "done" }]);
+
+    const result = await runToolLoop({
+      provider,
+      messages: [{ role: "user", content: "Hi" }],
+      tools: [addTool],
+    });
+
+    expect(result.response.content).toBe("done");
+    expect(result.iterations).toBe(1);
+    expect(result.toolCalls).toHaveLength(0);
+  });
+
+  it("executes tool calls and feeds results back", async () => {
+    const provider = createFakeProvider([
+      {
+        content: "",
+        toolCalls: [{ id: "call_1", name: "add", arguments: '{"a":2,"b":3}' }],
+      },
+      { content: "The answer is 5" },
+    ]);
+
+    const result = await runToolLoop({
+      provider,
+      messages: [{ role: "user", content: "What is 2 + 3?" }],
+      tools: [addTool],
+    });
+
+    expect(result.response.content).toBe("The answer is 5");
+    expect(result.toolCalls[0].result).toBe(5);
+    expect(result.messages).toContainEqual({
+      role: "tool",
+      content: "5",
+      toolCallId: "call_1",
+      name: "add",
+    });
+
+    const [secondMessages, options] = provider.chat.mock.calls[1];
+    expect(secondMessages).toHaveLength(3);
+    expect(options?.tools).toEqual([addTool]);
+  });
+
+  it("reports invalid arguments to the model without running the handler", async () => {
+    const handler = vi.fn();
+    const provider = createFakeProvider([
+      {
+        content: "",
+        toolCalls: [{ id: "call_1", name: "add", arguments: '{"a":"two"}' }],
+      },
+      { content: "Sorry" },
+    ]);
+
+    const result = await runToolLoop({
+      provider,
+      messages: [{ role: "user", content: "Add" }],
+      tools: [{ ...addTool, handler }],
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].errors.length).toBeGreaterThan(0);
+    expect(result.messages[2].content).toContain("Invalid arguments");
+  });
+
+  it("reports unknown tools and handler errors", async () => {
+    const failing = defineTool({
+      name: "fail",
+      description: "Always fails",
+      inputSchema: z.object({}),
+      handler: () => {
+        throw new Error("boom");
+      },
+    });
+    const provider = createFakeProvider([
+      {
+        content: "",
+        toolCalls: [
+          { id: "call_1", name: "missing", arguments: "{}" },
+          { id: "call_2", name: "fail", arguments: "{}" },
+        ],
+      },
+      { content: "ok" },
+    ]);
+
+    const result = await runToolLoop({
+      provider,
+      messages: [{ role: "user", content: "Go" }],
+      tools: createToolRegistry([failing]),
+    });
+
+    expect(result.toolCalls[0].error).toContain("Unknown tool");
+    expect(result.toolCalls[1].error).toBe("boom");
+    expect(result.messages[3].content).toBe("Error: boom");
+  });
+
+  it("throws after max iterations", async () => {
+    const call = { id: "call_1", name: "add", arguments: '{"a":1,"b":1}' };
+    const provider = createFakeProvider([
+      { content: "", toolCalls: [call] },
+      { content: "", toolCalls: [call] },
+    ]);
+
+    await expect(
+      runToolLoop({
+        provider,
+        messages: [{ role: "user", content: "Loop" }],
+        tools: [addTool],
+        maxIterations: 2,
+      })
+    ).rejects.toThrow("2 tool iterations");
+  });
+});
+
+describe("createToolRegistry", () => {
+  it("rejects invalid and duplicate names", () => {
+    expect(() =>
+      createToolRegistry([{ ...addTool, name: "bad name" }])
+    ).toThrow("Invalid tool name");
+    expect(() => createToolRegistry([addTool, addTool])).toThrow(
+      "already registered"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tool Loop - Executes model tool calls until a final answer is produced
+ *
+ * Tool arguments go through the same validation firewall as state updates.
+ * Invalid arguments and handler failures are reported back to the model as
+ * tool results so it can correct itself instead of failing the request.
+ */
+
+import {
+  AIProvider,
+  ChatMessage,
+  InferenceOptions,
+  InferenceResponse,
+  chatWithProvider,
+} from "../providers/base";
+import {
+  validateResponse,
+  formatErrorsForCorrection,
+  ValidationError,
+} from "../validation/schemaValidator";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { ToolRegistry, toToolRegistry } from "./toolRegistry";
+import { AnyToolDefinition, ToolCall } from "./types";
+
+export interface ToolCallRecord {
+  call: ToolCall;
+  /** Handler return value (when the call succeeded) */
+  result?: unknown;
+  /** Argument validation errors */
+  errors: ValidationError[];
+  /** Handler or lookup error message */
+  error?: string;
+}
+
+export interface ToolLoopParams {
+  provider: AIProvider;
+  messages: ChatMessage[];
+  tools: AnyToolDefinition[] | ToolRegistry;
+  options?: InferenceOptions;
+  /** Maximum model round-trips before giving up (default: 5) */
+  maxIterations?: number;
+  /** Called after each tool call is executed */
+  onToolCall?: (record: ToolCallRecord) => void;
+}
+
+export interface ToolLoopResult {
+  /** The final (tool-call free) model response */
+  response: InferenceResponse;
+  /** Full conversation including tool calls and results */
+  messages: ChatMessage[];
+  toolCalls: ToolCallRecord[];
+  iterations: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 5;
+
+/**
+ * Runs a single tool call, never throwing for model mistakes
+ */
+async function executeToolCall(
+  call: ToolCall,
+  registry: ToolRegistry,
+  signal?: AbortSignal
+): Promise<ToolCallRecord> {
+  const tool = registry.get(call.name);
+  if (!tool) {
+    return { call, errors: [], error: `Unknown tool "${call.name}"` };
+  }
+
+  const validation = validateResponse(call.arguments || "{}", tool.inputSchema);
+  if (!validation.success) {
+    return { call, errors: validation.errors };
+  }
+
+  try {
+    const result = await tool.handler(validation.data, { signal });
+    return { call, result, errors: [] };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return {
+      call,
+      errors: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function toToolMessage(record: ToolCallRecord): ChatMessage {
+  let content: string;
+  if (record.errors.length > 0) {
+    content = `Invalid arguments. ${formatErrorsForCorrection(record.errors)}`;
+  } else if (record.error !== undefined) {
+    content = `Error: ${record.error}`;
+  } else {
+    content = JSON.stringify(record.result ?? null);
+  }
+
+  return {
+    role: "tool",
+    content,
+    toolCallId: record.call.id,
+    name: record.call.name,
+  };
+}
+
+/**
+ * Sends messages with tools attached and executes requested tool calls,
+ * feeding results back until the model answers without calling tools
+ */
+export async function runToolLoop({
+  provider,
+  messages,
+  tools,
+  options = {},
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+  onToolCall,
+}: ToolLoopParams): Promise<ToolLoopResult> {
+  const registry = toToolRegistry(tools);
+  const conversation = [...messages];
+  const records: ToolCallRecord[] = [];
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    throwIfAborted(options.signal);
+    iterations++;
+
+    const response = await chatWithProvider(provider, conversation, {
+      ...options,
+      tools: registry.list(),
+    });
+
+    if (!response.toolCalls || response.toolCalls.length === 0) {
+      return {
+        response,
+        messages: conversation,
+        toolCalls: records,
+        iterations,
+      };
+    }
+
+    conversation.push({
+      role: "assistant",
+      content: response.content,
+      toolCalls: response.toolCalls,
+    });
+
+    for (const call of response.toolCalls) {
+      throwIfAborted(options.signal);
+      const record = await executeToolCall(call, registry, options.signal);
+      records.push(record);
+      onToolCall?.(record);
+      conversation.push(toToolMessage(record));
+    }
+  }
+
+  throw new Error(
+    `Model did not produce a final answer within ${maxIterations} tool iterations`
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Tool Registry - Typed collection of tools exposed to the model
+ */
+
+import { AnyToolDefinition, ToolDefinition } from "./types";
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export interface ToolRegistry {
+  /** Adds a tool, throwing if the name is invalid or taken */
+  register: (tool: AnyToolDefinition) => void;
+  get: (name: string) => AnyToolDefinition | undefined;
+  has: (name: string) => boolean;
+  list: () => AnyToolDefinition[];
+}
+
+/**
+ * Identity helper that infers handler input types from the Zod schema
+ *
+ * @example
+ * ```ts
+ * const addTask = defineTool({
+ *   name: 'add_task',
+ *   description: 'Adds a task to the backlog',
+ *   inputSchema: z.object({ title: z.string() }),
+ *   handler: async ({ title }) => api.createTask(title),
+ * });
+ * ```
+ */
+export function defineTool<TInput, TOutput>(
+  tool: ToolDefinition<TInput, TOutput>
+): ToolDefinition<TInput, TOutput> {
+  return tool;
+}
+
+/**
+ * Creates a tool registry
+ */
+export function createToolRegistry(
+  tools: AnyToolDefinition[] = []
+): ToolRegistry {
+  const registry = new Map<string, AnyToolDefinition>();
+
+  function register(tool: AnyToolDefinition): void {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(
+        `Invalid tool name "${tool.name}". Use letters, digits, "_" or "-" (max 64 chars).`
+      );
+    }
+    if (registry.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    registry.set(tool.name, tool);
+  }
+
+  tools.forEach(register);
+
+  return {
+    register,
+    get: (name) => registry.get(name),
+    has: (name) => registry.has(name),
+    list: () => Array.from(registry.values()),
+  };
+}
+
+/**
+ * Normalizes a tool list or registry into a registry
+ */
+export function toToolRegistry(
+  tools: AnyToolDefinition[] | ToolRegistry
+): ToolRegistry {
+  return Array.isArray(tools) ? createToolRegistry(tools) : tools;
+}
@@ -0,0 +1,34 @@
+/**
+ * Tool Types - Application functions the model can call
+ */
+
+import { ZodSchema } from "zod";
+
+export interface ToolContext {
+  /** Aborted when the surrounding inference is cancelled */
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition<TInput = unknown, TOutput = unknown> {
+  /** Unique name (letters, digits, `_` and `-`, max 64 chars) */
+  name: string;
+  /** Tells the model when and how to use the tool */
+  description: string;
+  /** Zod schema for the arguments (should be a z.object) */
+  inputSchema: ZodSchema<TInput>;
+  /** Runs the tool with validated arguments */
+  handler: (input: TInput, context: ToolContext) => Promise<TOutput> | TOutput;
+}
+
+export type AnyToolDefinition = ToolDefinition<any, any>;
+
+/**
+ * A tool invocation requested by the model
+ */
+export interface ToolCall {
+  /** Provider-assigned call ID (generated for providers without IDs) */
+  id: string;
+  name: string;
+  /** Raw JSON arguments as produced by the model */
+  arguments: string;
+}
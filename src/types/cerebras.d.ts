@@ -14,10 +14,20 @@ declare module "@cerebras/cerebras_cloud_sdk" {
     temperature?: number;
     max_tokens?: number;
     stream?: boolean;
+    response_format?: { type: "json_object" | "text" };
+    tools?: Array<{
+      type: "function";
+      function: { name: string; description?: string; parameters: unknown };
+    }>;
     top_p?: number;
     stop?: string | string[];
   }
 
+  export interface RequestOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+  }
+
   export interface ChatCompletion {
     id: string;
     object: string;
@@ -41,6 +51,20 @@ declare module "@cerebras/cerebras_cloud_sdk" {
     };
   }
 
+  export interface ChatCompletionChunk {
+    id: string;
+    choices: Array<{
+      index: number;
+      delta: { role?: string; content?: string | null };
+      finish_reason: string | null;
+    }>;
+    usage?: {
+      prompt_tokens: number;
+      completion_tokens: number;
+      total_tokens: number;
+    };
+  }
+
   export interface TextCompletionParams {
     model: string;
     prompt: string;
@@ -71,7 +95,14 @@ declare module "@cerebras/cerebras_cloud_sdk" {
 
   export class Chat {
     completions: {
-      create(params: ChatCompletionParams): Promise<ChatCompletion>;
+      create(
+        params: ChatCompletionParams & { stream?: false },
+        options?: RequestOptions
+      ): Promise<ChatCompletion>;
+      create(
+        params: ChatCompletionParams & { stream: true },
+        options?: RequestOptions
+      ): Promise<AsyncIterable<ChatCompletionChunk>>;
     };
   }
 
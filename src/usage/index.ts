@@ -0,0 +1,25 @@
+export {
+  DEFAULT_PRICING,
+  findModelPricing,
+  calculateCost,
+  type ModelPricing,
+  type PricingTable,
+  type TokenUsage,
+} from "./pricing";
+
+export {
+  createUsageLedger,
+  withUsageTracking,
+  type UsageLedger,
+  type UsageLedgerConfig,
+  type UsageScope,
+  type UsageEntry,
+  type UsageRecord,
+  type UsageTotals,
+  type UsageSnapshot,
+  type UsageListener,
+  type UsageBudget,
+  type BudgetAction,
+  type BudgetStatus,
+  type BudgetDecision,
+} from "./ledger";
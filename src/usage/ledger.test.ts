@@ -0,0 +1,328 @@
+/**
+ * Tests for the usage ledger and pricing
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createUsageLedger, withUsageTracking } from "./ledger";
+import { DEFAULT_PRICING, findModelPricing, calculateCost } from "./pricing";
+import { AIProvider, createMockProvider } from "../providers/openai";
+import { SynapseError } from "../errors";
+
+function createMeteredProvider(
+  name: string,
+  model: string,
+  usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+): AIProvider & { inference: ReturnType<typeof vi.fn> } {
+  return {
+    name,
+    model,
+    inference: vi.fn(async () => ({ content: name, usage })),
+  };
+}
+
+describe("pricing", () => {
+  it("matches dated model snapshots by their longest prefix", () => {
+    expect(
+      findModelPricing(DEFAULT_PRICING, "openai", "gpt-4o-mini-2024-07-18")
+    ).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPricing(DEFAULT_PRICING, "openai", "gpt-4o")).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+  });
+
+  it("falls back to the provider's wildcard price", () => {
+    expect(findModelPricing(DEFAULT_PRICING, "ollama", "llama3.2")).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(findModelPricing(DEFAULT_PRICING, "openai", "unknown")).toBe(
+      undefined
+    );
+    expect(findModelPricing(DEFAULT_PRICING, "custom")).toBe(undefined);
+  });
+
+  it("prices tokens per million", () => {
+    expect(
+      calculateCost(
+        { promptTokens: 2_000_000, completionTokens: 1_000_000 },
+        { input: 0.15, output: 0.6 }
+      )
+    ).toBeCloseTo(0.9);
+  });
+});
+
+describe("createUsageLedger", () => {
+  it("totals usage per feature, component, cache key and model", () => {
+    const ledger = createUsageLedger();
+
+    ledger.record({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      feature: "summaries",
+      component: "Infer",
+      cacheKey: "article-1",
+      promptTokens: 1000,
+      completionTokens: 1000,
+    });
+    ledger.record({
+      provider: "anthropic",
+      model: "claude-3-haiku-20240307",
+      feature: "summaries",
+      component: "useInference",
+      promptTokens: 4000,
+      completionTokens: 0,
+    });
+
+    const snapshot = ledger.getSnapshot();
+    expect(snapshot.total).toEqual({
+      calls: 2,
+      promptTokens: 5000,
+      completionTokens: 1000,
+      totalTokens: 6000,
+      cost: expect.closeTo(0.00075 + 0.001, 8),
+    });
+    expect(snapshot.byFeature.summaries.calls).toBe(2);
+    expect(Object.keys(snapshot.byComponent)).toEqual([
+      "Infer",
+      "useInference",
+    ]);
+    expect(snapshot.byCacheKey["article-1"].totalTokens).toBe(2000);
+    expect(snapshot.byModel["openai/gpt-4o-mini"].cost).toBeCloseTo(0.00075);
+    expect(snapshot.records).toHaveLength(2);
+  });
+
+  it("records unpriced models at no cost and accepts custom prices", () => {
+    const ledger = createUsageLedger({
+      pricing: { "my-proxy": { "*": { input: 1, output: 1 } } },
+    });
+
+    const unpriced = ledger.record({
+      provider: "openai",
+      model: "gpt-99",
+      promptTokens: 10,
+      completionTokens: 10,
+    });
+    const custom = ledger.record({
+      provider: "my-proxy",
+      promptTokens: 500_000,
+      completionTokens: 500_000,
+    });
+
+    expect(unpriced).toMatchObject({ cost: 0, priced: false });
+    expect(custom).toMatchObject({ cost: 1, priced: true });
+    // Custom prices extend the defaults
+    expect(
+      ledger.record({
+        provider: "openai",
+        model: "gpt-4o",
+        promptTokens: 0,
+        completionTokens: 0,
+      }).priced
+    ).toBe(true);
+  });
+
+  it("notifies subscribers with a new snapshot", () => {
+    const ledger = createUsageLedger();
+    const listener = vi.fn();
+    const unsubscribe = ledger.subscribe(listener);
+    const before = ledger.getSnapshot();
+
+    const record = ledger.record({
+      provider: "mock",
+      promptTokens: 1,
+      completionTokens: 1,
+    });
+
+    expect(listener).toHaveBeenCalledWith(ledger.getSnapshot(), record);
+    expect(ledger.getSnapshot()).not.toBe(before);
+    expect(ledger.getSnapshot()).toBe(ledger.getSnapshot());
+
+    ledger.reset();
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ records: [] }),
+      null
+    );
+
+    unsubscribe();
+    ledger.record({ provider: "mock", promptTokens: 1, completionTokens: 1 });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports and enforces spent budgets", () => {
+    const onBudgetExceeded = vi.fn();
+    const cheap = createMockProvider();
+    const ledger = createUsageLedger({
+      budgets: [
+        { feature: "chat", maxTokens: 100 },
+        { maxTokens: 150, action: "downgrade", downgradeTo: cheap },
+      ],
+      onBudgetExceeded,
+    });
+
+    ledger.record({
+      provider: "openai",
+      feature: "chat",
+      promptTokens: 60,
+      completionTokens: 60,
+    });
+
+    expect(onBudgetExceeded).toHaveBeenCalledOnce();
+    expect(onBudgetExceeded.mock.calls[0][0]).toMatchObject({
+      name: "chat",
+      spentTokens: 120,
+      exceeded: true,
+    });
+    expect(ledger.evaluateBudgets({ feature: "chat" })).toMatchObject({
+      action: "block",
+    });
+    expect(ledger.evaluateBudgets({ feature: "other" })).toEqual({
+      action: "allow",
+    });
+
+    ledger.record({
+      provider: "openai",
+      promptTokens: 40,
+      completionTokens: 0,
+    });
+
+    expect(ledger.evaluateBudgets({ feature: "other" })).toMatchObject({
+      action: "downgrade",
+      provider: cheap,
+      budget: { name: "total", spentTokens: 160 },
+    });
+  });
+});
+
+describe("withUsageTracking", () => {
+  it("records the usage reported by the provider", async () => {
+    const ledger = createUsageLedger();
+    const provider = withUsageTracking(
+      createMeteredProvider("openai", "gpt-4o-mini"),
+      ledger,
+      { feature: "summaries", component: "useInference" }
+    );
+
+    await provider.inference("Hi");
+
+    expect(ledger.getSnapshot().records[0]).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      feature: "summaries",
+      component: "useInference",
+      totalTokens: 1500,
+      cost: expect.closeTo(0.00045, 8),
+      estimated: false,
+    });
+  });
+
+  it("estimates the tokens of streams without usage", async () => {
+    const ledger = createUsageLedger();
+    const provider = withUsageTracking(
+      createMockProvider({ default: "abcdefgh" }),
+      ledger
+    );
+
+    for await (const _chunk of provider.streamInference!("1234")) {
+      // drain
+    }
+
+    expect(ledger.getSnapshot().records[0]).toMatchObject({
+      provider: "mock",
+      promptTokens: 2,
+      completionTokens: 3,
+      estimated: true,
+    });
+  });
+
+  it("records streams the consumer stops reading", async () => {
+    const ledger = createUsageLedger();
+    const provider = withUsageTracking(
+      createMockProvider({ default: "abcdefgh" }),
+      ledger
+    );
+
+    for await (const _chunk of provider.streamInference!("1234")) {
+      break;
+    }
+
+    expect(ledger.getSnapshot().records).toEqual([
+      expect.objectContaining({ provider: "mock", promptTokens: 2 }),
+    ]);
+  });
+
+  it("records embeddings and checks budgets", async () => {
+    const embedder: AIProvider = {
+      ...createMeteredProvider("openai", "gpt-4o"),
+      embed: vi.fn(async () => ({
+        embeddings: [[0.1], [0.2]],
+        model: "text-embedding-3-small",
+        usage: { promptTokens: 8, totalTokens: 8 },
+      })),
+    };
+    const ledger = createUsageLedger({ budgets: [{ maxTokens: 5 }] });
+    const provider = withUsageTracking(embedder, ledger);
+
+    await provider.embed!(["a", "b"]);
+
+    expect(ledger.getSnapshot().records[0]).toMatchObject({
+      provider: "openai",
+      model: "text-embedding-3-small",
+      promptTokens: 8,
+      completionTokens: 0,
+    });
+    await expect(provider.embed!(["c"])).rejects.toMatchObject({
+      code: "BUDGET_EXCEEDED",
+    });
+    expect(embedder.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the wrapped provider's capabilities live", () => {
+    let tools = false;
+    const probed: AIProvider = {
+      name: "probed",
+      get capabilities() {
+        return { structuredOutput: "none" as const, tools };
+      },
+      inference: async () => ({ content: "" }),
+    };
+    const provider = withUsageTracking(probed, createUsageLedger());
+
+    tools = true;
+    expect(provider.capabilities?.tools).toBe(true);
+  });
+
+  it("blocks calls once a budget is spent", async () => {
+    const metered = createMeteredProvider("openai", "gpt-4o");
+    const ledger = createUsageLedger({ budgets: [{ maxCost: 0.001 }] });
+    const provider = withUsageTracking(metered, ledger);
+
+    await provider.inference("Hi");
+    const error = await provider.inference("Hi").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SynapseError);
+    expect(error.code).toBe("BUDGET_EXCEEDED");
+    expect(error.message).toBe(
+      'Usage budget "total" exceeded: $0.0075 of $0.001'
+    );
+    expect(metered.inference).toHaveBeenCalledTimes(1);
+  });
+
+  it("downgrades calls to a cheaper provider", async () => {
+    const expensive = createMeteredProvider("anthropic", "claude-3-opus");
+    const cheap = createMeteredProvider("groq", "llama-3.1-8b-instant");
+    const ledger = createUsageLedger({
+      budgets: [{ maxCost: 0.01, action: "downgrade", downgradeTo: cheap }],
+    });
+    const provider = withUsageTracking(expensive, ledger);
+
+    const first = await provider.inference("Hi");
+    const second = await provider.inference("Hi");
+
+    expect([first.content, second.content]).toEqual(["anthropic", "groq"]);
+    expect(Object.keys(ledger.getSnapshot().byModel)).toEqual([
+      "anthropic/claude-3-opus",
+      "groq/llama-3.1-8b-instant",
+    ]);
+  });
+});
@@ -0,0 +1,505 @@
+/**
+ * Usage Ledger - Token and cost accounting across providers
+ *
+ * Records the token usage of each provider call with its price, and totals
+ * it per feature, component, cache key and model. Budgets cap the spend of
+ * all calls, or of one feature or component: once a budget is spent, its
+ * calls are blocked or sent to a cheaper provider.
+ */
+
+import {
+  AIProvider,
+  InferenceOptions,
+  InferenceResponse,
+  StreamChunk,
+  EmbeddingOptions,
+  EmbeddingResponse,
+} from "../providers/openai";
+import {
+  ChatMessage,
+  chatWithProvider,
+  streamOrChatWithProvider,
+  messagesToPrompt,
+  copyProvider,
+} from "../providers/base";
+import { Errors, SynapseError } from "../errors";
+import {
+  DEFAULT_PRICING,
+  PricingTable,
+  findModelPricing,
+  calculateCost,
+} from "./pricing";
+import { estimateTokens } from "../runtime/contextManager";
+
+/**
+ * What a call was made for. Usage is totalled along each of these.
+ */
+export interface UsageScope {
+  /** Application feature the call serves, e.g. "task-planner" */
+  feature?: string;
+  /** Synapse hook or component that made the call, e.g. "useInference" */
+  component?: string;
+  /** Cache key the result is stored under */
+  cacheKey?: string;
+}
+
+export interface UsageEntry extends UsageScope {
+  provider: string;
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** The provider reported no usage; tokens were estimated from text */
+  estimated?: boolean;
+}
+
+export interface UsageRecord extends UsageEntry {
+  totalTokens: number;
+  /** Cost in USD (0 when the model has no price) */
+  cost: number;
+  /** Whether the pricing table lists the model */
+  priced: boolean;
+  estimated: boolean;
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export type BudgetAction = "block" | "downgrade";
+
+export interface UsageBudget {
+  /** Label in statuses and errors (default: the scope, or "total") */
+  name?: string;
+  /** Only count and limit calls of this feature */
+  feature?: string;
+  /** Only count and limit calls of this component */
+  component?: string;
+  /** Spend limit in USD */
+  maxCost?: number;
+  /** Token limit */
+  maxTokens?: number;
+  /** What happens to calls once the budget is spent (default: "block") */
+  action?: BudgetAction;
+  /** Provider that serves calls once a "downgrade" budget is spent */
+  downgradeTo?: AIProvider;
+}
+
+export interface BudgetStatus {
+  name: string;
+  action: BudgetAction;
+  spentCost: number;
+  spentTokens: number;
+  maxCost?: number;
+  maxTokens?: number;
+  exceeded: boolean;
+}
+
+/**
+ * How a call in a given scope should proceed
+ */
+export type BudgetDecision =
+  | { action: "allow" }
+  | { action: "block"; budget: BudgetStatus }
+  | { action: "downgrade"; budget: BudgetStatus; provider: AIProvider };
+
+export interface UsageSnapshot {
+  total: UsageTotals;
+  byFeature: Record<string, UsageTotals>;
+  byComponent: Record<string, UsageTotals>;
+  byCacheKey: Record<string, UsageTotals>;
+  /** Keyed by "provider/model" (just the provider when the model is unknown) */
+  byModel: Record<string, UsageTotals>;
+  budgets: BudgetStatus[];
+  /** Most recent records, oldest first */
+  records: UsageRecord[];
+}
+
+export type UsageListener = (
+  snapshot: UsageSnapshot,
+  record: UsageRecord | null
+) => void;
+
+export interface UsageLedgerConfig {
+  /** Prices merged over `DEFAULT_PRICING`, per provider */
+  pricing?: PricingTable;
+  budgets?: UsageBudget[];
+  /** Called when a record pushes a budget past its limit */
+  onBudgetExceeded?: (status: BudgetStatus, record: UsageRecord) => void;
+  /** Number of recent records kept in snapshots (default: 100) */
+  maxRecords?: number;
+}
+
+export interface UsageLedger {
+  /** Prices and totals one call */
+  record(entry: UsageEntry): UsageRecord;
+  /** Current totals; the same object until the next record or reset */
+  getSnapshot(): UsageSnapshot;
+  /** Calls `listener` after each record (with null after a reset) */
+  subscribe(listener: UsageListener): () => void;
+  /** Checks the budgets that apply to a call in `scope` */
+  evaluateBudgets(scope: UsageScope): BudgetDecision;
+  /** Clears all totals, records and budget spend */
+  reset(): void;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+function addToGroup(
+  group: Record<string, UsageTotals>,
+  key: string | undefined,
+  record: UsageRecord
+): void {
+  if (key === undefined) return;
+  if (!group[key]) group[key] = emptyTotals();
+  addTo(group[key], record);
+}
+
+function copyGroup(
+  group: Record<string, UsageTotals>
+): Record<string, UsageTotals> {
+  const copy: Record<string, UsageTotals> = {};
+  for (const [key, totals] of Object.entries(group)) copy[key] = { ...totals };
+  return copy;
+}
+
+function budgetApplies(budget: UsageBudget, scope: UsageScope): boolean {
+  return (
+    (budget.feature === undefined || budget.feature === scope.feature) &&
+    (budget.component === undefined || budget.component === scope.component)
+  );
+}
+
+function budgetName(budget: UsageBudget): string {
+  return (
+    budget.name ??
+    ([budget.feature, budget.component].filter(Boolean).join("/") || "total")
+  );
+}
+
+/**
+ * Error thrown for a call blocked by a spent budget
+ */
+function budgetError(status: BudgetStatus): SynapseError {
+  const overCost =
+    status.maxCost !== undefined && status.spentCost >= status.maxCost;
+  return overCost
+    ? Errors.budgetExceeded(
+        status.name,
+        `$${status.spentCost.toFixed(4)}`,
+        `$${status.maxCost}`
+      )
+    : Errors.budgetExceeded(
+        status.name,
+        `${status.spentTokens} tokens`,
+        `${status.maxTokens} tokens`
+      );
+}
+
+/**
+ * Creates a usage ledger
+ *
+ * @example
+ * ```ts
+ * const usage = createUsageLedger({
+ *   budgets: [
+ *     { feature: "summaries", maxCost: 5 },
+ *     { maxCost: 50, action: "downgrade", downgradeTo: cheapProvider },
+ *   ],
+ * });
+ * ```
+ */
+export function createUsageLedger(config: UsageLedgerConfig = {}): UsageLedger {
+  const pricing: PricingTable = { ...DEFAULT_PRICING };
+  for (const [provider, models] of Object.entries(config.pricing ?? {})) {
+    pricing[provider] = { ...pricing[provider], ...models };
+  }
+  const budgets = config.budgets ?? [];
+  const maxRecords = config.maxRecords ?? 100;
+  const listeners = new Set<UsageListener>();
+
+  let total = emptyTotals();
+  let byFeature: Record<string, UsageTotals> = {};
+  let byComponent: Record<string, UsageTotals> = {};
+  let byCacheKey: Record<string, UsageTotals> = {};
+  let byModel: Record<string, UsageTotals> = {};
+  let spent = budgets.map(() => ({ cost: 0, tokens: 0 }));
+  let records: UsageRecord[] = [];
+  let snapshot: UsageSnapshot | null = null;
+
+  function budgetStatus(index: number): BudgetStatus {
+    const budget = budgets[index];
+    const { cost, tokens } = spent[index];
+    return {
+      name: budgetName(budget),
+      action: budget.action ?? "block",
+      spentCost: cost,
+      spentTokens: tokens,
+      maxCost: budget.maxCost,
+      maxTokens: budget.maxTokens,
+      exceeded:
+        (budget.maxCost !== undefined && cost >= budget.maxCost) ||
+        (budget.maxTokens !== undefined && tokens >= budget.maxTokens),
+    };
+  }
+
+  function notify(record: UsageRecord | null): void {
+    snapshot = null;
+    const current = ledger.getSnapshot();
+    for (const listener of listeners) listener(current, record);
+  }
+
+  const ledger: UsageLedger = {
+    record(entry: UsageEntry): UsageRecord {
+      const price = findModelPricing(pricing, entry.provider, entry.model);
+      const record: UsageRecord = {
+        ...entry,
+        totalTokens: entry.promptTokens + entry.completionTokens,
+        cost: price ? calculateCost(entry, price) : 0,
+        priced: !!price,
+        estimated: entry.estimated ?? false,
+        timestamp: Date.now(),
+      };
+
+      addTo(total, record);
+      addToGroup(byFeature, record.feature, record);
+      addToGroup(byComponent, record.component, record);
+      addToGroup(byCacheKey, record.cacheKey, record);
+      addToGroup(
+        byModel,
+        record.model ? `${record.provider}/${record.model}` : record.provider,
+        record
+      );
+
+      records.push(record);
+      if (records.length > maxRecords) records.shift();
+
+      budgets.forEach((budget, index) => {
+        if (!budgetApplies(budget, record)) return;
+        const wasExceeded = budgetStatus(index).exceeded;
+        spent[index].cost += record.cost;
+        spent[index].tokens += record.totalTokens;
+        const status = budgetStatus(index);
+        if (status.exceeded && !wasExceeded) {
+          config.onBudgetExceeded?.(status, record);
+        }
+      });
+
+      notify(record);
+      return record;
+    },
+
+    getSnapshot(): UsageSnapshot {
+      if (snapshot) return snapshot;
+      snapshot = {
+        total: { ...total },
+        byFeature: copyGroup(byFeature),
+        byComponent: copyGroup(byComponent),
+        byCacheKey: copyGroup(byCacheKey),
+        byModel: copyGroup(byModel),
+        budgets: budgets.map((_, index) => budgetStatus(index)),
+        records: [...records],
+      };
+      return snapshot;
+    },
+
+    subscribe(listener: UsageListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    evaluateBudgets(scope: UsageScope): BudgetDecision {
+      let downgrade: BudgetDecision | null = null;
+
+      for (let index = 0; index < budgets.length; index++) {
+        const budget = budgets[index];
+        if (!budgetApplies(budget, scope)) continue;
+        const status = budgetStatus(index);
+        if (!status.exceeded) continue;
+
+        // A downgrade budget without a provider to downgrade to blocks
+        if (status.action === "block" || !budget.downgradeTo) {
+          return { action: "block", budget: status };
+        }
+        if (!downgrade) {
+          downgrade = {
+            action: "downgrade",
+            budget: status,
+            provider: budget.downgradeTo,
+          };
+        }
+      }
+
+      return downgrade ?? { action: "allow" };
+    },
+
+    reset(): void {
+      total = emptyTotals();
+      byFeature = {};
+      byComponent = {};
+      byCacheKey = {};
+      byModel = {};
+      spent = budgets.map(() => ({ cost: 0, tokens: 0 }));
+      records = [];
+      notify(null);
+    },
+  };
+
+  return ledger;
+}
+
+/**
+ * Wraps `provider` so each call is checked against the ledger's budgets
+ * and its usage is recorded under `scope`. When the provider reports no
+ * usage, tokens are estimated from the prompt and response text. Streams
+ * are recorded once they end, including streams that fail, are cancelled
+ * or are not read to the end. Embeddings are recorded too, but never
+ * downgraded: vectors from another model are not comparable.
+ */
+export function withUsageTracking(
+  provider: AIProvider,
+  ledger: UsageLedger,
+  scope: UsageScope = {}
+): AIProvider {
+  function select(): AIProvider {
+    const decision = ledger.evaluateBudgets(scope);
+    if (decision.action === "block") throw budgetError(decision.budget);
+    return decision.action === "downgrade" ? decision.provider : provider;
+  }
+
+  function track(
+    target: AIProvider,
+    promptText: string,
+    response: InferenceResponse
+  ): void {
+    ledger.record({
+      ...scope,
+      provider: response.provider ?? target.name,
+      model: response.model ?? target.model,
+      promptTokens: response.usage?.promptTokens ?? estimateTokens(promptText),
+      completionTokens:
+        response.usage?.completionTokens ?? estimateTokens(response.content),
+      estimated: !response.usage,
+    });
+  }
+
+  async function run(
+    promptText: string,
+    call: (target: AIProvider) => Promise<InferenceResponse>
+  ): Promise<InferenceResponse> {
+    const target = select();
+    const response = await call(target);
+    track(target, promptText, response);
+    return response;
+  }
+
+  async function* runStream(
+    promptText: string,
+    open: (target: AIProvider) => AsyncIterable<StreamChunk>
+  ): AsyncIterable<StreamChunk> {
+    const target = select();
+    const folded: InferenceResponse = { content: "" };
+
+    try {
+      for await (const chunk of open(target)) {
+        folded.content += chunk.text;
+        folded.provider = chunk.provider;
+        if (chunk.usage) folded.usage = chunk.usage;
+        yield chunk;
+      }
+    } finally {
+      // The prompt was sent even if the stream did not finish
+      track(target, promptText, folded);
+    }
+  }
+
+  async function embed(
+    texts: string[],
+    options?: EmbeddingOptions
+  ): Promise<EmbeddingResponse> {
+    const decision = ledger.evaluateBudgets(scope);
+    if (decision.action === "block") throw budgetError(decision.budget);
+
+    const response = await provider.embed!(texts, options);
+    ledger.record({
+      ...scope,
+      provider: provider.name,
+      model: response.model,
+      promptTokens:
+        response.usage?.promptTokens ?? estimateTokens(texts.join("\n")),
+      completionTokens: 0,
+      estimated: !response.usage,
+    });
+    return response;
+  }
+
+  const canStream = !!(provider.streamInference || provider.streamChat);
+
+  return Object.assign(copyProvider(provider), {
+    inference(
+      prompt: string,
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return run(prompt, (target) => target.inference(prompt, options));
+    },
+
+    chat(
+      messages: ChatMessage[],
+      options?: InferenceOptions
+    ): Promise<InferenceResponse> {
+      return run(messagesToPrompt(messages), (target) =>
+        chatWithProvider(target, messages, options)
+      );
+    },
+
+    streamInference: canStream
+      ? (prompt: string, options?: InferenceOptions) =>
+          runStream(prompt, (target) =>
+            target.streamInference
+              ? target.streamInference(prompt, options)
+              : streamOrChatWithProvider(
+                  target,
+                  [
+                    {
+                      role: "user",
+                      content: prompt,
+                      attachments: options?.attachments,
+                    },
+                  ],
+                  options
+                )
+          )
+      : undefined,
+
+    streamChat: canStream
+      ? (messages: ChatMessage[], options?: InferenceOptions) =>
+          runStream(messagesToPrompt(messages), (target) =>
+            streamOrChatWithProvider(target, messages, options)
+          )
+      : undefined,
+
+    embed: provider.embed ? embed : undefined,
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Pricing - Token prices per provider and model
+ *
+ * Prices are in USD per million tokens. Models are matched by the longest
+ * listed prefix, so dated snapshots (e.g. "gpt-4o-mini-2024-07-18") use
+ * their family's price; "*" matches any model of a provider.
+ */
+
+export interface ModelPricing {
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M completion tokens */
+  output: number;
+}
+
+/** Provider name -> model (or prefix, or "*") -> price */
+export type PricingTable = Record<string, Record<string, ModelPricing>>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+const OPENAI_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+};
+
+/**
+ * List prices at the time of writing. Override or extend them through
+ * `createUsageLedger({ pricing })`.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  openai: OPENAI_PRICING,
+  "azure-openai": OPENAI_PRICING,
+  anthropic: {
+    "claude-3-haiku": { input: 0.25, output: 1.25 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-3-5-sonnet": { input: 3, output: 15 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-3-opus": { input: 15, output: 75 },
+    "claude-opus-4": { input: 15, output: 75 },
+  },
+  gemini: {
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+  },
+  groq: {
+    "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+    "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  },
+  cerebras: {
+    "llama3.1-8b": { input: 0.1, output: 0.1 },
+    "llama-3.3-70b": { input: 0.85, output: 1.2 },
+  },
+  // Local inference has no per-token price
+  ollama: { "*": { input: 0, output: 0 } },
+  transformers: { "*": { input: 0, output: 0 } },
+  mock: { "*": { input: 0, output: 0 } },
+};
+
+/**
+ * Finds the price of `model` on `provider`, or undefined when the table
+ * does not list it
+ */
+export function findModelPricing(
+  table: PricingTable,
+  provider: string,
+  model?: string
+): ModelPricing | undefined {
+  const models = table[provider];
+  if (!models) return undefined;
+
+  let best: string | undefined;
+  if (model) {
+    for (const prefix of Object.keys(models)) {
+      if (prefix !== "*" && model.startsWith(prefix)) {
+        if (!best || prefix.length > best.length) best = prefix;
+      }
+    }
+  }
+  return best ? models[best] : models["*"];
+}
+
+/**
+ * Cost in USD of `usage` at `pricing`
+ */
+export function calculateCost(
+  usage: TokenUsage,
+  pricing: ModelPricing
+): number {
+  return (
+    (usage.promptTokens * pricing.input +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Abort helpers - Shared cancellation primitives for providers and hooks
+ */
+
+/**
+ * Creates the error thrown when an in-flight inference is cancelled.
+ * Matches the shape of the DOMException thrown by `fetch`.
+ */
+export function createAbortError(message = "Inference was aborted"): Error {
+  const error = new Error(message);
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Checks whether an error was caused by an aborted signal, including
+ * SynapseErrors with the ABORTED code
+ */
+export function isAbortError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return name === "AbortError" || code === "ABORTED";
+}
+
+/**
+ * Throws an AbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Resolves after `ms`, rejecting early with an AbortError if the signal fires
+ */
+export function abortableDelay(
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Settles like `promise`, but rejects early with an AbortError if the
+ * signal fires. The work behind `promise` is not cancelled, so callers can
+ * stop waiting on shared work without cancelling it for everyone else.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
@@ -9,3 +9,11 @@ export {
   type AuditEntry,
   type ConfidenceParams,
 } from "./stateMachine";
+
+export {
+  createAbortError,
+  isAbortError,
+  throwIfAborted,
+  abortableDelay,
+  abortable,
+} from "./abort";
@@ -35,6 +35,7 @@ describe("State Machine", () => {
       ["OPTIMISTIC", "START_INFERENCE", "GENERATING"],
       ["GENERATING", "RESPONSE_RECEIVED", "VALIDATING"],
       ["GENERATING", "ERROR", "REJECTED"],
+      ["GENERATING", "PROVIDER_RETRY", "GENERATING"],
       ["VALIDATING", "VALID", "GATING"],
       ["VALIDATING", "INVALID", "CORRECTING"],
       ["CORRECTING", "RETRY", "GENERATING"],
@@ -42,11 +43,15 @@ describe("State Machine", () => {
       ["GATING", "CONFIDENT", "SETTLED"],
       ["GATING", "USER_CONFIRMED", "SETTLED"],
       ["GATING", "USER_REJECTED", "REJECTED"],
+      ["GATING", "POLICY_REJECTED", "REJECTED"],
       ["SETTLED", "RESET", "IDLE"],
       ["REJECTED", "RESET", "IDLE"],
+      ["GENERATING", "ABORT", "IDLE"],
+      ["GATING", "ABORT", "IDLE"],
       // Invalid transitions
       ["IDLE", "INVALID_EVENT", null],
       ["SETTLED", "DISPATCH", null],
+      ["SETTLED", "ABORT", null],
     ];
 
     testTransitions.forEach(([from, event, expected]) => {
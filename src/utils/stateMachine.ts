@@ -43,6 +43,7 @@ const TRANSITIONS: Transition[] = [
   { from: "OPTIMISTIC", event: "START_INFERENCE", to: "GENERATING" },
   { from: "GENERATING", event: "RESPONSE_RECEIVED", to: "VALIDATING" },
   { from: "GENERATING", event: "ERROR", to: "REJECTED" },
+  { from: "GENERATING", event: "PROVIDER_RETRY", to: "GENERATING" },
   { from: "VALIDATING", event: "VALID", to: "GATING" },
   { from: "VALIDATING", event: "INVALID", to: "CORRECTING" },
   { from: "CORRECTING", event: "RETRY", to: "GENERATING" },
@@ -51,8 +52,15 @@ const TRANSITIONS: Transition[] = [
   { from: "GATING", event: "NEEDS_CONFIRMATION", to: "GATING" },
   { from: "GATING", event: "USER_CONFIRMED", to: "SETTLED" },
   { from: "GATING", event: "USER_REJECTED", to: "REJECTED" },
+  { from: "GATING", event: "POLICY_REJECTED", to: "REJECTED" },
   { from: "SETTLED", event: "RESET", to: "IDLE" },
   { from: "REJECTED", event: "RESET", to: "IDLE" },
+  // Cancelled by a newer dispatch or on unmount
+  { from: "OPTIMISTIC", event: "ABORT", to: "IDLE" },
+  { from: "GENERATING", event: "ABORT", to: "IDLE" },
+  { from: "VALIDATING", event: "ABORT", to: "IDLE" },
+  { from: "CORRECTING", event: "ABORT", to: "IDLE" },
+  { from: "GATING", event: "ABORT", to: "IDLE" },
 ];
 
 /**
@@ -108,6 +116,8 @@ export interface ConfidenceParams<T> {
 
 /**
  * Calculates confidence score for a state change
+ *
+ * @deprecated Use a `GatingPolicy` (see `createGatingPolicy`)
  */
 export function calculateConfidence<T>({
   previousState,
@@ -134,6 +144,8 @@ export function calculateConfidence<T>({
 
 /**
  * Checks if a change appears destructive
+ *
+ * @deprecated Use `removedItemsScorer` in a `GatingPolicy`
  */
 export function isDestructiveChange<T>(previousState: T, newState: T): boolean {
   const prevSize = JSON.stringify(previousState).length;
@@ -0,0 +1,145 @@
+/**
+ * Tests for Typed Actions
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  defineAction,
+  buildActionResponseSchema,
+  replayActions,
+  validateActionsResponse,
+  ActionMap,
+} from "./actions";
+
+const TodoSchema = z.object({
+  items: z.array(z.object({ text: z.string().min(1), done: z.boolean() })),
+});
+
+type Todos = z.infer<typeof TodoSchema>;
+
+const actions: ActionMap<Todos> = {
+  add: defineAction({
+    description: "Adds an item",
+    payload: z.object({ text: z.string() }),
+    reducer: (state: Todos, { text }) => ({
+      items: [...state.items, { text, done: false }],
+    }),
+  }),
+  toggle: defineAction({
+    payload: z.object({ index: z.number().int() }),
+    reducer: (state: Todos, { index }) => {
+      if (!state.items[index]) throw new Error(`No item at ${index}`);
+      return {
+        items: state.items.map((item, i) =>
+          i === index ? { ...item, done: !item.done } : item
+        ),
+      };
+    },
+  }),
+};
+
+const initial: Todos = { items: [{ text: "Milk", done: false }] };
+
+describe("buildActionResponseSchema", () => {
+  it("accepts known actions with matching payloads", () => {
+    const schema = buildActionResponseSchema(actions);
+
+    expect(
+      schema.safeParse({
+        actions: [
+          { type: "add", payload: { text: "Eggs" } },
+          { type: "toggle", payload: { index: 0 } },
+        ],
+      }).success
+    ).toBe(true);
+    expect(
+      schema.safeParse({ actions: [{ type: "remove", payload: {} }] }).success
+    ).toBe(false);
+    expect(
+      schema.safeParse({ actions: [{ type: "add", payload: { text: 1 } }] })
+        .success
+    ).toBe(false);
+  });
+
+  it("requires at least one action", () => {
+    expect(() => buildActionResponseSchema({})).toThrow();
+  });
+});
+
+describe("replayActions", () => {
+  it("replays actions in order without mutating the input", () => {
+    const next = replayActions(
+      initial,
+      [
+        { type: "add", payload: { text: "Eggs" } },
+        { type: "toggle", payload: { index: 1 } },
+      ],
+      actions
+    );
+
+    expect(next.items).toEqual([
+      { text: "Milk", done: false },
+      { text: "Eggs", done: true },
+    ]);
+    expect(initial.items).toHaveLength(1);
+  });
+
+  it("rejects unknown action types", () => {
+    expect(() =>
+      replayActions(initial, [{ type: "toString", payload: {} }], actions)
+    ).toThrow('Action 0 ("toString") failed: Unknown action type');
+  });
+});
+
+describe("validateActionsResponse", () => {
+  it("returns the new state and the actions", () => {
+    const result = validateActionsResponse(
+      '{"actions": [{"type": "toggle", "payload": {"index": 0}}]}',
+      initial,
+      TodoSchema,
+      actions
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ items: [{ text: "Milk", done: true }] });
+    expect(result.actions).toEqual([{ type: "toggle", payload: { index: 0 } }]);
+  });
+
+  it("reports invalid payloads", () => {
+    const result = validateActionsResponse(
+      '{"actions": [{"type": "toggle", "payload": {"index": "first"}}]}',
+      initial,
+      TodoSchema,
+      actions
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.actions).toBeNull();
+  });
+
+  it("reports reducer errors", () => {
+    const result = validateActionsResponse(
+      '{"actions": [{"type": "toggle", "payload": {"index": 4}}]}',
+      initial,
+      TodoSchema,
+      actions
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].path).toBe("actions.0");
+    expect(result.errors[0].message).toContain("No item at 4");
+  });
+
+  it("validates the resulting state against the schema", () => {
+    const result = validateActionsResponse(
+      '{"actions": [{"type": "add", "payload": {"text": ""}}]}',
+      initial,
+      TodoSchema,
+      actions
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].path).toBe("items.1.text");
+  });
+});
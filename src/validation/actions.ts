@@ -0,0 +1,167 @@
+/**
+ * Typed Actions - Let the model choose from application-defined reducers
+ *
+ * Instead of rewriting state freely, the model returns a list of actions
+ * (`{ type, payload }`). Each payload is validated against its action's
+ * schema and the actions are replayed through pure reducers, so the only
+ * possible changes are the ones the application defined.
+ */
+
+import { z, ZodSchema, ZodTypeAny } from "zod";
+import {
+  validateResponse,
+  validateAgainstSchema,
+  ValidationResult,
+  ValidationError,
+} from "./schemaValidator";
+
+export interface ActionDefinition<S, P = unknown> {
+  /** Shown to the model to explain when to use the action */
+  description?: string;
+  /** Schema for the action payload */
+  payload: ZodSchema<P>;
+  /** Pure function producing the next state (must not mutate `state`) */
+  reducer: (state: S, payload: P) => S;
+}
+
+export type ActionMap<S> = Record<string, ActionDefinition<S, any>>;
+
+export interface DispatchedAction {
+  type: string;
+  payload: unknown;
+}
+
+/**
+ * Defines an action with its payload type inferred from the schema
+ *
+ * @example
+ * ```ts
+ * const addTodo = defineAction({
+ *   description: "Adds a todo item",
+ *   payload: z.object({ text: z.string() }),
+ *   reducer: (state: Todos, { text }) => ({
+ *     items: [...state.items, { id: crypto.randomUUID(), text, done: false }],
+ *   }),
+ * });
+ * ```
+ */
+export function defineAction<S, P>(
+  definition: ActionDefinition<S, P>
+): ActionDefinition<S, P> {
+  return definition;
+}
+
+type ActionOption = z.ZodObject<{
+  type: z.ZodLiteral<string>;
+  payload: ZodTypeAny;
+}>;
+
+/**
+ * Builds the schema for the model's response: `{ actions: [...] }` where
+ * each entry is one of the defined action types with a matching payload.
+ * Wrapped in an object so providers with native structured output can
+ * enforce it.
+ */
+export function buildActionResponseSchema<S>(
+  actions: ActionMap<S>
+): ZodSchema<{ actions: DispatchedAction[] }> {
+  const options = Object.entries(actions).map(([type, definition]) =>
+    z.object({ type: z.literal(type), payload: definition.payload })
+  );
+
+  if (options.length === 0) {
+    throw new Error("At least one action must be defined");
+  }
+
+  const schema = z.object({
+    actions: z.array(
+      z.discriminatedUnion("type", options as [ActionOption, ...ActionOption[]])
+    ),
+  });
+  return schema as ZodSchema<{ actions: DispatchedAction[] }>;
+}
+
+/**
+ * Replays validated actions through their reducers.
+ * Throws if an action type is unknown or a reducer throws.
+ */
+export function replayActions<S>(
+  state: S,
+  dispatched: DispatchedAction[],
+  actions: ActionMap<S>
+): S {
+  return dispatched.reduce((current, action, index) => {
+    try {
+      return applyAction(current, action, actions);
+    } catch (error) {
+      throw new Error(
+        `${describeAction(action, index)} failed: ${(error as Error).message}`
+      );
+    }
+  }, state);
+}
+
+function applyAction<S>(
+  state: S,
+  action: DispatchedAction,
+  actions: ActionMap<S>
+): S {
+  if (!Object.prototype.hasOwnProperty.call(actions, action.type)) {
+    throw new Error(`Unknown action type "${action.type}"`);
+  }
+  return actions[action.type].reducer(state, action.payload);
+}
+
+function describeAction(action: DispatchedAction, index: number): string {
+  return `Action ${index} ("${action.type}")`;
+}
+
+export interface ActionValidationResult<T> extends ValidationResult<T> {
+  /** The validated actions (null if the response did not match) */
+  actions: DispatchedAction[] | null;
+}
+
+/**
+ * Full pipeline for action responses: extract and validate the action
+ * list, replay it through the reducers, then validate the resulting state
+ * against `schema`. Errors are reported as `ValidationError`s so they can
+ * drive self-correction.
+ */
+export function validateActionsResponse<T>(
+  response: string,
+  state: T,
+  schema: ZodSchema<T>,
+  actions: ActionMap<T>
+): ActionValidationResult<T> {
+  const parsed = validateResponse(response, buildActionResponseSchema(actions));
+  if (!parsed.success || parsed.data === null) {
+    return { ...parsed, data: null, actions: null };
+  }
+
+  const dispatched = parsed.data.actions;
+  let next = state;
+
+  for (const [index, action] of dispatched.entries()) {
+    try {
+      next = applyAction(next, action, actions);
+    } catch (error) {
+      const failure: ValidationError = {
+        path: `actions.${index}`,
+        message: `${describeAction(action, index)} failed: ${
+          (error as Error).message
+        }`,
+        expected: "an action valid for the current state",
+        received: action,
+      };
+      return {
+        success: false,
+        data: null,
+        errors: [failure],
+        rawJson: parsed.rawJson,
+        actions: dispatched,
+      };
+    }
+  }
+
+  return { ...validateAgainstSchema(schema, next), actions: dispatched };
+}
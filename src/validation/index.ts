@@ -14,8 +14,57 @@ export {
   type CorrectionConfig,
   type CorrectionResult,
   type AttemptRecord,
+  type AttemptOptions,
 } from "./selfCorrection";
 
+export {
+  sampleWithConsistency,
+  structuralSimilarity,
+  type SelfConsistencyConfig,
+  type SelfConsistencyResult,
+  type SampleOptions,
+  type CandidateRecord,
+} from "./selfConsistency";
+
+export {
+  scoreFieldConfidence,
+  changedLeafPaths,
+  type LogprobConfidenceResult,
+  type ScoreFieldConfidenceParams,
+} from "./logprobConfidence";
+
+export {
+  parsePartialJson,
+  toDeepPartialSchema,
+  createPartialJsonParser,
+  streamPartialJson,
+  type DeepPartial,
+  type PartialJsonParser,
+} from "./partialJson";
+
+export {
+  applyJsonPatch,
+  validatePatchResponse,
+  parseJsonPointer,
+  JsonPatchOperationSchema,
+  JsonPatchSchema,
+  JsonPatchResponseSchema,
+  type JsonPatch,
+  type JsonPatchOperation,
+  type PatchValidationResult,
+} from "./jsonPatch";
+
+export {
+  defineAction,
+  buildActionResponseSchema,
+  replayActions,
+  validateActionsResponse,
+  type ActionDefinition,
+  type ActionMap,
+  type DispatchedAction,
+  type ActionValidationResult,
+} from "./actions";
+
 export {
   RollbackManager,
   createRollbackManager,
@@ -0,0 +1,157 @@
+/**
+ * Tests for JSON Patch
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  applyJsonPatch,
+  parseJsonPointer,
+  validatePatchResponse,
+} from "./jsonPatch";
+
+describe("parseJsonPointer", () => {
+  it("splits and unescapes tokens", () => {
+    expect(parseJsonPointer("")).toEqual([]);
+    expect(parseJsonPointer("/items/0")).toEqual(["items", "0"]);
+    expect(parseJsonPointer("/a~1b/c~0d")).toEqual(["a/b", "c~d"]);
+  });
+});
+
+describe("applyJsonPatch", () => {
+  const state = {
+    title: "Groceries",
+    items: [
+      { id: "1", text: "Milk", done: false },
+      { id: "2", text: "Eggs", done: false },
+    ],
+  };
+
+  it("applies add, remove and replace", () => {
+    expect(
+      applyJsonPatch(state, [
+        { op: "add", path: "/items/-", value: { id: "3", text: "Bread" } },
+        { op: "remove", path: "/items/0" },
+        { op: "replace", path: "/title", value: "Shopping" },
+        { op: "add", path: "/items/0", value: { id: "0", text: "Tea" } },
+      ])
+    ).toEqual({
+      title: "Shopping",
+      items: [
+        { id: "0", text: "Tea" },
+        { id: "2", text: "Eggs", done: false },
+        { id: "3", text: "Bread" },
+      ],
+    });
+  });
+
+  it("applies move, copy and test", () => {
+    expect(
+      applyJsonPatch(state, [
+        { op: "test", path: "/items/1/text", value: "Eggs" },
+        { op: "move", from: "/items/1", path: "/items/0" },
+        { op: "copy", from: "/title", path: "/subtitle" },
+      ])
+    ).toEqual({
+      title: "Groceries",
+      subtitle: "Groceries",
+      items: [state.items[1], state.items[0]],
+    });
+  });
+
+  it("does not mutate the input and shares unchanged branches", () => {
+    const snapshot = JSON.stringify(state);
+    const next = applyJsonPatch(state, [
+      { op: "replace", path: "/items/1/done", value: true },
+    ]) as typeof state;
+
+    expect(JSON.stringify(state)).toBe(snapshot);
+    expect(next.items[1].done).toBe(true);
+    expect(next.items[0]).toBe(state.items[0]);
+  });
+
+  it("rejects operations on missing paths", () => {
+    expect(() =>
+      applyJsonPatch(state, [{ op: "remove", path: "/items/5" }])
+    ).toThrow('Patch operation 0 (remove "/items/5") failed');
+    expect(() =>
+      applyJsonPatch(state, [{ op: "replace", path: "/missing", value: 1 }])
+    ).toThrow("does not exist");
+    expect(() =>
+      applyJsonPatch(state, [{ op: "add", path: "/items/01", value: {} }])
+    ).toThrow("not a valid array index");
+  });
+
+  it("fails the whole patch when a test operation fails", () => {
+    expect(() =>
+      applyJsonPatch(state, [
+        { op: "replace", path: "/title", value: "Changed" },
+        { op: "test", path: "/items/0/done", value: true },
+      ])
+    ).toThrow("Test failed");
+  });
+
+  it("refuses to touch __proto__", () => {
+    expect(() =>
+      applyJsonPatch(state, [
+        { op: "add", path: "/__proto__", value: { polluted: true } },
+      ])
+    ).toThrow("Refusing");
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("validatePatchResponse", () => {
+  const Schema = z.object({
+    items: z.array(z.object({ text: z.string(), done: z.boolean() })),
+  });
+  const state = { items: [{ text: "Milk", done: false }] };
+
+  it("returns the patched state and the patch", () => {
+    const result = validatePatchResponse(
+      '```json\n{"patch": [{"op": "replace", "path": "/items/0/done", "value": true}]}\n```',
+      state,
+      Schema
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ items: [{ text: "Milk", done: true }] });
+    expect(result.patch).toEqual([
+      { op: "replace", path: "/items/0/done", value: true },
+    ]);
+  });
+
+  it("reports malformed operations", () => {
+    const result = validatePatchResponse(
+      '{"patch": [{"op": "rename", "path": "/items"}]}',
+      state,
+      Schema
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.patch).toBeNull();
+  });
+
+  it("reports the failing operation", () => {
+    const result = validatePatchResponse(
+      '{"patch": [{"op": "remove", "path": "/items/3"}]}',
+      state,
+      Schema
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].path).toBe("patch.0");
+    expect(result.errors[0].message).toContain("out of bounds");
+  });
+
+  it("validates the patched state against the schema", () => {
+    const result = validatePatchResponse(
+      '{"patch": [{"op": "add", "path": "/items/-", "value": {"text": "Eggs"}}]}',
+      state,
+      Schema
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].path).toBe("items.1.done");
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * JSON Patch - RFC 6902 operations for incremental state mutations
+ *
+ * Instead of re-emitting the whole state, the model can return a list of
+ * operations against the current state. Operations are validated, applied
+ * without mutating the input (unchanged branches are shared), and the
+ * result is validated against the state schema like any other response.
+ */
+
+import { z, ZodSchema } from "zod";
+import {
+  validateResponse,
+  validateAgainstSchema,
+  ValidationResult,
+  ValidationError,
+} from "./schemaValidator";
+
+const JsonPointerSchema = z
+  .string()
+  .regex(
+    /^(\/([^~/]|~[01])*)*$/,
+    'Must be a JSON Pointer such as "/items/0/title" (or "" for the root)'
+  );
+
+export const JsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("add"),
+    path: JsonPointerSchema,
+    value: z.unknown(),
+  }),
+  z.object({ op: z.literal("remove"), path: JsonPointerSchema }),
+  z.object({
+    op: z.literal("replace"),
+    path: JsonPointerSchema,
+    value: z.unknown(),
+  }),
+  z.object({
+    op: z.literal("move"),
+    from: JsonPointerSchema,
+    path: JsonPointerSchema,
+  }),
+  z.object({
+    op: z.literal("copy"),
+    from: JsonPointerSchema,
+    path: JsonPointerSchema,
+  }),
+  z.object({
+    op: z.literal("test"),
+    path: JsonPointerSchema,
+    value: z.unknown(),
+  }),
+]);
+
+export const JsonPatchSchema = z.array(JsonPatchOperationSchema);
+
+/**
+ * Shape requested from the model. The operations are wrapped in an object
+ * so providers with native structured output can enforce it.
+ */
+export const JsonPatchResponseSchema = z.object({ patch: JsonPatchSchema });
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+export type JsonPatch = z.infer<typeof JsonPatchSchema>;
+
+/**
+ * Splits a JSON Pointer (RFC 6901) into unescaped reference tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasKey(object: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function checkKey(key: string): string {
+  if (key === "__proto__") {
+    throw new Error(`Refusing to modify "${key}"`);
+  }
+  return key;
+}
+
+/**
+ * Parses an array index token. `-` (one past the end) is only allowed
+ * when appending.
+ */
+function toIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`"${token}" is not a valid array index`);
+  }
+
+  const index = Number(token);
+  const max = allowEnd ? length : length - 1;
+  if (index > max) {
+    throw new Error(`Index ${index} is out of bounds (length ${length})`);
+  }
+  return index;
+}
+
+function getAt(document: unknown, tokens: string[]): unknown {
+  let current = document;
+
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[toIndex(token, current.length, false)];
+    } else if (isObject(current) && hasKey(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`Path does not exist at "${token}"`);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Copies the containers along `tokens` and replaces the value at the end
+ * with `update(value)`
+ */
+function updateAt(
+  document: unknown,
+  tokens: string[],
+  update: (value: unknown) => unknown
+): unknown {
+  if (tokens.length === 0) return update(document);
+
+  const [token, ...rest] = tokens;
+
+  if (Array.isArray(document)) {
+    const index = toIndex(token, document.length, false);
+    const copy = [...document];
+    copy[index] = updateAt(document[index], rest, update);
+    return copy;
+  }
+
+  if (isObject(document) && hasKey(document, token)) {
+    return {
+      ...document,
+      [checkKey(token)]: updateAt(document[token], rest, update),
+    };
+  }
+
+  throw new Error(`Path does not exist at "${token}"`);
+}
+
+function addAt(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value;
+
+  const key = tokens[tokens.length - 1];
+  return updateAt(document, tokens.slice(0, -1), (parent) => {
+    if (Array.isArray(parent)) {
+      const copy = [...parent];
+      copy.splice(toIndex(key, parent.length, true), 0, value);
+      return copy;
+    }
+    if (isObject(parent)) {
+      return { ...parent, [checkKey(key)]: value };
+    }
+    throw new Error(`Cannot add "${key}" to a non-container value`);
+  });
+}
+
+function removeAt(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error("Cannot remove the root document");
+  }
+
+  const key = tokens[tokens.length - 1];
+  return updateAt(document, tokens.slice(0, -1), (parent) => {
+    if (Array.isArray(parent)) {
+      const copy = [...parent];
+      copy.splice(toIndex(key, parent.length, false), 1);
+      return copy;
+    }
+    if (isObject(parent) && hasKey(parent, key)) {
+      const copy = { ...parent };
+      delete copy[key];
+      return copy;
+    }
+    throw new Error(`Path does not exist at "${key}"`);
+  });
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasKey(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Applies a single operation, returning the new document
+ */
+function applyOperation(
+  document: unknown,
+  operation: JsonPatchOperation
+): unknown {
+  const path = parseJsonPointer(operation.path);
+
+  switch (operation.op) {
+    case "add":
+    case "replace":
+    case "test":
+      if (operation.value === undefined) {
+        throw new Error(`"${operation.op}" requires a value`);
+      }
+  }
+
+  switch (operation.op) {
+    case "add":
+      return addAt(document, path, operation.value);
+
+    case "remove":
+      return removeAt(document, path);
+
+    case "replace":
+      return updateAt(document, path, () => operation.value);
+
+    case "move": {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error("Cannot move a value into one of its children");
+      }
+      const from = parseJsonPointer(operation.from);
+      const value = getAt(document, from);
+      return addAt(removeAt(document, from), path, value);
+    }
+
+    case "copy":
+      return addAt(
+        document,
+        path,
+        getAt(document, parseJsonPointer(operation.from))
+      );
+
+    case "test":
+      if (!deepEqual(getAt(document, path), operation.value)) {
+        throw new Error("Test failed: value does not match");
+      }
+      return document;
+  }
+}
+
+function describeOperation(operation: JsonPatchOperation, index: number) {
+  return `Patch operation ${index} (${operation.op} "${operation.path}")`;
+}
+
+/**
+ * Applies a JSON Patch without mutating `document`.
+ * Throws if any operation fails; no partial result is returned.
+ *
+ * @example
+ * ```ts
+ * const next = applyJsonPatch(state, [
+ *   { op: "add", path: "/items/-", value: { id: "id_1", text: "Milk" } },
+ *   { op: "replace", path: "/items/0/done", value: true },
+ * ]);
+ * ```
+ */
+export function applyJsonPatch<T = unknown>(
+  document: T,
+  patch: JsonPatch
+): unknown {
+  return patch.reduce<unknown>((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      throw new Error(
+        `${describeOperation(operation, index)} failed: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }, document);
+}
+
+export interface PatchValidationResult<T> extends ValidationResult<T> {
+  /** The validated operations (null if the response was not a valid patch) */
+  patch: JsonPatch | null;
+}
+
+/**
+ * Full pipeline for patch responses: extract and validate the operations,
+ * apply them to `document`, then validate the result against `schema`.
+ * Errors are reported as `ValidationError`s so they can drive
+ * self-correction.
+ */
+export function validatePatchResponse<T>(
+  response: string,
+  document: T,
+  schema: ZodSchema<T>
+): PatchValidationResult<T> {
+  const parsed = validateResponse(response, JsonPatchResponseSchema);
+  if (!parsed.success || parsed.data === null) {
+    return { ...parsed, data: null, patch: null };
+  }
+
+  const { patch } = parsed.data;
+  let next: unknown = document;
+
+  for (const [index, operation] of patch.entries()) {
+    try {
+      next = applyOperation(next, operation);
+    } catch (error) {
+      const failure: ValidationError = {
+        path: `patch.${index}`,
+        message: `${describeOperation(operation, index)} failed: ${
+          (error as Error).message
+        }`,
+        expected: "an operation valid for the current state",
+        received: operation,
+      };
+      return {
+        success: false,
+        data: null,
+        errors: [failure],
+        rawJson: parsed.rawJson,
+        patch,
+      };
+    }
+  }
+
+  return { ...validateAgainstSchema(schema, next), patch };
+}
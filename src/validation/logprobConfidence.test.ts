@@ -0,0 +1,96 @@
+/**
+ * Tests for logprob-based field confidence
+ */
+
+import { describe, it, expect } from "vitest";
+import { scoreFieldConfidence, changedLeafPaths } from "./logprobConfidence";
+
+/**
+ * Tokens spelling `pieces`, each with the given probability
+ */
+function tokens(...pieces: Array<[string, number]>) {
+  return pieces.map(([token, probability]) => ({
+    token,
+    logprob: Math.log(probability),
+  }));
+}
+
+describe("changedLeafPaths", () => {
+  it("lists new and changed leaves of the next state", () => {
+    expect(
+      changedLeafPaths(
+        { todos: [{ title: "Milk", done: false }], owner: "ann" },
+        {
+          todos: [
+            { title: "Milk", done: true },
+            { title: "Eggs", done: false },
+          ],
+        }
+      )
+    ).toEqual(["/todos/0/done", "/todos/1/title", "/todos/1/done"]);
+    expect(changedLeafPaths({ a: 1 }, { a: 1, "b/c": [] })).toEqual(["/b~1c"]);
+  });
+});
+
+describe("scoreFieldConfidence", () => {
+  const logprobs = tokens(
+    ['{"', 1],
+    ["title", 1],
+    ['":"', 1],
+    ["Buy", 0.9],
+    [" eggs", 0.4],
+    ['","', 1],
+    ["done", 1],
+    ['":', 1],
+    ["false", 0.5],
+    ["}", 1]
+  );
+
+  it("scores each leaf from the tokens that spell its value", () => {
+    const result = scoreFieldConfidence({
+      response: '{"title":"Buy eggs","done":false}',
+      logprobs,
+    });
+
+    expect(result.fields["/title"]).toBeCloseTo(Math.sqrt(0.9 * 0.4));
+    expect(result.fields["/done"]).toBeCloseTo(0.5);
+    expect(result.overall).toBeCloseTo(0.5);
+  });
+
+  it("only scores the requested paths", () => {
+    const result = scoreFieldConfidence({
+      response: '{"title":"Buy eggs","done":false}',
+      logprobs,
+      paths: ["/title", "/missing"],
+    });
+
+    expect(Object.keys(result.fields)).toEqual(["/title"]);
+  });
+
+  it("finds the JSON inside surrounding text", () => {
+    const result = scoreFieldConfidence({
+      response: '```json\n{"n": 42}\n```',
+      logprobs: tokens(
+        ["```", 1],
+        ["json", 1],
+        ['\n{"', 1],
+        ["n", 1],
+        ['": ', 1],
+        ["42", 0.8],
+        ["}\n", 1],
+        ["```", 1]
+      ),
+    });
+
+    expect(result.fields).toEqual({ "/n": expect.closeTo(0.8) });
+  });
+
+  it("scores nothing when the tokens do not match the response", () => {
+    expect(
+      scoreFieldConfidence({
+        response: '{"title":"Milk"}',
+        logprobs,
+      })
+    ).toEqual({ fields: {}, overall: null });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Logprob Confidence - Per-field confidence from token log probabilities
+ *
+ * Providers that support `logprobs` return the probability of every
+ * generated token. Mapping the tokens onto the JSON in the response gives
+ * each leaf value its own score: the geometric mean probability of the
+ * tokens that spell it. A model that was unsure about one field shows up
+ * in that field, instead of being averaged away over the whole response.
+ */
+
+import type { TokenLogprob } from "../providers/openai";
+import { extractJson } from "./schemaValidator";
+
+export interface LogprobConfidenceResult {
+  /** JSON pointer of each scored leaf -> confidence (0-1) */
+  fields: Record<string, number>;
+  /** Confidence of the least certain field (null when nothing was scored) */
+  overall: number | null;
+}
+
+export interface ScoreFieldConfidenceParams {
+  /** Raw response text the tokens were generated for */
+  response: string;
+  logprobs: TokenLogprob[];
+  /**
+   * JSON pointers of the leaves to score (default: every leaf). Paths
+   * missing from the response are skipped.
+   */
+  paths?: string[];
+}
+
+/** Character range [start, end) */
+type Span = [number, number];
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Flattens a JSON value into `pointer -> serialized leaf` entries; empty
+ * objects and arrays count as leaves
+ */
+export function flattenLeaves(
+  value: unknown,
+  path = "",
+  leaves: Map<string, string> = new Map()
+): Map<string, string> {
+  if (value !== null && typeof value === "object") {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+
+    if (entries.length === 0) leaves.set(path, JSON.stringify(value));
+    for (const [key, item] of entries) {
+      flattenLeaves(item, `${path}/${escapePointerToken(key)}`, leaves);
+    }
+    return leaves;
+  }
+
+  leaves.set(path, JSON.stringify(value));
+  return leaves;
+}
+
+/**
+ * JSON pointers of the leaves of `next` that are new or differ from
+ * `previous` - the fields a state change actually wrote
+ */
+export function changedLeafPaths(previous: unknown, next: unknown): string[] {
+  const before = flattenLeaves(previous);
+  const changed: string[] = [];
+  for (const [path, value] of flattenLeaves(next)) {
+    if (before.get(path) !== value) changed.push(path);
+  }
+  return changed;
+}
+
+/**
+ * Finds the character span of every leaf value in `json`. Strings span
+ * their contents without the quotes (unless empty), so the structural
+ * tokens around them do not dilute the score. Throws on malformed JSON.
+ */
+function locateLeaves(json: string): Map<string, Span> {
+  const spans = new Map<string, Span>();
+  let index = 0;
+
+  function skipWhitespace(): void {
+    while (/\s/.test(json[index] ?? "")) index++;
+  }
+
+  function expect(char: string): void {
+    if (json[index] !== char) {
+      throw new Error(`Expected "${char}" at ${index}`);
+    }
+    index++;
+  }
+
+  function readString(): Span {
+    const start = index;
+    expect('"');
+    while (index < json.length && json[index] !== '"') {
+      index += json[index] === "\\" ? 2 : 1;
+    }
+    expect('"');
+    return [start, index];
+  }
+
+  function readValue(path: string): void {
+    skipWhitespace();
+    const start = index;
+    const char = json[index];
+
+    if (char === "{" || char === "[") {
+      const close = char === "{" ? "}" : "]";
+      index++;
+      skipWhitespace();
+      if (json[index] === close) {
+        index++;
+        spans.set(path, [start, index]);
+        return;
+      }
+
+      for (let item = 0; ; item++) {
+        let key = String(item);
+        if (char === "{") {
+          skipWhitespace();
+          const [keyStart, keyEnd] = readString();
+          key = JSON.parse(json.slice(keyStart, keyEnd));
+          skipWhitespace();
+          expect(":");
+        }
+        readValue(`${path}/${escapePointerToken(key)}`);
+        skipWhitespace();
+        if (json[index] === close) break;
+        expect(",");
+      }
+      index++;
+      return;
+    }
+
+    if (char === '"') {
+      const [stringStart, stringEnd] = readString();
+      spans.set(
+        path,
+        stringEnd - stringStart > 2
+          ? [stringStart + 1, stringEnd - 1]
+          : [stringStart, stringEnd]
+      );
+      return;
+    }
+
+    while (index < json.length && !/[\s,\]}]/.test(json[index])) index++;
+    if (index === start) throw new Error(`Unexpected end at ${index}`);
+    spans.set(path, [start, index]);
+  }
+
+  readValue("");
+  return spans;
+}
+
+/**
+ * Scores the JSON leaves of `response` from its token logprobs. Returns no
+ * fields when the tokens do not spell out the response (e.g. logprobs of
+ * a different attempt) or the response holds no JSON.
+ */
+export function scoreFieldConfidence({
+  response,
+  logprobs,
+  paths,
+}: ScoreFieldConfidenceParams): LogprobConfidenceResult {
+  const empty: LogprobConfidenceResult = { fields: {}, overall: null };
+
+  // Local backends may trim the text around the generated tokens
+  const generated = logprobs.map((entry) => entry.token).join("");
+  const responseOffset = generated.indexOf(response);
+  const json = extractJson(response);
+  const jsonOffset = response.indexOf(json);
+  if (!json || responseOffset === -1 || jsonOffset === -1) return empty;
+
+  let spans: Map<string, Span>;
+  try {
+    spans = locateLeaves(json);
+  } catch {
+    return empty;
+  }
+
+  const tokenSpans: Span[] = [];
+  let position = 0;
+  for (const entry of logprobs) {
+    tokenSpans.push([position, position + entry.token.length]);
+    position += entry.token.length;
+  }
+
+  const fields: Record<string, number> = {};
+  for (const path of paths ?? spans.keys()) {
+    const span = spans.get(path);
+    if (!span) continue;
+    const start = span[0] + jsonOffset + responseOffset;
+    const end = span[1] + jsonOffset + responseOffset;
+
+    let total = 0;
+    let count = 0;
+    tokenSpans.forEach(([tokenStart, tokenEnd], index) => {
+      if (tokenStart < end && tokenEnd > start) {
+        total += logprobs[index].logprob;
+        count++;
+      }
+    });
+    if (count > 0) fields[path] = Math.exp(total / count);
+  }
+
+  const scores = Object.values(fields);
+  return {
+    fields,
+    overall: scores.length > 0 ? Math.min(...scores) : null,
+  };
+}
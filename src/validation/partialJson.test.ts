@@ -0,0 +1,192 @@
+/**
+ * Tests for Partial JSON Parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  parsePartialJson,
+  toDeepPartialSchema,
+  createPartialJsonParser,
+  streamPartialJson,
+} from "./partialJson";
+
+describe("parsePartialJson", () => {
+  it("parses complete JSON", () => {
+    expect(parsePartialJson('{"a": 1, "b": [true, null]}')).toEqual({
+      a: 1,
+      b: [true, null],
+    });
+  });
+
+  it("closes open objects and arrays", () => {
+    expect(
+      parsePartialJson('{"items": [{"text": "one"}, {"text": "tw')
+    ).toEqual({ items: [{ text: "one" }, { text: "tw" }] });
+  });
+
+  it("drops truncated keys", () => {
+    expect(parsePartialJson('{"done": true, "ti')).toEqual({ done: true });
+    expect(parsePartialJson('{"done": true, "title"')).toEqual({ done: true });
+    expect(parsePartialJson('{"done": true, "title":')).toEqual({ done: true });
+  });
+
+  it("drops numbers and literals that may still change", () => {
+    expect(parsePartialJson('{"count": 12')).toEqual({});
+    expect(parsePartialJson('{"count": 12,')).toEqual({ count: 12 });
+    expect(parsePartialJson('{"done": tr')).toEqual({});
+    expect(parsePartialJson("[1, -")).toEqual([1]);
+  });
+
+  it("handles escapes, including truncated ones", () => {
+    expect(parsePartialJson('{"a": "say \\"hi\\"')).toEqual({ a: 'say "hi"' });
+    expect(parsePartialJson('{"a": "line\\')).toEqual({ a: "line" });
+    expect(parsePartialJson('{"a": "\\u00e9\\u00')).toEqual({ a: "é" });
+  });
+
+  it("ignores surrounding text such as markdown fences", () => {
+    expect(parsePartialJson('```json\n{"a": "b"}\n```')).toEqual({ a: "b" });
+    expect(parsePartialJson("Here you go:\n[1, 2")).toEqual([1]);
+  });
+
+  it("returns undefined without JSON or for malformed input", () => {
+    expect(parsePartialJson("")).toBeUndefined();
+    expect(parsePartialJson("no json yet")).toBeUndefined();
+    expect(parsePartialJson('{"a": oops}')).toBeUndefined();
+  });
+});
+
+describe("toDeepPartialSchema", () => {
+  const TodoSchema = z.object({
+    title: z.string().min(5),
+    priority: z.enum(["low", "high"]),
+    items: z
+      .array(z.object({ text: z.string(), done: z.boolean().default(false) }))
+      .min(1),
+  });
+
+  it("accepts prefixes of valid values", () => {
+    const partial = toDeepPartialSchema(TodoSchema);
+
+    expect(partial.safeParse({}).success).toBe(true);
+    expect(partial.safeParse({ title: "Sh" }).success).toBe(true);
+    expect(partial.safeParse({ items: [{ text: "a" }] }).success).toBe(true);
+  });
+
+  it("does not fill in defaults", () => {
+    const partial = toDeepPartialSchema(TodoSchema);
+
+    expect(partial.parse({ items: [{ text: "a" }] })).toEqual({
+      items: [{ text: "a" }],
+    });
+  });
+
+  it("still rejects wrong types", () => {
+    const partial = toDeepPartialSchema(TodoSchema);
+
+    expect(partial.safeParse({ title: 5 }).success).toBe(false);
+    expect(partial.safeParse({ priority: "urgent" }).success).toBe(false);
+  });
+
+  it("accepts enum and literal values still being written", () => {
+    const partial = toDeepPartialSchema(
+      z.object({
+        status: z.enum(["todo", "in_progress"]),
+        kind: z.literal("task"),
+        version: z.literal(2),
+      })
+    );
+
+    expect(partial.safeParse({ status: "in_prog", kind: "ta" }).success).toBe(
+      true
+    );
+    expect(partial.safeParse({ version: 2 }).success).toBe(true);
+    expect(partial.safeParse({ status: "done" }).success).toBe(false);
+    expect(partial.safeParse({ version: 3 }).success).toBe(false);
+  });
+});
+
+describe("createPartialJsonParser", () => {
+  const Schema = z.object({
+    items: z.array(z.object({ text: z.string() })),
+  });
+
+  it("yields a new partial only when it changes", () => {
+    const parser = createPartialJsonParser(Schema);
+
+    expect(parser.push('{"items": [')).toEqual({ items: [] });
+    expect(parser.push(" ")).toBeUndefined();
+    expect(parser.push('{"text": "a')).toEqual({ items: [{ text: "a" }] });
+    expect(parser.getPartial()).toEqual({ items: [{ text: "a" }] });
+  });
+
+  it("reads deltas split anywhere like the whole text", () => {
+    const text =
+      '{"items": [{"text": "caf\\u00e9 \\"au lait\\""}, {"text": "tea"}], "n": -1.5e2}';
+    const parser = createPartialJsonParser(z.unknown());
+    const partials: unknown[] = [];
+
+    for (let end = 1; end <= text.length; end++) {
+      const partial = parser.push(text[end - 1]);
+      if (partial !== undefined) {
+        partials.push(structuredClone(partial));
+        expect(partial).toEqual(parsePartialJson(text.slice(0, end)));
+      }
+    }
+
+    expect(partials[partials.length - 1]).toEqual(JSON.parse(text));
+  });
+
+  it("leaves earlier partials unchanged", () => {
+    const parser = createPartialJsonParser(Schema);
+    const first = parser.push('{"items": [{"text": "a');
+
+    parser.push('b"}, {"text": "c"}');
+    expect(first).toEqual({ items: [{ text: "a" }] });
+  });
+
+  it("skips partials that do not match the schema", () => {
+    const parser = createPartialJsonParser(Schema);
+
+    expect(parser.push('{"items": 5,')).toBeUndefined();
+    expect(parser.getPartial()).toBeUndefined();
+  });
+
+  it("fully validates the final text", () => {
+    const parser = createPartialJsonParser(Schema);
+    parser.push('{"items": [{"text": "a"}');
+
+    expect(parser.finish().success).toBe(false);
+
+    parser.push("]}");
+    expect(parser.getText()).toBe('{"items": [{"text": "a"}]}');
+    expect(parser.finish()).toMatchObject({
+      success: true,
+      data: { items: [{ text: "a" }] },
+    });
+  });
+});
+
+describe("streamPartialJson", () => {
+  it("yields progressively more complete values", async () => {
+    async function* tokens() {
+      yield '{"items": [{"text": "Buy';
+      yield ' milk"}, {"text": "Walk';
+      yield ' dog"}]}';
+    }
+
+    const partials = [];
+    for await (const partial of streamPartialJson(
+      tokens(),
+      z.object({ items: z.array(z.object({ text: z.string() })) })
+    )) {
+      partials.push(partial);
+    }
+
+    expect(partials).toEqual([
+      { items: [{ text: "Buy" }] },
+      { items: [{ text: "Buy milk" }, { text: "Walk" }] },
+      { items: [{ text: "Buy milk" }, { text: "Walk dog" }] },
+    ]);
+  });
+});
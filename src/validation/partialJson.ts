@@ -0,0 +1,453 @@
+/**
+ * Partial JSON Parser - Progressive structured output while streaming
+ *
+ * Parses incomplete JSON into the most complete value seen so far and
+ * validates it against a deep-partial version of the schema, so UIs can
+ * render fields and list items as they arrive. The complete text still
+ * goes through full validation once the stream ends.
+ */
+
+import { z, ZodSchema, ZodTypeAny } from "zod";
+import { validateResponse, ValidationResult } from "./schemaValidator";
+
+/**
+ * Recursively optional version of T
+ */
+export type DeepPartial<T> = T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+type Container = Record<string, unknown> | unknown[];
+
+/** Where a value was placed */
+interface Slot {
+  container: Container;
+  key: string | number;
+}
+
+/** An object or array that is still open */
+type Frame =
+  | {
+      kind: "object";
+      value: Record<string, unknown>;
+      /** Key whose value comes next */
+      key: string | null;
+      expect: "key" | "colon" | "value";
+    }
+  | { kind: "array"; value: unknown[] };
+
+/** A string or literal that is still being read */
+type Token =
+  | {
+      kind: "string";
+      /** Where the value goes; keys have none */
+      slot: Slot | null;
+      value: string;
+      /** Characters after a backslash, until the escape is complete */
+      escape: string | null;
+    }
+  | { kind: "literal"; text: string };
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\n" || char === "\r" || char === "\t";
+}
+
+/** Whether more characters could still turn `text` into a valid literal */
+function isLiteralPrefix(text: string): boolean {
+  return (
+    Object.keys(LITERALS).some((literal) => literal.startsWith(text)) ||
+    /^-?[\d.eE+-]*$/.test(text)
+  );
+}
+
+/**
+ * Reads a JSON document in pieces, keeping the open objects and arrays
+ * between writes so every character is only read once
+ */
+interface PartialJsonReader {
+  write(text: string): void;
+  /** Value read so far (see `parsePartialJson`) */
+  value(): unknown;
+  /** Increases whenever the value changes */
+  version(): number;
+}
+
+function createPartialJsonReader(): PartialJsonReader {
+  let root: Container | undefined;
+  const stack: Frame[] = [];
+  let token: Token | null = null;
+  let done = false;
+  let failed = false;
+  let version = 0;
+
+  /** Places a value in the innermost open container */
+  function attach(value: unknown): Slot {
+    const frame = stack[stack.length - 1];
+    version++;
+    if (frame.kind === "array") {
+      frame.value.push(value);
+      return { container: frame.value, key: frame.value.length - 1 };
+    }
+    const key = frame.key!;
+    frame.value[key] = value;
+    frame.key = null;
+    frame.expect = "key";
+    return { container: frame.value, key };
+  }
+
+  function open(container: Container): void {
+    if (root === undefined) root = container;
+    else attach(container);
+    version++;
+    stack.push(
+      Array.isArray(container)
+        ? { kind: "array", value: container }
+        : { kind: "object", value: container, key: null, expect: "key" }
+    );
+  }
+
+  function close(): void {
+    stack.pop();
+    if (stack.length === 0) done = true;
+  }
+
+  /** Writes a value string read so far to its slot */
+  function flush(): void {
+    if (token?.kind !== "string" || !token.slot) return;
+    const container = token.slot.container as Record<string | number, unknown>;
+    if (container[token.slot.key] !== token.value) {
+      container[token.slot.key] = token.value;
+      version++;
+    }
+  }
+
+  function endLiteral(text: string): void {
+    token = null;
+    if (text in LITERALS) {
+      attach(LITERALS[text]);
+      return;
+    }
+    const number = Number(text);
+    if (/^-?[\d.eE+-]+$/.test(text) && !Number.isNaN(number)) {
+      attach(number);
+    } else {
+      failed = true;
+    }
+  }
+
+  function readStringChar(
+    string: Extract<Token, { kind: "string" }>,
+    char: string
+  ): void {
+    if (string.escape !== null) {
+      string.escape += char;
+      if (string.escape[0] === "u") {
+        if (string.escape.length < 5) return;
+        if (/^u[\da-fA-F]{4}$/.test(string.escape)) {
+          string.value += String.fromCharCode(
+            parseInt(string.escape.slice(1), 16)
+          );
+        } else {
+          failed = true;
+        }
+      } else {
+        try {
+          string.value += JSON.parse(`"\\${char}"`);
+        } catch {
+          failed = true;
+        }
+      }
+      string.escape = null;
+      return;
+    }
+
+    if (char === "\\") {
+      string.escape = "";
+    } else if (char !== '"') {
+      string.value += char;
+    } else if (string.slot) {
+      flush();
+      token = null;
+    } else {
+      const frame = stack[stack.length - 1] as Extract<
+        Frame,
+        { kind: "object" }
+      >;
+      frame.key = string.value;
+      frame.expect = "colon";
+      token = null;
+    }
+  }
+
+  /** Reads a character where a value may start */
+  function startValue(char: string): void {
+    if (char === "{") open({});
+    else if (char === "[") open([]);
+    else if (char === '"') {
+      token = { kind: "string", slot: attach(""), value: "", escape: null };
+    } else {
+      token = { kind: "literal", text: "" };
+      readLiteralChar(char);
+    }
+  }
+
+  function readLiteralChar(char: string): void {
+    const literal = token as Extract<Token, { kind: "literal" }>;
+    literal.text += char;
+    if (!isLiteralPrefix(literal.text)) failed = true;
+    // Words are complete once spelled out; numbers only at a delimiter
+    else if (literal.text in LITERALS) endLiteral(literal.text);
+  }
+
+  function readChar(char: string): void {
+    if (token?.kind === "string") {
+      readStringChar(token, char);
+      return;
+    }
+    if (token?.kind === "literal") {
+      if (!isWhitespace(char) && !",]}".includes(char)) {
+        readLiteralChar(char);
+        return;
+      }
+      endLiteral(token.text);
+      if (failed) return;
+    }
+
+    if (isWhitespace(char)) return;
+    const frame = stack[stack.length - 1];
+
+    if (frame.kind === "array") {
+      if (char === "]") close();
+      else if (char !== ",") startValue(char);
+      return;
+    }
+
+    switch (frame.expect) {
+      case "key":
+        if (char === "}") close();
+        else if (char === '"') {
+          token = { kind: "string", slot: null, value: "", escape: null };
+        } else if (char !== ",") failed = true;
+        return;
+      case "colon":
+        if (char === ":") frame.expect = "value";
+        else failed = true;
+        return;
+      case "value":
+        if (char === "}" || char === "]" || char === "," || char === ":") {
+          failed = true;
+        } else {
+          startValue(char);
+        }
+    }
+  }
+
+  return {
+    write(text: string) {
+      for (let i = 0; i < text.length && !failed && !done; i++) {
+        const char = text[i];
+        if (root === undefined) {
+          if (char === "{" || char === "[") open(char === "{" ? {} : []);
+          continue;
+        }
+        readChar(char);
+      }
+      flush();
+    },
+
+    value: () => (failed ? undefined : root),
+
+    version: () => version,
+  };
+}
+
+/**
+ * Best-effort parse of a possibly truncated JSON document.
+ *
+ * - Open objects and arrays are closed
+ * - Truncated string values are kept; truncated keys are dropped
+ * - Truncated numbers and literals (`tru`, `12` at the very end) are dropped
+ *   since they may still change
+ * - Text before the first `{`/`[` (e.g. a markdown fence) and after the
+ *   root value is ignored
+ *
+ * Returns undefined when there is no JSON yet or the input is malformed.
+ */
+export function parsePartialJson(text: string): unknown {
+  const reader = createPartialJsonReader();
+  reader.write(text);
+  return reader.value();
+}
+
+/**
+ * Accepts the given values and any string that starts one of them
+ */
+function prefixOf(values: unknown[]): ZodTypeAny {
+  return z.custom((value) =>
+    values.some(
+      (option) =>
+        option === value ||
+        (typeof option === "string" &&
+          typeof value === "string" &&
+          option.startsWith(value))
+    )
+  );
+}
+
+/**
+ * Builds a schema that accepts any prefix of a valid value: object fields
+ * become optional, enum and literal strings may be cut short, and
+ * length/format checks and refinements are dropped because they cannot
+ * hold until the value is complete.
+ */
+export function toDeepPartialSchema(schema: ZodSchema): ZodTypeAny {
+  const def = (schema as any)._def;
+
+  switch (def?.typeName) {
+    case "ZodObject": {
+      const shape: Record<string, ZodTypeAny> = {};
+      for (const [key, value] of Object.entries(def.shape())) {
+        shape[key] = toDeepPartialSchema(value as ZodSchema).optional();
+      }
+      const result = z.object(shape);
+      return def.unknownKeys === "passthrough" ? result.passthrough() : result;
+    }
+
+    case "ZodArray":
+      return z.array(toDeepPartialSchema(def.type));
+
+    case "ZodString":
+      return z.string();
+
+    // A string still in flight only spells the start of the value
+    case "ZodEnum":
+      return prefixOf(def.values);
+
+    case "ZodLiteral":
+      return prefixOf([def.value]);
+
+    case "ZodTuple":
+      return z.array(z.unknown());
+
+    case "ZodRecord":
+      return z.record(toDeepPartialSchema(def.valueType));
+
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion": {
+      const options: ZodSchema[] = Array.isArray(def.options)
+        ? def.options
+        : Array.from(def.options.values());
+      const partials = options.map((option) => toDeepPartialSchema(option));
+      return z.union(partials as [ZodTypeAny, ZodTypeAny]);
+    }
+
+    case "ZodOptional":
+      return toDeepPartialSchema(def.innerType).optional();
+
+    case "ZodNullable":
+      return toDeepPartialSchema(def.innerType).nullable();
+
+    // Defaults would invent values the model has not produced yet
+    case "ZodDefault":
+    case "ZodCatch":
+    case "ZodReadonly":
+      return toDeepPartialSchema(def.innerType);
+
+    case "ZodEffects":
+      return toDeepPartialSchema(def.schema);
+
+    case "ZodBranded":
+      return toDeepPartialSchema(def.type);
+
+    case "ZodPipeline":
+      return toDeepPartialSchema(def.in);
+
+    default:
+      return schema as ZodTypeAny;
+  }
+}
+
+export interface PartialJsonParser<T> {
+  /**
+   * Appends a text delta. Returns the new partial value when it changed
+   * and matches the deep-partial schema, otherwise undefined.
+   */
+  push: (delta: string) => DeepPartial<T> | undefined;
+  /** Latest partial value that matched the schema */
+  getPartial: () => DeepPartial<T> | undefined;
+  /** All text received so far */
+  getText: () => string;
+  /** Fully validates the accumulated text */
+  finish: () => ValidationResult<T>;
+}
+
+/**
+ * Creates an incremental parser for a streamed JSON response
+ *
+ * @example
+ * ```ts
+ * const parser = createPartialJsonParser(TodoSchema);
+ * for await (const text of toTextStream(stream)) {
+ *   const partial = parser.push(text);
+ *   if (partial) render(partial);
+ * }
+ * const result = parser.finish();
+ * ```
+ */
+export function createPartialJsonParser<T>(
+  schema: ZodSchema<T>
+): PartialJsonParser<T> {
+  const partialSchema = toDeepPartialSchema(schema);
+  const reader = createPartialJsonReader();
+  let text = "";
+  let partial: DeepPartial<T> | undefined;
+  let version = reader.version();
+
+  return {
+    push(delta: string) {
+      text += delta;
+      reader.write(delta);
+
+      const value = reader.value();
+      if (value === undefined || reader.version() === version) {
+        return undefined;
+      }
+      version = reader.version();
+
+      // Zod copies objects and arrays, so earlier partials stay unchanged
+      // while the reader fills in `value`
+      const result = partialSchema.safeParse(value);
+      if (!result.success) return undefined;
+
+      partial = result.data as DeepPartial<T>;
+      return partial;
+    },
+
+    getPartial: () => partial,
+
+    getText: () => text,
+
+    finish: () => validateResponse(text, schema),
+  };
+}
+
+/**
+ * Yields progressively more complete partial values from a text stream
+ */
+export async function* streamPartialJson<T>(
+  chunks: AsyncIterable<string>,
+  schema: ZodSchema<T>
+): AsyncIterable<DeepPartial<T>> {
+  const parser = createPartialJsonParser(schema);
+
+  for await (const chunk of chunks) {
+    const partial = parser.push(chunk);
+    if (partial !== undefined) yield partial;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for self-consistency sampling
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { sampleWithConsistency, structuralSimilarity } from "./selfConsistency";
+
+const TodoSchema = z.object({
+  todos: z.array(z.object({ title: z.string(), done: z.boolean() })),
+});
+
+function todos(...titles: string[]): string {
+  return JSON.stringify({
+    todos: titles.map((title) => ({ title, done: false })),
+  });
+}
+
+describe("structuralSimilarity", () => {
+  it("scores the share of equal leaf fields", () => {
+    expect(structuralSimilarity({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toBe(
+      1
+    );
+    expect(structuralSimilarity({ a: 1, b: 2 }, { a: 1, b: 3 })).toBe(0.5);
+    expect(structuralSimilarity({ a: 1 }, { b: 1 })).toBe(0);
+    expect(structuralSimilarity({ items: [] }, { items: [] })).toBe(1);
+  });
+});
+
+describe("sampleWithConsistency", () => {
+  it("picks the candidate the others agree with", async () => {
+    const inference = vi
+      .fn()
+      .mockResolvedValueOnce(todos("Milk", "Eggs"))
+      .mockResolvedValueOnce(todos("Milk", "Bread"))
+      .mockResolvedValueOnce(todos("Milk", "Eggs"));
+
+    const result = await sampleWithConsistency({
+      prompt: "Add eggs",
+      schema: TodoSchema,
+      inference,
+    });
+
+    expect(inference).toHaveBeenCalledTimes(3);
+    expect(result.success).toBe(true);
+    expect(result.data?.todos[1].title).toBe("Eggs");
+    // Two identical candidates plus one sharing 3 of 4 fields
+    expect(result.agreement).toBeCloseTo((1 + 1 + 3 / 4) / 3);
+    expect(result.candidates.map((c) => c.agreement)).toEqual([
+      result.agreement,
+      expect.any(Number),
+      result.agreement,
+    ]);
+  });
+
+  it("counts invalid candidates as disagreeing", async () => {
+    const inference = vi
+      .fn()
+      .mockResolvedValueOnce(todos("Milk"))
+      .mockResolvedValueOnce('{"todos": "oops"}')
+      .mockResolvedValueOnce(todos("Milk"));
+
+    const result = await sampleWithConsistency({
+      prompt: "Add milk",
+      schema: TodoSchema,
+      inference,
+    });
+
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(result.candidates[1]).toMatchObject({
+      data: null,
+      agreement: 0,
+    });
+    expect(result.candidates[1].errors.length).toBeGreaterThan(0);
+  });
+
+  it("returns a response to correct when no candidate is valid", async () => {
+    const result = await sampleWithConsistency({
+      prompt: "Add milk",
+      schema: TodoSchema,
+      inference: vi.fn().mockResolvedValue("not json"),
+      config: { samples: 2 },
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      data: null,
+      response: "not json",
+      agreement: 0,
+    });
+  });
+
+  it("samples sequentially at the given temperatures", async () => {
+    const temperatures: Array<number | undefined> = [];
+    const inference = vi.fn(async (_prompt: string, options) => {
+      temperatures.push(options.temperature);
+      return todos("Milk");
+    });
+
+    await sampleWithConsistency({
+      prompt: "Add milk",
+      schema: TodoSchema,
+      inference,
+      config: { samples: 4, temperatures: [0, 0.7], parallel: false },
+    });
+
+    expect(temperatures).toEqual([0, 0.7, 0, 0.7]);
+  });
+
+  it("tolerates failed requests unless all of them fail", async () => {
+    const failing = new Error("overloaded");
+
+    const partial = await sampleWithConsistency({
+      prompt: "Add milk",
+      schema: TodoSchema,
+      inference: vi
+        .fn()
+        .mockRejectedValueOnce(failing)
+        .mockResolvedValue(todos("Milk")),
+    });
+
+    expect(partial.agreement).toBeCloseTo(2 / 3);
+    expect(partial.candidates[0].error).toBe(failing);
+
+    await expect(
+      sampleWithConsistency({
+        prompt: "Add milk",
+        schema: TodoSchema,
+        inference: vi.fn().mockRejectedValue(failing),
+      })
+    ).rejects.toBe(failing);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Self-Consistency - Samples several candidate responses and votes
+ *
+ * Each candidate is validated on its own; valid candidates are compared
+ * field by field, and the one the others agree with most wins. Its
+ * agreement (0-1) is a measured model confidence: a model that returns
+ * the same state every time is more likely to be right than one that
+ * changes its answer between samples.
+ */
+
+import { ZodSchema } from "zod";
+import {
+  validateResponse,
+  ValidationError,
+  ValidationResult,
+} from "./schemaValidator";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { flattenLeaves } from "./logprobConfidence";
+
+export interface SelfConsistencyConfig {
+  /** Candidates to sample (default: 3) */
+  samples?: number;
+  /**
+   * Sampling temperature per candidate; candidate `i` uses
+   * `temperatures[i % temperatures.length]` (default: provider default)
+   */
+  temperatures?: number[];
+  /** Sample all candidates at once (default) or one after another */
+  parallel?: boolean;
+}
+
+/**
+ * Per-candidate options passed to `inference`
+ */
+export interface SampleOptions {
+  /** Temperature for this candidate (from `temperatures`) */
+  temperature?: number;
+  /** Time left before the deadline (only set with `timeoutMs`) */
+  timeoutMs?: number;
+}
+
+export interface CandidateRecord<T> {
+  response: string;
+  temperature?: number;
+  /** Parsed candidate, or null when it failed validation */
+  data: T | null;
+  errors: ValidationError[];
+  /** Why the request for this candidate failed */
+  error?: Error;
+  /** Mean similarity to every sample, itself included (0-1) */
+  agreement: number;
+}
+
+export interface SelfConsistencyResult<T> {
+  success: boolean;
+  /** Winning candidate (the one with the highest agreement) */
+  data: T | null;
+  /** Raw response of the winning candidate (or of the first candidate) */
+  response: string;
+  /** Agreement of the winning candidate (0 when no candidate is valid) */
+  agreement: number;
+  candidates: CandidateRecord<T>[];
+}
+
+export interface SampleWithConsistencyParams<T> {
+  prompt: string;
+  schema: ZodSchema<T>;
+  inference: (prompt: string, options: SampleOptions) => Promise<string>;
+  config?: SelfConsistencyConfig;
+  /** Stops sampling (and should cancel `inference`) when aborted */
+  signal?: AbortSignal;
+  /** Custom validation of each candidate (defaults to `validateResponse`) */
+  validate?: (response: string) => ValidationResult<T>;
+  /** Deadline in ms for all candidates */
+  timeoutMs?: number;
+}
+
+/**
+ * Share of leaf fields two values agree on, from 0 (nothing in common)
+ * to 1 (identical)
+ */
+export function structuralSimilarity(a: unknown, b: unknown): number {
+  const left = flattenLeaves(a);
+  const right = flattenLeaves(b);
+  const paths = new Set([...left.keys(), ...right.keys()]);
+
+  let equal = 0;
+  for (const path of paths) {
+    if (left.has(path) && left.get(path) === right.get(path)) equal++;
+  }
+  return paths.size === 0 ? 1 : equal / paths.size;
+}
+
+/**
+ * Samples `config.samples` candidates for `prompt`, validates each and
+ * returns the one most others agree with. Failed or invalid candidates
+ * count as disagreeing; a candidate whose request fails is recorded with
+ * the error unless every candidate fails.
+ */
+export async function sampleWithConsistency<T>({
+  prompt,
+  schema,
+  inference,
+  config = {},
+  signal,
+  validate = (response) => validateResponse(response, schema),
+  timeoutMs,
+}: SampleWithConsistencyParams<T>): Promise<SelfConsistencyResult<T>> {
+  const { samples = 3, temperatures, parallel = true } = config;
+  const count = Math.max(1, samples);
+  const deadline = timeoutMs ? Date.now() + timeoutMs : undefined;
+
+  async function sample(index: number): Promise<CandidateRecord<T>> {
+    throwIfAborted(signal);
+    const temperature = temperatures?.length
+      ? temperatures[index % temperatures.length]
+      : undefined;
+    const remaining =
+      deadline === undefined ? undefined : Math.max(1, deadline - Date.now());
+
+    let response: string;
+    try {
+      response = await inference(prompt, { temperature, timeoutMs: remaining });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        response: "",
+        temperature,
+        data: null,
+        errors: [],
+        error: error instanceof Error ? error : new Error(String(error)),
+        agreement: 0,
+      };
+    }
+
+    const validation = validate(response);
+    return {
+      response,
+      temperature,
+      data: validation.success ? validation.data : null,
+      errors: validation.errors,
+      agreement: 0,
+    };
+  }
+
+  const indexes = Array.from({ length: count }, (_, index) => index);
+  let candidates: CandidateRecord<T>[];
+  if (parallel) {
+    candidates = await Promise.all(indexes.map(sample));
+  } else {
+    candidates = [];
+    for (const index of indexes) candidates.push(await sample(index));
+  }
+  throwIfAborted(signal);
+
+  if (candidates.every((candidate) => candidate.error)) {
+    throw candidates[0].error;
+  }
+
+  // Invalid candidates disagree with everything, including themselves
+  for (const candidate of candidates) {
+    if (candidate.data === null) continue;
+    let total = 0;
+    for (const other of candidates) {
+      if (other.data !== null) {
+        total += structuralSimilarity(candidate.data, other.data);
+      }
+    }
+    candidate.agreement = total / count;
+  }
+
+  let winner: CandidateRecord<T> | undefined;
+  for (const candidate of candidates) {
+    if (
+      candidate.data !== null &&
+      (!winner || candidate.agreement > winner.agreement)
+    ) {
+      winner = candidate;
+    }
+  }
+
+  // At least one request succeeded, so there is a response to correct
+  const fallback = candidates.find((candidate) => !candidate.error)!;
+
+  return {
+    success: !!winner,
+    data: winner?.data ?? null,
+    response: (winner ?? fallback).response,
+    agreement: winner?.agreement ?? 0,
+    candidates,
+  };
+}
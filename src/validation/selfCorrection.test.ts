@@ -5,6 +5,7 @@
 import { describe, it, expect, vi } from "vitest";
 import { z } from "zod";
 import { executeWithCorrection, buildCorrectionPrompt } from "./selfCorrection";
+import { validateAgainstSchema } from "./schemaValidator";
 
 describe("executeWithCorrection", () => {
   const TestSchema = z.object({
@@ -112,6 +113,84 @@ describe("executeWithCorrection", () => {
     expect(result.history).toHaveLength(3);
     expect(result.history[0].response).toBe("attempt 1");
   });
+
+  it("uses a custom validate function", async () => {
+    const validate = vi.fn((response: string) =>
+      validateAgainstSchema(TestSchema, {
+        result: response,
+        confidence: 1,
+      })
+    );
+
+    const result = await executeWithCorrection({
+      prompt: "Test",
+      schema: TestSchema,
+      inference: vi.fn().mockResolvedValue("not json"),
+      validate,
+    });
+
+    expect(validate).toHaveBeenCalledWith("not json");
+    expect(result.data).toEqual({ result: "not json", confidence: 1 });
+  });
+
+  it("stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const mockInference = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      return "invalid json";
+    });
+
+    await expect(
+      executeWithCorrection({
+        prompt: "Test",
+        schema: TestSchema,
+        inference: mockInference,
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(mockInference).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call inference with an already-aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const mockInference = vi.fn();
+
+    await expect(
+      executeWithCorrection({
+        prompt: "Test",
+        schema: TestSchema,
+        inference: mockInference,
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(mockInference).not.toHaveBeenCalled();
+  });
+
+  it("spreads one deadline across every attempt", async () => {
+    const budgets: Array<number | undefined> = [];
+    const mockInference = vi.fn(async (_prompt, { timeoutMs }) => {
+      budgets.push(timeoutMs);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return '{"result": "partial"}';
+    });
+
+    const error = await executeWithCorrection({
+      prompt: "Test",
+      schema: TestSchema,
+      inference: mockInference,
+      timeoutMs: 50,
+      config: { maxRetries: 5 },
+    }).catch((caught) => caught);
+
+    expect(error.code).toBe("INFERENCE_TIMEOUT");
+    expect(error.debugInfo.response).toBe('{"result": "partial"}');
+    expect(mockInference).toHaveBeenCalledTimes(2);
+    expect(budgets[0]).toBeGreaterThan(40);
+    expect(budgets[1]).toBeLessThan(50);
+  });
 });
 
 describe("buildCorrectionPrompt", () => {
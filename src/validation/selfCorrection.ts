@@ -7,7 +7,10 @@ import {
   validateResponse,
   formatErrorsForCorrection,
   ValidationError,
+  ValidationResult,
 } from "./schemaValidator";
+import { throwIfAborted } from "../utils/abort";
+import { Errors } from "../errors";
 
 export interface CorrectionConfig {
   maxRetries: number;
@@ -58,11 +61,32 @@ ORIGINAL REQUEST:
 ${originalPrompt}`;
 }
 
+/**
+ * Per-attempt options passed to `inference`
+ */
+export interface AttemptOptions {
+  /** Time left before the overall deadline (only set with `timeoutMs`) */
+  timeoutMs?: number;
+}
+
 export interface ExecuteWithCorrectionParams<T> {
   prompt: string;
   schema: ZodSchema<T>;
-  inference: (prompt: string) => Promise<string>;
+  inference: (prompt: string, options: AttemptOptions) => Promise<string>;
   config?: Partial<CorrectionConfig>;
+  /** Stops the correction loop (and should cancel `inference`) when aborted */
+  signal?: AbortSignal;
+  /**
+   * Custom validation of each response (defaults to `validateResponse`
+   * against `schema`), e.g. to apply a JSON Patch before validating
+   */
+  validate?: (response: string) => ValidationResult<T>;
+  /**
+   * Deadline in ms spanning every attempt. Each `inference` call gets the
+   * time left as `options.timeoutMs`; running out between attempts throws
+   * INFERENCE_TIMEOUT with the last response in `debugInfo.response`.
+   */
+  timeoutMs?: number;
 }
 
 /**
@@ -73,20 +97,34 @@ export async function executeWithCorrection<T>({
   schema,
   inference,
   config = {},
+  signal,
+  validate = (response) => validateResponse(response, schema),
+  timeoutMs,
 }: ExecuteWithCorrectionParams<T>): Promise<CorrectionResult<T>> {
   const settings: CorrectionConfig = { ...DEFAULT_CONFIG, ...config };
   const history: AttemptRecord[] = [];
+  const deadline = timeoutMs ? Date.now() + timeoutMs : undefined;
   let attempts = 0;
   let currentPrompt = prompt;
 
   while (attempts < settings.maxRetries) {
+    throwIfAborted(signal);
+
+    const remaining =
+      deadline === undefined ? undefined : deadline - Date.now();
+    if (remaining !== undefined && remaining <= 0) {
+      throw Errors.inferenceTimeout("self-correction", timeoutMs!, {
+        partialOutput: history[history.length - 1]?.response,
+      });
+    }
     attempts++;
 
     // Call the LLM
-    const response = await inference(currentPrompt);
+    const response = await inference(currentPrompt, { timeoutMs: remaining });
+    throwIfAborted(signal);
 
     // Validate the response
-    const validation = validateResponse(response, schema);
+    const validation = validate(response);
 
     // Record this attempt
     history.push({